@@ -3,7 +3,7 @@
  * Exports the Embed component.
  */
 
-import type { IEmbedProps } from '@interfaces/embed';
+import type { EmbedAnalyticsShareMethod, IEmbedProps } from '@interfaces/embed';
 import React, {
   useCallback,
   useEffect,
@@ -19,10 +19,13 @@ import {
   embedStateReducer
 } from '@states/embed/Embed.reducer';
 import { EmbedActionTypes } from '@states/embed/Embed.actions';
-import generateEmbedHtml from '@lib/generate/html/generateEmbedHtml';
+import generateEmbedHtml, {
+  EMBED_PLAYLIST_MAX_HEIGHT
+} from '@lib/generate/html/generateEmbedHtml';
 import BackgroundImage from '@components/BackgroundImage/BackgroundImage';
 import ThemeVars from '@components/ThemeVars';
 import PlayButton from '@components/Player/PlayButton';
+import SleepTimerCountdown from '@components/Player/SleepTimerCountdown';
 import PlayerProgress from '@components/Player/PlayerProgress';
 import IconButton from '@components/IconButton';
 import ForwardButton from '@components/Player/ForwardButton';
@@ -30,6 +33,8 @@ import NextButton from '@components/Player/NextButton';
 import Player from '@components/Player';
 import ClosedCaptionsDialog from '@components/Player/ClosedCaptionsDialog';
 import PlayerText from '@components/Player/PlayerText';
+import PlayerError from '@components/Player/PlayerError';
+import HotkeysDialog from '@components/Player/HotkeysDialog';
 import PlayerThumbnail from '@components/Player/PlayerThumbnail';
 import PreviousButton from '@components/Player/PreviousButton';
 import ReplayButton from '@components/Player/ReplayButton';
@@ -42,6 +47,10 @@ import CloseIcon from '@svg/icons/Close.svg';
 import styles from '@styles/Embed.module.scss';
 import ClosedCaptions from '@components/Player/ClosedCaptions';
 import ClosedCaptionsFeed from '@components/Player/ClosedCaptionsFeed';
+import type { IEmbedAnalyticsShare } from './EmbedAnalytics/EmbedAnalytics';
+import EmbedAnalytics from './EmbedAnalytics';
+import EmbedApi from './EmbedApi';
+import EmbedPlaybackSync from './EmbedPlaybackSync';
 import EmbedSettingsMenu from './EmbedSettingsMenu';
 
 // Define dynamic component imports.
@@ -60,7 +69,22 @@ export interface IEmbedLayoutBreakPoint {
 }
 
 const Embed = ({ config, data }: IEmbedProps) => {
-  const { showCoverArt, showPlaylist, accentColor, theme } = config;
+  const {
+    showCoverArt,
+    showPlaylist,
+    accentColor,
+    theme,
+    feedUrl,
+    repeatMode,
+    shuffle,
+    crossfade,
+    skipBack,
+    skipForward,
+    disablePersistence,
+    hotkeys,
+    continueToNextEmbed,
+    analyticsUrl
+  } = config;
   const {
     mode,
     audio,
@@ -68,7 +92,8 @@ const Embed = ({ config, data }: IEmbedProps) => {
     bgImageUrl,
     followUrls,
     supportUrls,
-    paymentPointer
+    paymentPointer,
+    rssTitle
   } = data;
   const isPreview = mode === 'preview';
   const { imageUrl } = audio || {};
@@ -94,6 +119,11 @@ const Embed = ({ config, data }: IEmbedProps) => {
   );
   const [showMenu, setShowMenu] = useState(false);
   const [playerLayout, setPlayerLayout] = useState<IEmbedLayoutBreakPoint>();
+  const [playlistContentHeight, setPlaylistContentHeight] = useState(0);
+  const [contentHeight, setContentHeight] = useState<number>();
+  const [analyticsShare, setAnalyticsShare] = useState<IEmbedAnalyticsShare>();
+  const mainRef = useRef<HTMLDivElement>();
+  const playerContainerRef = useRef<HTMLDivElement>();
   const playerMainRef = useRef<HTMLDivElement>();
   const playerPanelRef = useRef<HTMLDivElement>();
   const playerControlsRef = useRef<HTMLDivElement>();
@@ -223,6 +253,10 @@ const Embed = ({ config, data }: IEmbedProps) => {
     dispatch({ type: EmbedActionTypes.EMBED_HIDE_SHARE_DIALOG });
   };
 
+  const handleShare = (method: EmbedAnalyticsShareMethod) => {
+    setAnalyticsShare({ method });
+  };
+
   const handleSupportButtonClick = () => {
     dispatch({ type: EmbedActionTypes.EMBED_SHOW_SUPPORT_DIALOG });
   };
@@ -247,10 +281,30 @@ const Embed = ({ config, data }: IEmbedProps) => {
     dispatch({ type: EmbedActionTypes.EMBED_HIDE_SETTINGS_DIALOG });
   };
 
+  /**
+   * Update height the embed needs to show all of its content, regardless of
+   * the height of the frame it is currently in.
+   */
+  const updateContentHeight = useCallback(() => {
+    if (!playerContainerRef.current) return;
+
+    const playerHeight = playerContainerRef.current.offsetHeight;
+    // Cover art is square and fills the width of the embed.
+    const coverArtHeight = canShowCoverArt
+      ? document.documentElement.clientWidth
+      : 0;
+    const playlistHeight = canShowPlaylist
+      ? Math.min(playlistContentHeight, EMBED_PLAYLIST_MAX_HEIGHT)
+      : 0;
+
+    setContentHeight(Math.ceil(playerHeight + coverArtHeight + playlistHeight));
+  }, [canShowCoverArt, canShowPlaylist, playlistContentHeight]);
+
   const handleResize = useCallback(() => {
     initLayoutBreakpoints();
     updatePlayerLayout();
-  }, [initLayoutBreakpoints, updatePlayerLayout]);
+    updateContentHeight();
+  }, [initLayoutBreakpoints, updatePlayerLayout, updateContentHeight]);
 
   /**
    * Initialize layout breakpoints.
@@ -260,6 +314,10 @@ const Embed = ({ config, data }: IEmbedProps) => {
     updatePlayerLayout();
   }, [initLayoutBreakpoints, canShowCoverArt, updatePlayerLayout]);
 
+  useEffect(() => {
+    updateContentHeight();
+  }, [updateContentHeight]);
+
   /**
    * Setup/clean up window events.
    */
@@ -279,7 +337,7 @@ const Embed = ({ config, data }: IEmbedProps) => {
         <style>{`:root {${rootStyles}}`}</style>
       </Head>
       <div className={styles.container} data-theme={theme}>
-        <div className={mainClasses}>
+        <div ref={mainRef} className={mainClasses}>
           {!audio && (
             <div className={styles.messageContainer}>
               <BackgroundImage
@@ -294,6 +352,16 @@ const Embed = ({ config, data }: IEmbedProps) => {
               audio={playlist || audio}
               startIndex={currentTrackIndex}
               imageUrl={bgImageUrl}
+              feedUrl={feedUrl}
+              repeatMode={repeatMode}
+              shuffle={shuffle}
+              crossfade={crossfade}
+              skipBack={skipBack}
+              skipForward={skipForward}
+              disablePersistence={disablePersistence}
+              hotkeys={hotkeys}
+              rootRef={mainRef}
+              feedTitle={rssTitle}
             >
               {canShowCoverArt && (
                 <div
@@ -313,6 +381,7 @@ const Embed = ({ config, data }: IEmbedProps) => {
               )}
 
               <div
+                ref={playerContainerRef}
                 className={styles.playerContainer}
                 {...(modalShown && { inert: '' })}
               >
@@ -371,7 +440,6 @@ const Embed = ({ config, data }: IEmbedProps) => {
                       {canShowPlaylist && (
                         <PreviousButton
                           className={clsx(styles.button, styles.previousButton)}
-                          disabled={currentTrackIndex === 1}
                         />
                       )}
 
@@ -383,6 +451,8 @@ const Embed = ({ config, data }: IEmbedProps) => {
                         className={clsx(styles.button, styles.playButton)}
                       />
 
+                      <SleepTimerCountdown className={styles.sleepTimer} />
+
                       <ForwardButton
                         className={clsx(styles.button, styles.replayButton)}
                       />
@@ -390,7 +460,6 @@ const Embed = ({ config, data }: IEmbedProps) => {
                       {canShowPlaylist && (
                         <NextButton
                           className={clsx(styles.button, styles.nextButton)}
-                          disabled={currentTrackIndex === playlist.length - 1}
                         />
                       )}
                     </div>
@@ -452,6 +521,7 @@ const Embed = ({ config, data }: IEmbedProps) => {
                           onClose={handleShareCloseClick}
                           embedHtml={embedHtml}
                           downloadable={!isPreview}
+                          onShare={handleShare}
                           isOpen={shareShown}
                           portalId="embed-modals"
                         />
@@ -490,6 +560,22 @@ const Embed = ({ config, data }: IEmbedProps) => {
                   </div>
                 </div>
 
+                <PlayerError className={styles.error} />
+
+                <HotkeysDialog />
+
+                {!isPreview && (
+                  <>
+                    <EmbedPlaybackSync
+                      continueToNextEmbed={continueToNextEmbed}
+                    />
+                    <EmbedApi config={config} contentHeight={contentHeight} />
+                    {analyticsUrl && (
+                      <EmbedAnalytics config={config} share={analyticsShare} />
+                    )}
+                  </>
+                )}
+
                 {showClosedCaptionDialog && (
                   <div
                     className={styles.modals}
@@ -504,7 +590,10 @@ const Embed = ({ config, data }: IEmbedProps) => {
                   className={styles.playlist}
                   {...(modalShown && { inert: '' })}
                 >
-                  <Playlist style={{ height: '100%' }} />
+                  <Playlist
+                    style={{ height: '100%' }}
+                    onContentResize={setPlaylistContentHeight}
+                  />
                 </div>
               )}
 
@@ -0,0 +1,183 @@
+/**
+ * @file EmbedAnalytics.tsx
+ * Send opt-in listening analytics events to the configured collector.
+ */
+
+import type React from 'react';
+import type { IEmbedConfig } from '@interfaces/config';
+import type {
+  EmbedAnalyticsShareMethod,
+  IEmbedAnalyticsEvent
+} from '@interfaces/embed';
+import { useContext, useEffect, useRef } from 'react';
+import PlayerContext from '@contexts/PlayerContext';
+import sendAnalyticsBeacon from '@lib/fetch/analytics/sendAnalyticsBeacon';
+import getPlaybackQuartile from '@lib/parse/data/getPlaybackQuartile';
+import parseMediaPositionState from '@lib/parse/data/parseMediaPositionState';
+import parseAnalyticsUrl from '@lib/parse/string/parseAnalyticsUrl';
+
+export interface IEmbedAnalyticsShare {
+  method: EmbedAnalyticsShareMethod;
+}
+
+export interface IEmbedAnalyticsProps {
+  config: IEmbedConfig;
+
+  /**
+   * Last share menu option used. Each new object is sent as a share event.
+   */
+  share?: IEmbedAnalyticsShare;
+}
+
+type EmbedAnalyticsEventProps = Omit<
+  IEmbedAnalyticsEvent,
+  'timestamp' | 'sessionId' | 'config' | 'feedUrl' | 'guid'
+>;
+
+const EmbedAnalytics: React.FC<IEmbedAnalyticsProps> = ({ config, share }) => {
+  const { audioElm, state } = useContext(PlayerContext);
+  const { playing, tracks, currentTrackIndex } = state;
+  const { analyticsUrl, ...eventConfig } = config;
+  const sessionId = useRef(Math.random().toString(36).slice(2));
+  const hasPlayed = useRef(false);
+  const lastQuartile = useRef(0);
+  const lastPosition = useRef(0);
+  // eslint-disable-next-line no-unused-vars
+  const send = useRef<(props: EmbedAnalyticsEventProps) => void>();
+
+  send.current = (props: EmbedAnalyticsEventProps) => {
+    if (!analyticsUrl || typeof window === 'undefined') return;
+
+    const collectorUrl = parseAnalyticsUrl(
+      analyticsUrl,
+      window.location.origin
+    );
+    const track = tracks[currentTrackIndex];
+
+    if (!collectorUrl) return;
+
+    const positionState =
+      audioElm &&
+      parseMediaPositionState(
+        audioElm.currentTime,
+        audioElm.duration,
+        1,
+        track?.clipStart,
+        track?.clipEnd
+      );
+
+    sendAnalyticsBeacon(collectorUrl, {
+      timestamp: new Date().toISOString(),
+      sessionId: sessionId.current,
+      config: eventConfig,
+      ...(config.feedUrl && { feedUrl: config.feedUrl }),
+      ...(track?.guid && { guid: track.guid }),
+      ...(positionState && {
+        currentTime: positionState.position,
+        duration: positionState.duration
+      }),
+      ...props
+    });
+  };
+
+  useEffect(() => {
+    send.current({ event: 'load' });
+  }, []);
+
+  useEffect(() => {
+    if (!playing || hasPlayed.current) return;
+
+    hasPlayed.current = true;
+
+    send.current({ event: 'firstPlay' });
+  }, [playing]);
+
+  useEffect(() => {
+    lastQuartile.current = 0;
+  }, [currentTrackIndex]);
+
+  useEffect(() => {
+    if (share) {
+      send.current({ event: 'share', shareMethod: share.method });
+    }
+  }, [share]);
+
+  useEffect(() => {
+    if (!audioElm || !analyticsUrl) return undefined;
+
+    function getPosition() {
+      const track = tracks[currentTrackIndex];
+
+      return parseMediaPositionState(
+        audioElm.currentTime,
+        audioElm.duration,
+        1,
+        track?.clipStart,
+        track?.clipEnd
+      );
+    }
+
+    function handleTimeUpdate() {
+      const positionState = getPosition();
+
+      if (!positionState || audioElm.seeking) return;
+
+      const quartile = getPlaybackQuartile(
+        positionState.position,
+        positionState.duration
+      );
+
+      lastPosition.current = positionState.position;
+
+      while (lastQuartile.current < quartile) {
+        lastQuartile.current += 25;
+
+        send.current(
+          lastQuartile.current < 100
+            ? {
+                event: 'quartile',
+                quartile: lastQuartile.current as 25 | 50 | 75
+              }
+            : { event: 'complete' }
+        );
+      }
+    }
+
+    function handleSeeked() {
+      const positionState = getPosition();
+
+      if (!hasPlayed.current || !positionState) return;
+
+      send.current({ event: 'seek', seekFrom: lastPosition.current });
+
+      lastPosition.current = positionState.position;
+      // Only count milestones reached by listening, not by seeking past them.
+      lastQuartile.current = Math.max(
+        lastQuartile.current,
+        getPlaybackQuartile(positionState.position, positionState.duration)
+      );
+    }
+
+    function handleEnded() {
+      if (lastQuartile.current === 100) return;
+
+      lastQuartile.current = 100;
+
+      send.current({ event: 'complete' });
+    }
+
+    audioElm.addEventListener('timeupdate', handleTimeUpdate);
+    audioElm.addEventListener('seeked', handleSeeked);
+    audioElm.addEventListener('ended', handleEnded);
+
+    return () => {
+      audioElm.removeEventListener('timeupdate', handleTimeUpdate);
+      audioElm.removeEventListener('seeked', handleSeeked);
+      audioElm.removeEventListener('ended', handleEnded);
+    };
+  }, [analyticsUrl, audioElm, currentTrackIndex, tracks]);
+
+  return null;
+};
+
+export default EmbedAnalytics;
@@ -0,0 +1,3 @@
+import EmbedAnalytics from './EmbedAnalytics';
+
+export default EmbedAnalytics;
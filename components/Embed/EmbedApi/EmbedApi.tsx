@@ -0,0 +1,217 @@
+/**
+ * @file EmbedApi.tsx
+ * Let the host page control and observe the embed with postMessage.
+ */
+
+import type React from 'react';
+import type { IEmbedConfig } from '@interfaces/config';
+import type {
+  EmbedApiCommand,
+  EmbedApiEvent,
+  EmbedApiMessage,
+  IEmbedApiTrack
+} from '@interfaces/embed';
+import type { IAudioData } from '@interfaces/data';
+import { useContext, useEffect, useRef } from 'react';
+import { EMBED_API_NAMESPACE, EMBED_API_VERSION } from '@interfaces/embed';
+import PlayerContext from '@contexts/PlayerContext';
+import generateEmbedUrl from '@lib/generate/string/generateEmbedUrl';
+import parseEmbedApiCommand from '@lib/parse/data/parseEmbedApiCommand';
+
+/**
+ * Milliseconds between `timeupdate` events sent to the host page.
+ */
+const TIMEUPDATE_INTERVAL = 1000;
+
+export interface IEmbedApiProps {
+  config: IEmbedConfig;
+  contentHeight?: number;
+}
+
+function postEvent(event: EmbedApiEvent) {
+  if (typeof window === 'undefined' || window.parent === window) return;
+
+  const message: EmbedApiMessage<EmbedApiEvent> = {
+    namespace: EMBED_API_NAMESPACE,
+    version: EMBED_API_VERSION,
+    ...event
+  };
+
+  // Events don't carry anything private, so any host page may receive them.
+  window.parent.postMessage(message, '*');
+}
+
+function toApiTrack({ guid, title }: IAudioData): IEmbedApiTrack {
+  return { guid, title };
+}
+
+const EmbedApi: React.FC<IEmbedApiProps> = ({ config, contentHeight }) => {
+  const { audioElm, state, play, pause, seekTo, setVolume, setTrack } =
+    useContext(PlayerContext);
+  const { playing, tracks, currentTrackIndex, error } = state;
+  const isReady = useRef(false);
+  const wasPlaying = useRef(playing);
+  const previousTrackIndex = useRef(currentTrackIndex);
+  const lastTimeUpdate = useRef(0);
+  // eslint-disable-next-line no-unused-vars
+  const handleCommand = useRef<(command: EmbedApiCommand) => void>();
+
+  const postReady = () => {
+    isReady.current = true;
+
+    postEvent({
+      event: 'ready',
+      tracks: tracks.map(toApiTrack),
+      currentTrackIndex
+    });
+  };
+
+  handleCommand.current = (command: EmbedApiCommand) => {
+    switch (command.command) {
+      case 'hello':
+        if (isReady.current) {
+          postReady();
+        }
+        break;
+      case 'play':
+        play();
+        break;
+      case 'pause':
+        pause();
+        break;
+      case 'seekTo':
+        seekTo(command.time);
+        break;
+      case 'setVolume':
+        setVolume(command.volume);
+        break;
+      case 'setTrack':
+        if (command.index < tracks.length) {
+          setTrack(command.index);
+        } else {
+          postEvent({ event: 'error', reason: 'notFound' });
+        }
+        break;
+      case 'loadEpisode': {
+        const index = tracks.findIndex(({ guid }) => guid === command.guid);
+
+        if (index > -1) {
+          setTrack(index);
+        } else if (config.feedUrl) {
+          // Episodes outside the playlist need the embed to load again. Keep
+          // the hash so the embed keeps its page key.
+          window.location.replace(
+            `${generateEmbedUrl({ ...config, episodeGuid: command.guid })}${
+              window.location.hash
+            }`
+          );
+        } else {
+          postEvent({ event: 'error', reason: 'notFound' });
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  };
+
+  useEffect(() => {
+    function handleMessage(e: MessageEvent) {
+      // Only the page the embed is framed in can control it.
+      if (e.source !== window.parent || window.parent === window) return;
+
+      const parsed = parseEmbedApiCommand(e.data);
+
+      if (!parsed) return;
+
+      if (parsed.error) {
+        postEvent({ event: 'error', reason: parsed.error });
+        return;
+      }
+
+      handleCommand.current(parsed.command);
+    }
+
+    window.addEventListener('message', handleMessage);
+
+    return () => {
+      window.removeEventListener('message', handleMessage);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isReady.current || !tracks.length) return;
+
+    postReady();
+    // Ready is only announced once tracks are first available.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tracks]);
+
+  useEffect(() => {
+    if (playing === wasPlaying.current) return;
+
+    wasPlaying.current = playing;
+
+    postEvent({ event: playing ? 'play' : 'pause' });
+  }, [playing]);
+
+  useEffect(() => {
+    const track = tracks[currentTrackIndex];
+
+    if (currentTrackIndex === previousTrackIndex.current || !track) return;
+
+    previousTrackIndex.current = currentTrackIndex;
+
+    postEvent({
+      event: 'trackchange',
+      index: currentTrackIndex,
+      track: toApiTrack(track)
+    });
+  }, [currentTrackIndex, tracks]);
+
+  useEffect(() => {
+    if (!error || error.retrying) return;
+
+    postEvent({ event: 'error', reason: error.reason });
+  }, [error]);
+
+  useEffect(() => {
+    if (!contentHeight) return;
+
+    postEvent({ event: 'resize', height: contentHeight });
+  }, [contentHeight]);
+
+  useEffect(() => {
+    if (!audioElm) return undefined;
+
+    function handleTimeUpdate() {
+      const now = Date.now();
+
+      if (now - lastTimeUpdate.current < TIMEUPDATE_INTERVAL) return;
+
+      lastTimeUpdate.current = now;
+
+      postEvent({
+        event: 'timeupdate',
+        currentTime: audioElm.currentTime,
+        duration: Number.isFinite(audioElm.duration) ? audioElm.duration : null
+      });
+    }
+
+    function handleEnded() {
+      postEvent({ event: 'ended' });
+    }
+
+    audioElm.addEventListener('timeupdate', handleTimeUpdate);
+    audioElm.addEventListener('ended', handleEnded);
+
+    return () => {
+      audioElm.removeEventListener('timeupdate', handleTimeUpdate);
+      audioElm.removeEventListener('ended', handleEnded);
+    };
+  }, [audioElm]);
+
+  return null;
+};
+
+export default EmbedApi;
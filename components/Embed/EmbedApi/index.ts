@@ -0,0 +1,3 @@
+import EmbedApi from './EmbedApi';
+
+export default EmbedApi;
@@ -0,0 +1,123 @@
+/**
+ * @file EmbedPlaybackSync.tsx
+ * Keep Play embeds on the same page from playing over each other, and
+ * optionally continue playback with the next embed on the page.
+ */
+
+import type React from 'react';
+import type {
+  EmbedChannelMessage,
+  IEmbedChannel
+} from '@lib/generate/embed/generateEmbedChannel';
+import type { IPlayerSleepTimer } from '@interfaces/states/player';
+import { useContext, useEffect, useRef } from 'react';
+import PlayerContext from '@contexts/PlayerContext';
+import generateEmbedChannel from '@lib/generate/embed/generateEmbedChannel';
+import getNextEmbedId from '@lib/parse/data/getNextEmbedId';
+import getEmbedPageKey from '@lib/parse/dom/getEmbedPageKey';
+import getFrameIndex from '@lib/parse/dom/getFrameIndex';
+
+export interface IEmbedPlaybackSyncProps {
+  continueToNextEmbed?: boolean;
+}
+
+const EmbedPlaybackSync: React.FC<IEmbedPlaybackSyncProps> = ({
+  continueToNextEmbed
+}) => {
+  const { audioElm, state, play, pause } = useContext(PlayerContext);
+  const { playing, sleepTimer } = state;
+  const channel = useRef<IEmbedChannel>();
+  const embedId = useRef<string>();
+  const frameIndex = useRef(-1);
+  const embeds = useRef<{ [id: string]: number }>({});
+  const wasPlaying = useRef(playing);
+  const previousSleepTimer = useRef<IPlayerSleepTimer>(sleepTimer);
+  const handlers = useRef({ play, pause });
+
+  handlers.current = { play, pause };
+
+  useEffect(() => {
+    const id = Math.random().toString(36).slice(2);
+
+    embedId.current = id;
+    frameIndex.current = getFrameIndex();
+
+    const handleMessage = (message: EmbedChannelMessage) => {
+      switch (message.type) {
+        case 'announce':
+          // Answer embeds that just joined so they know about this one.
+          if (!(message.id in embeds.current)) {
+            channel.current?.post({
+              type: 'announce',
+              id,
+              frameIndex: frameIndex.current
+            });
+          }
+          embeds.current[message.id] = message.frameIndex;
+          break;
+        case 'leave':
+          delete embeds.current[message.id];
+          break;
+        case 'play':
+          handlers.current.pause();
+          break;
+        case 'continue':
+          if (message.target === id) {
+            handlers.current.play();
+          }
+          break;
+        default:
+          break;
+      }
+    };
+
+    channel.current = generateEmbedChannel(handleMessage, getEmbedPageKey());
+    channel.current?.post({
+      type: 'announce',
+      id,
+      frameIndex: frameIndex.current
+    });
+
+    return () => {
+      channel.current?.post({ type: 'leave', id });
+      channel.current?.close();
+      channel.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const startedPlaying = playing && !wasPlaying.current;
+    const stoppedPlaying = !playing && wasPlaying.current;
+    // Sleep timers clear when they stop playback, so check what was set.
+    const stoppedBySleepTimer = !!previousSleepTimer.current;
+
+    wasPlaying.current = playing;
+    previousSleepTimer.current = sleepTimer;
+
+    if (startedPlaying) {
+      channel.current?.post({ type: 'play', id: embedId.current });
+      return;
+    }
+
+    if (
+      continueToNextEmbed &&
+      stoppedPlaying &&
+      !stoppedBySleepTimer &&
+      audioElm?.ended
+    ) {
+      const target = getNextEmbedId(embeds.current, frameIndex.current);
+
+      if (target) {
+        channel.current?.post({
+          type: 'continue',
+          id: embedId.current,
+          target
+        });
+      }
+    }
+  }, [audioElm, continueToNextEmbed, playing, sleepTimer]);
+
+  return null;
+};
+
+export default EmbedPlaybackSync;
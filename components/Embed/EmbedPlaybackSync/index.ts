@@ -0,0 +1,3 @@
+import EmbedPlaybackSync from './EmbedPlaybackSync';
+
+export default EmbedPlaybackSync;
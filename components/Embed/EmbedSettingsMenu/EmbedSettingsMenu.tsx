@@ -6,11 +6,15 @@
 import type React from 'react';
 import clsx from 'clsx';
 import Modal, { IModalProps } from '@components/Modal/Modal';
+import AudioEnhancementControls from '@components/Player/AudioEnhancementControls';
 import PlaybackRateControls from '@components/Player/PlaybackSpeedControls';
 import SettingsMenuButton from '@components/Player/SettingsMenuButton';
+import SleepTimerControls from '@components/Player/SleepTimerControls';
 import VolumeControls from '@components/Player/VolumeControls';
 import VolumeUpIcon from '@svg/icons/VolumeUp.svg';
 import PlaybackSpeedIcon from '@svg/icons/PlaybackSpeed.svg';
+import BedtimeIcon from '@svg/icons/Bedtime.svg';
+import GraphicEqIcon from '@svg/icons/GraphicEq.svg';
 import styles from './EmbedSettingsMenu.module.scss';
 
 export interface IEmbedSettingsMenuProps extends IModalProps {
@@ -52,6 +56,24 @@ const EmbedSettingsMenu: React.FC<IEmbedSettingsMenuProps> = ({
               <PlaybackRateControls />
             </span>
           </div>
+          <div className={styles.setting}>
+            <span className={styles.settingLabel}>
+              <BedtimeIcon />
+              <span>Sleep Timer</span>
+            </span>
+            <span className={styles.settingControl}>
+              <SleepTimerControls />
+            </span>
+          </div>
+          <div className={styles.setting}>
+            <span className={styles.settingLabel}>
+              <GraphicEqIcon />
+              <span>Enhance Audio</span>
+            </span>
+            <span className={styles.settingControl}>
+              <AudioEnhancementControls />
+            </span>
+          </div>
         </div>
       </Modal>
     </>
@@ -0,0 +1,139 @@
+/**
+ * @file AccentColorEditor.tsx
+ * Editor for accent color and gradient color stops.
+ */
+
+import type React from 'react';
+import clsx from 'clsx';
+import styles from './AccentColorEditor.module.scss';
+
+export interface IAccentColorEditorProps {
+  className?: string;
+  value?: string[];
+  // eslint-disable-next-line no-unused-vars
+  onChange(value?: string[]): void;
+}
+
+interface IColorStop {
+  color: string;
+  stop?: number;
+}
+
+const DEFAULT_COLOR = '#ff9600';
+
+/**
+ * Parse accent color value into a color input friendly color and stop.
+ */
+const parseColorStop = (value: string): IColorStop => {
+  const [color, stop] = value.trim().split(/\s+/);
+  const hex = color.replace('#', '');
+  const fullHex =
+    hex.length === 3
+      ? hex
+          .split('')
+          .map((c) => `${c}${c}`)
+          .join('')
+      : hex.slice(0, 6);
+
+  return {
+    color: `#${fullHex.toLowerCase()}`,
+    ...(stop && { stop: parseInt(stop, 10) })
+  };
+};
+
+const formatColorStop = ({ color, stop }: IColorStop) =>
+  typeof stop === 'number' && !Number.isNaN(stop) ? `${color} ${stop}%` : color;
+
+const AccentColorEditor: React.FC<IAccentColorEditorProps> = ({
+  className,
+  value,
+  onChange
+}) => {
+  const colorStops = (value || []).map(parseColorStop);
+  const isGradient = colorStops.length > 1;
+  const previewBackground =
+    value?.length &&
+    (isGradient
+      ? `linear-gradient(to right, ${value.join(', ')})`
+      : colorStops[0].color);
+
+  const updateColorStops = (newColorStops: IColorStop[]) => {
+    onChange(
+      newColorStops.length ? newColorStops.map(formatColorStop) : undefined
+    );
+  };
+
+  const handleColorChange = (index: number, color: string) => {
+    updateColorStops(
+      colorStops.map((cs, i) => (i === index ? { ...cs, color } : cs))
+    );
+  };
+
+  const handleStopChange = (index: number, stop: string) => {
+    const stopValue = stop === '' ? undefined : parseInt(stop, 10);
+
+    updateColorStops(
+      colorStops.map((cs, i) =>
+        i === index ? { color: cs.color, stop: stopValue } : cs
+      )
+    );
+  };
+
+  const handleRemoveClick = (index: number) => {
+    updateColorStops(colorStops.filter((_, i) => i !== index));
+  };
+
+  const handleAddClick = () => {
+    const lastColor = colorStops[colorStops.length - 1]?.color;
+
+    updateColorStops([...colorStops, { color: lastColor || DEFAULT_COLOR }]);
+  };
+
+  return (
+    <div className={clsx(styles.root, className)}>
+      {previewBackground && (
+        <div
+          className={styles.preview}
+          style={{ background: previewBackground }}
+        />
+      )}
+      {colorStops.map(({ color, stop }, index) => (
+        // eslint-disable-next-line react/no-array-index-key
+        <div className={styles.colorStop} key={index}>
+          <input
+            type="color"
+            aria-label={`Color ${index + 1}`}
+            value={color}
+            onChange={(e) => handleColorChange(index, e.target.value)}
+          />
+          {isGradient && (
+            <label className={styles.stop} htmlFor={`accentColorStop${index}`}>
+              <input
+                id={`accentColorStop${index}`}
+                type="number"
+                min={0}
+                max={100}
+                placeholder="Auto"
+                value={typeof stop === 'number' ? stop : ''}
+                onChange={(e) => handleStopChange(index, e.target.value)}
+              />
+              %
+            </label>
+          )}
+          <button type="button" onClick={() => handleRemoveClick(index)}>
+            Remove
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        className={styles.addButton}
+        onClick={handleAddClick}
+      >
+        {isGradient || !colorStops.length ? 'Add Color' : 'Add Gradient Color'}
+      </button>
+    </div>
+  );
+};
+
+export default AccentColorEditor;
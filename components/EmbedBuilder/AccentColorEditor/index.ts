@@ -0,0 +1,3 @@
+import AccentColorEditor from './AccentColorEditor';
+
+export default AccentColorEditor;
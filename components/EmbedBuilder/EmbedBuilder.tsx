@@ -0,0 +1,712 @@
+/**
+ * @file EmbedBuilder.tsx
+ * Form for building embed config, with a live preview and embed code.
+ */
+
+import type React from 'react';
+import type { IEmbedConfig } from '@interfaces/config';
+import type { IRss } from '@interfaces/data';
+import type {
+  PreviewMessage,
+  PreviewRequest,
+  PreviewResponse
+} from '@interfaces/embed';
+import type { IEmbedConfigValidationError } from '@interfaces/error';
+import { useEffect, useRef, useState } from 'react';
+import {
+  PREVIEW_MESSAGE_NAMESPACE,
+  PREVIEW_MESSAGE_VERSION
+} from '@interfaces/embed';
+import generateEmbedUrl from '@lib/generate/string/generateEmbedUrl';
+import generateEmbedHtml, {
+  generateEmbedStyles,
+  getEmbedHeight
+} from '@lib/generate/html/generateEmbedHtml';
+import parseEmbedBuilderOptions from '@lib/parse/data/parseEmbedBuilderOptions';
+import { EmbedConfigValidators } from '@lib/validate/validateEmbedConfig';
+import AccentColorEditor from './AccentColorEditor';
+import EmbedBuilderOutput from './EmbedBuilderOutput';
+import styles from './EmbedBuilder.module.scss';
+
+export interface IEmbedBuilderProps {
+  config: IEmbedConfig;
+  rssData?: IRss;
+}
+
+type EmbedHtmlFormat = 'iframe' | 'autoResize' | 'element';
+
+const SKIP_INTERVAL_OPTIONS = [5, 10, 15, 30, 45, 60];
+
+/**
+ * Generate URL of the preview page for a config.
+ */
+const generatePreviewUrl = (config: IEmbedConfig, origin: string) => {
+  const url = new URL(generateEmbedUrl(config, origin));
+
+  url.pathname = '/preview';
+
+  return url.toString();
+};
+
+const EmbedBuilder: React.FC<IEmbedBuilderProps> = ({
+  config: initialConfig,
+  rssData: initialRssData
+}) => {
+  const [config, setConfig] = useState<IEmbedConfig>(initialConfig);
+  const [rssData, setRssData] = useState(initialRssData);
+  const [feedUrlInput, setFeedUrlInput] = useState(initialConfig.feedUrl || '');
+  const [feedError, setFeedError] = useState<string>();
+  const [feedLoading, setFeedLoading] = useState(false);
+  const [origin, setOrigin] = useState<string>();
+  const [previewUrl, setPreviewUrl] = useState<string>();
+  const [previewErrors, setPreviewErrors] =
+    useState<IEmbedConfigValidationError[]>();
+  const [htmlFormat, setHtmlFormat] = useState<EmbedHtmlFormat>('iframe');
+  const previewWrapperRef = useRef<HTMLDivElement>();
+  const previewIframeRef = useRef<HTMLIFrameElement>();
+  const previewLoadedRef = useRef(false);
+  const requestCountRef = useRef(0);
+  const { episodes, seasons, categories } = parseEmbedBuilderOptions(rssData);
+  const hasPlaylist = !!config.showPlaylist;
+  const embedHeight = getEmbedHeight(config);
+  const embedStyles = generateEmbedStyles(config);
+
+  function updateConfig<K extends keyof IEmbedConfig>(
+    key: K,
+    value: IEmbedConfig[K]
+  ) {
+    setConfig((prevConfig) => {
+      const newConfig = { ...prevConfig };
+
+      // Leave out empty values so they don't show up in embed URL's.
+      if (
+        typeof value === 'undefined' ||
+        value === null ||
+        value === '' ||
+        value === false ||
+        (typeof value === 'number' && Number.isNaN(value))
+      ) {
+        delete newConfig[key];
+      } else {
+        newConfig[key] = value;
+      }
+
+      return newConfig;
+    });
+  }
+
+  const handleTextChange =
+    (key: keyof IEmbedConfig) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      updateConfig(key, e.target.value.trim() || undefined);
+    };
+
+  const handleCheckboxChange =
+    (key: keyof IEmbedConfig) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      updateConfig(key, e.target.checked);
+    };
+
+  const handleNumberChange =
+    (key: keyof IEmbedConfig) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      updateConfig(
+        key,
+        e.target.value === '' ? undefined : Number(e.target.value)
+      );
+    };
+
+  const handleShowAllChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updateConfig('showPlaylist', e.target.checked ? 'all' : 5);
+  };
+
+  async function handleFeedSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+
+    const feedUrl = feedUrlInput.trim();
+
+    setFeedError(null);
+
+    if (!feedUrl) {
+      setRssData(null);
+      updateConfig('feedUrl', undefined);
+      updateConfig('episodeGuid', undefined);
+      return;
+    }
+
+    setFeedLoading(true);
+
+    try {
+      const response = await fetch(
+        `/api/proxy/rss?u=${encodeURIComponent(feedUrl)}`
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Bad Feed URL Provided');
+      }
+
+      const newConfig = { ...config, feedUrl };
+
+      // Episodes from the previous feed won't be in this one.
+      delete newConfig.episodeGuid;
+
+      setRssData(result);
+      setConfig(newConfig);
+      // Reload preview so it renders the new feed.
+      previewLoadedRef.current = false;
+      setPreviewUrl(generatePreviewUrl(newConfig, origin));
+    } catch (error) {
+      setFeedError(error.message);
+    }
+
+    setFeedLoading(false);
+  }
+
+  function postPreviewRequest(request: PreviewRequest) {
+    const message: PreviewMessage<PreviewRequest> = {
+      namespace: PREVIEW_MESSAGE_NAMESPACE,
+      version: PREVIEW_MESSAGE_VERSION,
+      ...request
+    };
+
+    previewIframeRef.current?.contentWindow?.postMessage(
+      message,
+      window.location.origin
+    );
+  }
+
+  function sendConfigToPreview() {
+    // Unset every property left out of the config, so the preview matches
+    // the form no matter what config it was loaded with.
+    const unsetConfig = Object.keys(EmbedConfigValidators).reduce(
+      (a, key) => ({ ...a, [key]: null }),
+      {} as IEmbedConfig
+    );
+
+    requestCountRef.current += 1;
+
+    postPreviewRequest({
+      type: 'updateConfig',
+      id: `${requestCountRef.current}`,
+      config: { ...unsetConfig, ...config }
+    });
+  }
+
+  function handlePreviewLoad() {
+    previewLoadedRef.current = true;
+    sendConfigToPreview();
+  }
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+    setPreviewUrl(generatePreviewUrl(initialConfig, window.location.origin));
+
+    const handleMessage = (e: MessageEvent) => {
+      if (e.origin !== window.location.origin) return;
+      if (e.source !== previewIframeRef.current?.contentWindow) return;
+
+      const message = e.data as PreviewMessage<PreviewResponse>;
+
+      if (message?.namespace !== PREVIEW_MESSAGE_NAMESPACE) return;
+
+      switch (message.type) {
+        case 'error':
+          setPreviewErrors(message.errors);
+          break;
+
+        case 'embed':
+          setPreviewErrors(null);
+          break;
+
+        default:
+          break;
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+
+    return () => {
+      window.removeEventListener('message', handleMessage);
+    };
+  }, [initialConfig]);
+
+  useEffect(() => {
+    if (!previewLoadedRef.current) return;
+
+    sendConfigToPreview();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [config]);
+
+  useEffect(() => {
+    // Style preview the same way the generated embed code will be.
+    if (previewWrapperRef.current) {
+      previewWrapperRef.current.style.cssText = embedStyles.wrapper;
+    }
+    if (previewIframeRef.current) {
+      previewIframeRef.current.style.cssText = embedStyles.iframe;
+    }
+  }, [embedStyles.wrapper, embedStyles.iframe, previewUrl]);
+
+  const embedUrl = origin && generateEmbedUrl(config, origin);
+  const embedHtml =
+    origin &&
+    generateEmbedHtml(config, {
+      origin,
+      autoResize: htmlFormat === 'autoResize',
+      element: htmlFormat === 'element'
+    });
+  const embedCss = `.prx-play-wrapper {\n  ${
+    embedStyles.wrapper || '/* No wrapper styles needed. */'
+  }\n}\n\n.prx-play-wrapper iframe {\n  ${embedStyles.iframe}\n  height: ${
+    config.showCoverArt ? '100%' : `${embedHeight}px`
+  };\n}`;
+
+  return (
+    <div className={styles.root}>
+      <div className={styles.form}>
+        <form onSubmit={handleFeedSubmit}>
+          <fieldset>
+            <legend>RSS Feed</legend>
+            <div className={styles.inputGroup}>
+              <label htmlFor="feedUrl" className={styles.field}>
+                Feed URL
+                <input
+                  id="feedUrl"
+                  type="url"
+                  placeholder="https://example.com/rss/feed.xml"
+                  value={feedUrlInput}
+                  onChange={(e) => setFeedUrlInput(e.target.value)}
+                />
+              </label>
+              <button type="submit" disabled={feedLoading}>
+                {feedLoading ? 'Loading...' : 'Load'}
+              </button>
+            </div>
+            {feedError && <p className={styles.error}>{feedError}</p>}
+
+            <label htmlFor="episodeGuid" className={styles.field}>
+              Episode
+              <select
+                id="episodeGuid"
+                disabled={!episodes.length}
+                value={config.episodeGuid || ''}
+                onChange={(e) =>
+                  updateConfig('episodeGuid', e.target.value || undefined)
+                }
+              >
+                <option value="">Latest Episode</option>
+                {episodes.map(({ guid, title }) => (
+                  <option value={guid} key={guid}>
+                    {title}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </fieldset>
+        </form>
+
+        <form onSubmit={(e) => e.preventDefault()}>
+          <fieldset>
+            <legend>Playlist</legend>
+            <label htmlFor="showPlaylist" className={styles.field}>
+              Number of Episodes
+              <input
+                id="showPlaylist"
+                type="number"
+                min={0}
+                placeholder="No playlist"
+                disabled={config.showPlaylist === 'all'}
+                value={
+                  typeof config.showPlaylist === 'number'
+                    ? config.showPlaylist
+                    : ''
+                }
+                onChange={handleNumberChange('showPlaylist')}
+              />
+            </label>
+            <label className={styles.checkbox} htmlFor="showAllEpisodes">
+              <input
+                id="showAllEpisodes"
+                type="checkbox"
+                checked={config.showPlaylist === 'all'}
+                onChange={handleShowAllChange}
+              />
+              Show All Episodes
+            </label>
+
+            <label htmlFor="playlistSeason" className={styles.field}>
+              Season
+              <select
+                id="playlistSeason"
+                disabled={!hasPlaylist || !seasons.length}
+                value={config.playlistSeason || ''}
+                onChange={handleNumberChange('playlistSeason')}
+              >
+                <option value="">All Seasons</option>
+                {seasons.map((season) => (
+                  <option value={season} key={season}>
+                    Season {season}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label htmlFor="playlistCategory" className={styles.field}>
+              Category
+              <select
+                id="playlistCategory"
+                disabled={!hasPlaylist || !categories.length}
+                value={config.playlistCategory || ''}
+                onChange={(e) =>
+                  updateConfig('playlistCategory', e.target.value || undefined)
+                }
+              >
+                <option value="">All Categories</option>
+                {categories.map((category) => (
+                  <option value={category} key={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </fieldset>
+
+          <fieldset>
+            <legend>Audio File</legend>
+            <p className={styles.hint}>
+              Play a single audio file instead of a feed episode, or override
+              details of the feed episode.
+            </p>
+            <label htmlFor="audioUrl" className={styles.field}>
+              Audio URL
+              <input
+                id="audioUrl"
+                type="url"
+                defaultValue={config.audioUrl}
+                onChange={handleTextChange('audioUrl')}
+              />
+            </label>
+            <label htmlFor="audioUrlPreview" className={styles.field}>
+              Preview Audio URL
+              <input
+                id="audioUrlPreview"
+                type="url"
+                defaultValue={config.audioUrlPreview}
+                onChange={handleTextChange('audioUrlPreview')}
+              />
+            </label>
+            <label htmlFor="title" className={styles.field}>
+              Title
+              <input
+                id="title"
+                type="text"
+                defaultValue={config.title}
+                onChange={handleTextChange('title')}
+              />
+            </label>
+            <label htmlFor="subtitle" className={styles.field}>
+              Subtitle
+              <input
+                id="subtitle"
+                type="text"
+                defaultValue={config.subtitle}
+                onChange={handleTextChange('subtitle')}
+              />
+            </label>
+            <label htmlFor="imageUrl" className={styles.field}>
+              Background Image URL
+              <input
+                id="imageUrl"
+                type="url"
+                defaultValue={config.imageUrl}
+                onChange={handleTextChange('imageUrl')}
+              />
+            </label>
+            <label htmlFor="episodeImageUrl" className={styles.field}>
+              Episode Image URL
+              <input
+                id="episodeImageUrl"
+                type="url"
+                defaultValue={config.episodeImageUrl}
+                onChange={handleTextChange('episodeImageUrl')}
+              />
+            </label>
+            <label htmlFor="subscribeUrl" className={styles.field}>
+              Subscribe URL
+              <input
+                id="subscribeUrl"
+                type="url"
+                defaultValue={config.subscribeUrl}
+                onChange={handleTextChange('subscribeUrl')}
+              />
+            </label>
+            <label htmlFor="subscribeTarget" className={styles.field}>
+              Subscribe Link Target
+              <input
+                id="subscribeTarget"
+                type="text"
+                placeholder="_blank"
+                defaultValue={config.subscribeTarget}
+                onChange={handleTextChange('subscribeTarget')}
+              />
+            </label>
+          </fieldset>
+
+          <fieldset>
+            <legend>Appearance</legend>
+            <label className={styles.checkbox} htmlFor="showCoverArt">
+              <input
+                id="showCoverArt"
+                type="checkbox"
+                checked={!!config.showCoverArt}
+                onChange={handleCheckboxChange('showCoverArt')}
+              />
+              Show Cover Art
+            </label>
+
+            <label htmlFor="theme" className={styles.field}>
+              Theme
+              <select
+                id="theme"
+                value={config.theme || ''}
+                onChange={(e) =>
+                  updateConfig(
+                    'theme',
+                    (e.target.value || undefined) as IEmbedConfig['theme']
+                  )
+                }
+              >
+                <option value="">Dark (Default)</option>
+                <option value="light">Light</option>
+                <option value="auto">Match Visitor Preference</option>
+              </select>
+            </label>
+
+            <span className={styles.label}>Accent Color</span>
+            <AccentColorEditor
+              value={config.accentColor}
+              onChange={(value) => updateConfig('accentColor', value)}
+            />
+
+            <label htmlFor="maxWidth" className={styles.field}>
+              Max Width (px)
+              <input
+                id="maxWidth"
+                type="number"
+                min={300}
+                placeholder="None"
+                value={config.maxWidth || ''}
+                onChange={handleNumberChange('maxWidth')}
+              />
+            </label>
+          </fieldset>
+
+          <fieldset>
+            <legend>Playback</legend>
+            <label htmlFor="clipStart" className={styles.field}>
+              Clip Start (seconds)
+              <input
+                id="clipStart"
+                type="number"
+                min={0}
+                value={config.clipStart ?? ''}
+                onChange={handleNumberChange('clipStart')}
+              />
+            </label>
+            <label htmlFor="clipEnd" className={styles.field}>
+              Clip End (seconds)
+              <input
+                id="clipEnd"
+                type="number"
+                min={0}
+                value={config.clipEnd ?? ''}
+                onChange={handleNumberChange('clipEnd')}
+              />
+            </label>
+            <label className={styles.checkbox} htmlFor="startOnSoundbite">
+              <input
+                id="startOnSoundbite"
+                type="checkbox"
+                checked={!!config.startOnSoundbite}
+                onChange={handleCheckboxChange('startOnSoundbite')}
+              />
+              Play First Soundbite
+            </label>
+
+            <label htmlFor="skipBack" className={styles.field}>
+              Skip Back
+              <select
+                id="skipBack"
+                value={config.skipBack || ''}
+                onChange={handleNumberChange('skipBack')}
+              >
+                <option value="">Default (5 seconds)</option>
+                {SKIP_INTERVAL_OPTIONS.map((seconds) => (
+                  <option value={seconds} key={seconds}>
+                    {seconds} seconds
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label htmlFor="skipForward" className={styles.field}>
+              Skip Forward
+              <select
+                id="skipForward"
+                value={config.skipForward || ''}
+                onChange={handleNumberChange('skipForward')}
+              >
+                <option value="">Default (30 seconds)</option>
+                {SKIP_INTERVAL_OPTIONS.map((seconds) => (
+                  <option value={seconds} key={seconds}>
+                    {seconds} seconds
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label htmlFor="repeatMode" className={styles.field}>
+              Repeat
+              <select
+                id="repeatMode"
+                value={config.repeatMode || ''}
+                onChange={(e) =>
+                  updateConfig(
+                    'repeatMode',
+                    (e.target.value || undefined) as IEmbedConfig['repeatMode']
+                  )
+                }
+              >
+                <option value="">Off</option>
+                <option value="one">Repeat Episode</option>
+                <option value="all">Repeat Playlist</option>
+              </select>
+            </label>
+            <label className={styles.checkbox} htmlFor="shuffle">
+              <input
+                id="shuffle"
+                type="checkbox"
+                checked={!!config.shuffle}
+                onChange={handleCheckboxChange('shuffle')}
+              />
+              Shuffle Playlist
+            </label>
+
+            <label htmlFor="crossfade" className={styles.field}>
+              Crossfade (seconds)
+              <input
+                id="crossfade"
+                type="number"
+                min={0}
+                max={12}
+                placeholder="Off"
+                value={config.crossfade || ''}
+                onChange={handleNumberChange('crossfade')}
+              />
+            </label>
+
+            <label htmlFor="hotkeys" className={styles.field}>
+              Keyboard Shortcuts
+              <select
+                id="hotkeys"
+                value={config.hotkeys || ''}
+                onChange={(e) =>
+                  updateConfig(
+                    'hotkeys',
+                    (e.target.value || undefined) as IEmbedConfig['hotkeys']
+                  )
+                }
+              >
+                <option value="">On</option>
+                <option value="focus">Only When Player Has Focus</option>
+                <option value="off">Off</option>
+              </select>
+            </label>
+
+            <label className={styles.checkbox} htmlFor="disablePersistence">
+              <input
+                id="disablePersistence"
+                type="checkbox"
+                checked={!!config.disablePersistence}
+                onChange={handleCheckboxChange('disablePersistence')}
+              />
+              Don&apos;t Remember Listener Preferences
+            </label>
+            <label className={styles.checkbox} htmlFor="continueToNextEmbed">
+              <input
+                id="continueToNextEmbed"
+                type="checkbox"
+                checked={!!config.continueToNextEmbed}
+                onChange={handleCheckboxChange('continueToNextEmbed')}
+              />
+              Continue to Next Embed on Page
+            </label>
+          </fieldset>
+
+          <fieldset>
+            <legend>Analytics</legend>
+            <label htmlFor="analyticsUrl" className={styles.field}>
+              Analytics Collector URL
+              <input
+                id="analyticsUrl"
+                type="text"
+                defaultValue={config.analyticsUrl}
+                onChange={handleTextChange('analyticsUrl')}
+              />
+            </label>
+          </fieldset>
+        </form>
+      </div>
+
+      <div className={styles.output}>
+        <h2>Preview</h2>
+        {previewErrors?.length > 0 && (
+          <ul className={styles.error}>
+            {previewErrors.map(({ key, message }) => (
+              <li key={key}>
+                <code>{key}</code>: {message}
+              </li>
+            ))}
+          </ul>
+        )}
+        {previewUrl && (
+          <div ref={previewWrapperRef}>
+            <iframe
+              ref={previewIframeRef}
+              key={previewUrl}
+              src={previewUrl}
+              title="Embed Preview"
+              allow="monetization"
+              frameBorder="0"
+              height={config.showCoverArt ? '100%' : embedHeight}
+              scrolling="no"
+              width="100%"
+              onLoad={handlePreviewLoad}
+            />
+          </div>
+        )}
+
+        {origin && (
+          <>
+            <h2>Embed Code</h2>
+            <EmbedBuilderOutput label="Embed HTML" value={embedHtml}>
+              <select
+                aria-label="Embed HTML Format"
+                value={htmlFormat}
+                onChange={(e) =>
+                  setHtmlFormat(e.target.value as EmbedHtmlFormat)
+                }
+              >
+                <option value="iframe">Iframe</option>
+                <option value="autoResize">Auto-Resizing Iframe</option>
+                <option value="element">Custom Element</option>
+              </select>
+            </EmbedBuilderOutput>
+            <EmbedBuilderOutput label="Embed URL" value={embedUrl} />
+            <EmbedBuilderOutput label="Embed Styles" value={embedCss} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmbedBuilder;
@@ -0,0 +1,64 @@
+/**
+ * @file EmbedBuilderOutput.tsx
+ * Generated embed code with a button to copy it to the clipboard.
+ */
+
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import copy from 'copy-to-clipboard';
+import styles from './EmbedBuilderOutput.module.scss';
+
+export interface IEmbedBuilderOutputProps {
+  label: string;
+  value: string;
+  children?: React.ReactNode;
+}
+
+const EmbedBuilderOutput: React.FC<IEmbedBuilderOutputProps> = ({
+  label,
+  value,
+  children
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopyClick = () => {
+    setCopied(copy(value));
+  };
+
+  useEffect(() => {
+    if (!copied) return undefined;
+
+    const timeout = setTimeout(() => {
+      setCopied(false);
+    }, 3000);
+
+    return () => {
+      clearTimeout(timeout);
+    };
+  }, [copied]);
+
+  useEffect(() => {
+    setCopied(false);
+  }, [value]);
+
+  return (
+    <div className={styles.root}>
+      <div className={styles.header}>
+        <h3 className={styles.label}>{label}</h3>
+        {children}
+        <button
+          type="button"
+          className={styles.copyButton}
+          onClick={handleCopyClick}
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className={styles.value}>
+        <code>{value}</code>
+      </pre>
+    </div>
+  );
+};
+
+export default EmbedBuilderOutput;
@@ -0,0 +1,3 @@
+import EmbedBuilderOutput from './EmbedBuilderOutput';
+
+export default EmbedBuilderOutput;
@@ -0,0 +1,3 @@
+import EmbedBuilder from './EmbedBuilder';
+
+export default EmbedBuilder;
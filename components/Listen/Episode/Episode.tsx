@@ -14,13 +14,16 @@ import { filesize } from 'filesize';
 import Link from 'next/link';
 import HtmlContent from '@components/HtmlContent';
 import IconButton from '@components/IconButton';
+import EpisodeQueueButtons from '@components/Listen/EpisodeQueueButtons';
 import listenStyles from '@components/Listen/Listen.module.scss';
 import Marquee from '@components/Marquee';
+import PersonAvatar from '@components/PersonAvatar';
 import PrxImage from '@components/PrxImage';
 import ShareMenu from '@components/ShareMenu';
 import ThemeVars from '@components/ThemeVars';
 import PlayerContext from '@contexts/PlayerContext';
 import convertDurationStringToIntegerArray from '@lib/convert/string/convertDurationStringToIntegerArray';
+import convertSecondsToDuration from '@lib/convert/string/convertSecondsToDuration';
 import fetchAudioTranscriptData from '@lib/fetch/transcript/fetchAudioTranscriptData';
 import formatDurationParts from '@lib/format/time/formatDurationParts';
 import sumDurationParts from '@lib/math/time/sumDurationParts';
@@ -46,6 +49,7 @@ const Episode = ({ data, onClose }: IEpisodeProps) => {
     imageUrl: defaultThumbUrl,
     state,
     playTrack,
+    playHighlight,
     pause
   } = useContext(PlayerContext);
   const { tracks, currentTrackIndex, playing } = state;
@@ -60,7 +64,9 @@ const Episode = ({ data, onClose }: IEpisodeProps) => {
     pubDate,
     content,
     link,
-    transcripts
+    transcripts,
+    people,
+    soundbites
   } = data || {};
   const index = useMemo(
     () => tracks.findIndex((track) => track.guid === guid),
@@ -70,6 +76,8 @@ const Episode = ({ data, onClose }: IEpisodeProps) => {
     SpeakerSegmentsBlock[] | null | false
   >(null);
   const isCurrentTrack = index === currentTrackIndex;
+  const highlightStart =
+    isCurrentTrack && tracks[index]?.highlight ? tracks[index].clipStart : null;
   const hasTranscripts = !!transcripts?.length;
   const transcriptLoading = hasTranscripts && transcript === null;
   const showTranscript = hasTranscripts && transcript !== false;
@@ -97,6 +105,18 @@ const Episode = ({ data, onClose }: IEpisodeProps) => {
     playTrack(index);
   }, [index, playTrack]);
 
+  const handleHighlightClick = (
+    startTime: number,
+    soundbiteDuration: number
+  ) => {
+    if (playing && highlightStart === startTime) {
+      pause();
+      return;
+    }
+
+    playHighlight(index, startTime, startTime + soundbiteDuration);
+  };
+
   const handlePauseButtonClick = useCallback(() => {
     pause();
   }, [pause]);
@@ -183,6 +203,8 @@ const Episode = ({ data, onClose }: IEpisodeProps) => {
               </span>
             </div>
             <div className={styles.menu}>
+              <EpisodeQueueButtons guid={guid} />
+
               <IconButton href={url} title={downloadTitle} download>
                 <DownloadIcon aria-hidden />
               </IconButton>
@@ -220,6 +242,92 @@ const Episode = ({ data, onClose }: IEpisodeProps) => {
           <div className={styles.content}>
             <div id="description" className={styles.description}>
               <HtmlContent html={content} />
+              {!!soundbites?.length && (
+                <section className={styles.highlights}>
+                  <h3 className={styles.sectionHeading}>Highlights</h3>
+                  <ul className={styles.highlightsList}>
+                    {soundbites.map(
+                      (
+                        {
+                          startTime,
+                          duration: soundbiteDuration,
+                          title: soundbiteTitle
+                        },
+                        soundbiteIndex
+                      ) => {
+                        const isPlaying =
+                          playing && highlightStart === startTime;
+                        const highlightTitle =
+                          soundbiteTitle || `Highlight ${soundbiteIndex + 1}`;
+
+                        return (
+                          <li key={`${startTime}:${soundbiteDuration}`}>
+                            <button
+                              type="button"
+                              className={styles.highlight}
+                              onClick={() =>
+                                handleHighlightClick(
+                                  startTime,
+                                  soundbiteDuration
+                                )
+                              }
+                              aria-label={`${
+                                isPlaying ? 'Pause' : 'Play'
+                              } Highlight: ${highlightTitle}`}
+                            >
+                              {isPlaying ? (
+                                <PauseCircleIcon aria-hidden />
+                              ) : (
+                                <PlayCircleIcon aria-hidden />
+                              )}
+                              <span className={styles.highlightTitle}>
+                                {highlightTitle}
+                              </span>
+                              <span className={styles.highlightTime}>
+                                {convertSecondsToDuration(startTime)} &middot;{' '}
+                                {convertSecondsToDuration(soundbiteDuration)}
+                              </span>
+                            </button>
+                          </li>
+                        );
+                      }
+                    )}
+                  </ul>
+                </section>
+              )}
+              {!!people?.length && (
+                <section className={styles.people}>
+                  <h3 className={styles.sectionHeading}>
+                    People in this episode
+                  </h3>
+                  <ul className={styles.peopleList}>
+                    {people.map((person) => (
+                      <li
+                        className={styles.person}
+                        key={`${person.name}:${person.role}`}
+                      >
+                        <PersonAvatar person={person} size={40} />
+                        <span className={styles.personInfo}>
+                          {person.href ? (
+                            <a
+                              href={person.href}
+                              target="_blank"
+                              rel="noreferrer"
+                            >
+                              {person.name}
+                            </a>
+                          ) : (
+                            person.name
+                          )}
+                          <span className={styles.personRole}>
+                            {person.role}
+                          </span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
             </div>
 
             {showTranscript && (
@@ -7,6 +7,7 @@ import type React from 'react';
 import type {
   IAudioData,
   IListenEpisodeData,
+  IPersonData,
   IRssPodcastTranscriptJsonSegment,
   SpeakerSegmentsBlock
 } from '@interfaces/data';
@@ -23,10 +24,12 @@ import {
 } from 'react';
 import clsx from 'clsx';
 import IconButton from '@components/IconButton';
+import PersonAvatar from '@components/PersonAvatar';
 import PlayerContext from '@contexts/PlayerContext';
 import Skeleton from '@components/Skeleton';
 import ThemeVars from '@components/ThemeVars';
 import convertSecondsToDuration from '@lib/convert/string/convertSecondsToDuration';
+import getSpeakerPerson from '@lib/parse/data/getSpeakerPerson';
 import getScrollParent from '@lib/parse/dom/getScrollParent';
 import PlayCircleIcon from '@svg/icons/PlayCircle.svg';
 import VerticalAlignCenterIcon from '@svg/icons/VerticalAlignCenter.svg';
@@ -39,7 +42,9 @@ export interface IEpisodeTranscriptProps {
   loading?: boolean;
 }
 
-type SpeakerBlockProps = SpeakerSegmentsBlock;
+type SpeakerBlockProps = SpeakerSegmentsBlock & {
+  person?: IPersonData;
+};
 
 type SegmentProps = {
   data: IRssPodcastTranscriptJsonSegment;
@@ -128,7 +133,7 @@ const Segment = forwardRef<HTMLSpanElement, SegmentProps>(
   }
 );
 
-const SpeakerBlock = ({ segments, speaker }: SpeakerBlockProps) => {
+const SpeakerBlock = ({ segments, speaker, person }: SpeakerBlockProps) => {
   const { setScrollTarget, scrollToCurrentBlock } =
     useContext(TranscriptContext);
   const firstSegment = segments.at(0);
@@ -191,7 +196,10 @@ const SpeakerBlock = ({ segments, speaker }: SpeakerBlockProps) => {
     <div {...rootProps}>
       <h3 className={styles.speakerHeading}>
         {speaker && (
-          <span className={styles.speakerHeadingSpeaker}>{speaker}</span>
+          <span className={styles.speakerHeadingSpeaker}>
+            <PersonAvatar person={person} />
+            {speaker}
+          </span>
         )}
         <span className={styles.speakerHeadingTime}>
           {convertSecondsToDuration(startTime)}
@@ -341,6 +349,7 @@ const EpisodeTranscript = ({
           const firstSegment = blockSegments.at(0);
           const { startTime } = firstSegment;
           const key = `${speaker}:${startTime}:${index}`;
+          const person = getSpeakerPerson(speaker, episode.people);
 
           if (!isCurrentTrack) {
             const bodyCompiled = blockSegments.reduce(
@@ -351,6 +360,7 @@ const EpisodeTranscript = ({
               <div className={styles.speakerBlock} key={key}>
                 <h3 className={styles.speakerHeading}>
                   <span className={styles.speakerHeadingSpeaker}>
+                    <PersonAvatar person={person} />
                     {speaker}
                   </span>
                   <span className={styles.speakerHeadingTime}>
@@ -363,7 +373,9 @@ const EpisodeTranscript = ({
           }
 
           if (isCurrentTrack) {
-            return <SpeakerBlock {...speakerBlockProps} key={key} />;
+            return (
+              <SpeakerBlock {...speakerBlockProps} person={person} key={key} />
+            );
           }
 
           return null;
@@ -8,9 +8,11 @@ import { CSSProperties, useCallback, useContext, useMemo } from 'react';
 import clsx from 'clsx';
 import { filesize } from 'filesize';
 import IconButton from '@components/IconButton';
+import EpisodeQueueButtons from '@components/Listen/EpisodeQueueButtons';
 import PrxImage from '@components/PrxImage';
 import PlayerContext from '@contexts/PlayerContext';
 import convertDurationStringToIntegerArray from '@lib/convert/string/convertDurationStringToIntegerArray';
+import convertSecondsToDuration from '@lib/convert/string/convertSecondsToDuration';
 import sumDurationParts from '@lib/math/time/sumDurationParts';
 import formatDurationParts from '@lib/format/time/formatDurationParts';
 import DownloadIcon from '@svg/icons/FileDownload.svg';
@@ -35,7 +37,7 @@ const EpisodeCard = ({ index, episode, onEpisodeClick }: IEpisodeCardProps) => {
     playTrack,
     pause
   } = useContext(PlayerContext);
-  const { currentTrackIndex, playing } = state;
+  const { currentTrackIndex, playing, playbackPositions } = state;
   const isCurrentTrack = index === currentTrackIndex;
   const {
     guid,
@@ -66,6 +68,18 @@ const EpisodeCard = ({ index, episode, onEpisodeClick }: IEpisodeCardProps) => {
   const episodesDurationSums = sumDurationParts([episodesDurationsInt]);
   const episodesDurationString = formatDurationParts(episodesDurationSums);
   const downloadLabel = filesize(fileSize);
+  const playbackPosition = playbackPositions?.[guid];
+  const isPlayed = !!playbackPosition?.finished;
+  const playedRatio =
+    (!isPlayed &&
+      playbackPosition?.duration &&
+      playbackPosition.currentTime / playbackPosition.duration) ||
+    0;
+  const remainingDuration =
+    playedRatio &&
+    convertSecondsToDuration(
+      Math.round(playbackPosition.duration - playbackPosition.currentTime)
+    );
 
   const handlePlayButtonClick = useCallback(() => {
     playTrack(index);
@@ -84,7 +98,8 @@ const EpisodeCard = ({ index, episode, onEpisodeClick }: IEpisodeCardProps) => {
       {/* <ThemeVars theme="EpisodeCard" cssProps={styles} /> */}
       <div
         className={clsx(styles.root, {
-          [styles.isCurrentTrack]: isCurrentTrack
+          [styles.isCurrentTrack]: isCurrentTrack,
+          [styles.isPlayed]: isPlayed
         })}
         style={
           {
@@ -172,6 +187,12 @@ const EpisodeCard = ({ index, episode, onEpisodeClick }: IEpisodeCardProps) => {
                 <span className={styles.duration}>
                   {episodesDurationString}
                 </span>
+                {isPlayed && <span className={styles.played}>Played</span>}
+                {!!playedRatio && (
+                  <span className={styles.remaining}>
+                    {remainingDuration} left
+                  </span>
+                )}
                 <span className={styles.download}>
                   <a
                     className={styles.downloadLink}
@@ -185,7 +206,17 @@ const EpisodeCard = ({ index, episode, onEpisodeClick }: IEpisodeCardProps) => {
                 </span>
               </div>
             </span>
+
+            <EpisodeQueueButtons guid={guid} className={styles.queue} />
           </div>
+
+          {!!playedRatio && (
+            <span
+              className={styles.playedProgress}
+              style={{ '--played': playedRatio } as CSSProperties}
+              aria-hidden="true"
+            />
+          )}
         </div>
       </div>
     </>
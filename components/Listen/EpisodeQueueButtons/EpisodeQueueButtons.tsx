@@ -0,0 +1,66 @@
+/**
+ * @file EpisodeQueueButtons.tsx
+ * Buttons to add an episode to the player's up next queue.
+ */
+
+import { useContext } from 'react';
+import clsx from 'clsx';
+import IconButton from '@components/IconButton';
+import PlayerContext from '@contexts/PlayerContext';
+import PlaylistAddIcon from '@svg/icons/PlaylistAdd.svg';
+import PlaylistAddCheckIcon from '@svg/icons/PlaylistAddCheck.svg';
+import PlaylistPlayIcon from '@svg/icons/PlaylistPlay.svg';
+import styles from './EpisodeQueueButtons.module.scss';
+
+export interface IEpisodeQueueButtonsProps {
+  guid: string;
+  className?: string;
+}
+
+const EpisodeQueueButtons = ({
+  guid,
+  className
+}: IEpisodeQueueButtonsProps) => {
+  const { state, queueTrack, queueTrackNext, dequeueTrack } =
+    useContext(PlayerContext);
+  const { tracks, currentTrackIndex, queue } = state;
+  const isCurrentTrack = tracks[currentTrackIndex]?.guid === guid;
+  const queueIndex = (queue || []).indexOf(guid);
+  const isQueued = queueIndex > -1;
+
+  const handlePlayNextClick = () => {
+    queueTrackNext(guid);
+  };
+
+  const handleQueueClick = () => {
+    if (isQueued) {
+      dequeueTrack(guid);
+    } else {
+      queueTrack(guid);
+    }
+  };
+
+  if (isCurrentTrack) return null;
+
+  return (
+    <span className={clsx(styles.root, className)}>
+      <IconButton
+        onClick={handlePlayNextClick}
+        title="Play Next"
+        disabled={queueIndex === 0}
+      >
+        <PlaylistPlayIcon />
+      </IconButton>
+      <IconButton
+        className={clsx({ [styles.isQueued]: isQueued })}
+        onClick={handleQueueClick}
+        title={isQueued ? 'Remove From Queue' : 'Add To Queue'}
+        aria-pressed={isQueued}
+      >
+        {isQueued ? <PlaylistAddCheckIcon /> : <PlaylistAddIcon />}
+      </IconButton>
+    </span>
+  );
+};
+
+export default EpisodeQueueButtons;
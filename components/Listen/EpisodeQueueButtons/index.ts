@@ -0,0 +1,3 @@
+import EpisodeQueueButtons from './EpisodeQueueButtons';
+
+export default EpisodeQueueButtons;
@@ -6,6 +6,7 @@
 import { forwardRef, useContext } from 'react';
 import * as Popover from '@radix-ui/react-popover';
 import clsx from 'clsx';
+import IconButton from '@components/IconButton';
 import PrxImage from '@components/PrxImage';
 import ThemeVars from '@components/ThemeVars';
 import ListenContext from '@contexts/ListenContext';
@@ -13,18 +14,30 @@ import PlayerContext from '@contexts/PlayerContext';
 import Marquee from '@components/Marquee';
 import ClosedCaptionsDialog from '@components/Player/ClosedCaptionsDialog';
 import ClosedCaptionsFeed from '@components/Player/ClosedCaptionsFeed';
+import AudioEnhancementControls from '@components/Player/AudioEnhancementControls';
 import PreviousButton from '@components/Player/PreviousButton';
 import NextButton from '@components/Player/NextButton';
+import RepeatButton from '@components/Player/RepeatButton';
 import ReplayButton from '@components/Player/ReplayButton';
 import PlayButton from '@components/Player/PlayButton';
 import ForwardButton from '@components/Player/ForwardButton';
 import PlaybackRateControls from '@components/Player/PlaybackSpeedControls';
+import PlayerChapter from '@components/Player/PlayerChapter';
+import PlayerError from '@components/Player/PlayerError';
 import PlayerProgress from '@components/Player/PlayerProgress';
+import PlayerResume from '@components/Player/PlayerResume';
 import SettingsMenuButton from '@components/Player/SettingsMenuButton';
+import ShuffleButton from '@components/Player/ShuffleButton';
+import SleepTimerControls from '@components/Player/SleepTimerControls';
+import SleepTimerCountdown from '@components/Player/SleepTimerCountdown';
 import VolumeControls from '@components/Player/VolumeControls';
 import listenStyles from '@components/Listen/Listen.module.scss';
 import { ListenActionTypes } from '@states/listen/Listen.actions';
 import PlaybackSpeedIcon from '@svg/icons/PlaybackSpeed.svg';
+import BedtimeIcon from '@svg/icons/Bedtime.svg';
+import GraphicEqIcon from '@svg/icons/GraphicEq.svg';
+import QueueMusicIcon from '@svg/icons/QueueMusic.svg';
+import QueueList from './QueueList';
 import styles from './FooterPlayer.module.scss';
 
 export interface IFooterPlayerProps {}
@@ -40,11 +53,12 @@ const FooterPlayer = forwardRef<HTMLDivElement, IFooterPlayerProps>(
     const { accentColor } = config;
     const { imageUrl: defaultThumbUrl, state: playerState } =
       useContext(PlayerContext);
-    const { currentTrackIndex, tracks } = playerState;
+    const { currentTrackIndex, tracks, queue } = playerState;
     const isShown = currentTrackIndex !== null && currentTrackIndex >= 0;
     const currentTrack = tracks[currentTrackIndex];
     const { imageUrl, title, transcripts } = currentTrack || {};
     const showClosedCaptionsButton = !!transcripts?.length;
+    const hasQueue = !!queue?.length;
     const thumbSrc = imageUrl || defaultThumbUrl;
     const thumbSizes = [
       `(min-width: ${listenStyles.breakpointFull}) ${styles['--footerPlayer-thumbnail-size']}`,
@@ -86,14 +100,19 @@ const FooterPlayer = forwardRef<HTMLDivElement, IFooterPlayerProps>(
             <div className={styles.title}>
               <Marquee>{title}</Marquee>
             </div>
+            <PlayerResume className={styles.resume} />
+            <PlayerChapter className={styles.chapter} />
           </div>
 
           <div className={styles.controls}>
+            {tracks.length > 1 && <ShuffleButton className={styles.order} />}
             {tracks.length > 1 && <PreviousButton />}
             <ReplayButton />
             <PlayButton />
+            <SleepTimerCountdown className={styles.sleepTimer} />
             <ForwardButton />
             {tracks.length > 1 && <NextButton />}
+            {tracks.length > 1 && <RepeatButton className={styles.order} />}
           </div>
 
           <div className={styles.progress}>
@@ -118,6 +137,30 @@ const FooterPlayer = forwardRef<HTMLDivElement, IFooterPlayerProps>(
               </ClosedCaptionsDialog>
             )}
 
+            {tracks.length > 1 && (
+              <Popover.Root>
+                <Popover.Trigger asChild>
+                  <IconButton
+                    className={clsx(styles.queueButton, {
+                      [styles.hasQueue]: hasQueue
+                    })}
+                    title="Up Next"
+                  >
+                    <QueueMusicIcon />
+                  </IconButton>
+                </Popover.Trigger>
+                <Popover.Content
+                  side="top"
+                  sideOffset={8}
+                  align="end"
+                  alignOffset={0}
+                  title="Up Next"
+                >
+                  <QueueList />
+                </Popover.Content>
+              </Popover.Root>
+            )}
+
             <Popover.Trigger asChild>
               <SettingsMenuButton />
             </Popover.Trigger>
@@ -143,9 +186,29 @@ const FooterPlayer = forwardRef<HTMLDivElement, IFooterPlayerProps>(
                     <PlaybackRateControls />
                   </span>
                 </div>
+                <div className={styles.setting}>
+                  <span className={styles.settingLabel}>
+                    <BedtimeIcon />
+                    <span>Sleep Timer</span>
+                  </span>
+                  <span className={styles.settingControl}>
+                    <SleepTimerControls />
+                  </span>
+                </div>
+                <div className={styles.setting}>
+                  <span className={styles.settingLabel}>
+                    <GraphicEqIcon />
+                    <span>Enhance Audio</span>
+                  </span>
+                  <span className={styles.settingControl}>
+                    <AudioEnhancementControls />
+                  </span>
+                </div>
               </div>
             </Popover.Content>
           </div>
+
+          <PlayerError className={styles.error} />
         </Popover.Anchor>
       </Popover.Root>
     );
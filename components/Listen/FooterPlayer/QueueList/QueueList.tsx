@@ -0,0 +1,131 @@
+/**
+ * @file QueueList.tsx
+ * Component to view and reorder the player's up next queue.
+ */
+
+import type { IAudioData } from '@interfaces/data';
+import { useContext } from 'react';
+import clsx from 'clsx';
+import IconButton from '@components/IconButton';
+import PrxImage from '@components/PrxImage';
+import PlayerContext from '@contexts/PlayerContext';
+import ArrowDownwardIcon from '@svg/icons/ArrowDownward.svg';
+import ArrowUpwardIcon from '@svg/icons/ArrowUpward.svg';
+import CloseIcon from '@svg/icons/Close.svg';
+import styles from './QueueList.module.scss';
+
+export interface IQueueListProps {
+  className?: string;
+}
+
+const QueueList = ({ className }: IQueueListProps) => {
+  const {
+    imageUrl: defaultThumbUrl,
+    state,
+    playTrack,
+    setQueue,
+    dequeueTrack
+  } = useContext(PlayerContext);
+  const { tracks, queue } = state;
+  // Ignore queued episodes that are no longer in the feed.
+  const queuedTracks = (queue || [])
+    .map((guid) => tracks.find((track) => track.guid === guid))
+    .filter((track): track is IAudioData => !!track);
+
+  const moveTrack = (index: number, offset: number) => () => {
+    const guids = queuedTracks.map(({ guid }) => guid);
+    const [guid] = guids.splice(index, 1);
+
+    guids.splice(index + offset, 0, guid);
+
+    setQueue(guids);
+  };
+
+  const handleTrackClick = (guid: string) => () => {
+    playTrack(tracks.findIndex((track) => track.guid === guid));
+  };
+
+  const handleRemoveClick = (guid: string) => () => {
+    dequeueTrack(guid);
+  };
+
+  const handleClearClick = () => {
+    setQueue([]);
+  };
+
+  return (
+    <div className={clsx(styles.root, className)}>
+      <header className={styles.header}>
+        <span className={styles.heading}>Up Next</span>
+        {!!queuedTracks.length && (
+          <button
+            type="button"
+            className={styles.clearButton}
+            onClick={handleClearClick}
+          >
+            Clear
+          </button>
+        )}
+      </header>
+
+      {queuedTracks.length ? (
+        <ol className={styles.tracks}>
+          {queuedTracks.map(({ guid, title, imageUrl }, index) => {
+            const thumbSrc = imageUrl || defaultThumbUrl;
+
+            return (
+              <li className={styles.track} key={guid}>
+                <span className={styles.thumbnail}>
+                  {thumbSrc && (
+                    <PrxImage
+                      src={thumbSrc}
+                      alt={`Thumbnail for "${title}".`}
+                      fill
+                      sizes={styles['--queueList-thumbnail-size']}
+                    />
+                  )}
+                </span>
+                <button
+                  type="button"
+                  className={styles.title}
+                  onClick={handleTrackClick(guid)}
+                  title="Play Episode"
+                >
+                  {title}
+                </button>
+                <span className={styles.controls}>
+                  <IconButton
+                    onClick={moveTrack(index, -1)}
+                    title="Move Up"
+                    disabled={index === 0}
+                  >
+                    <ArrowUpwardIcon />
+                  </IconButton>
+                  <IconButton
+                    onClick={moveTrack(index, 1)}
+                    title="Move Down"
+                    disabled={index === queuedTracks.length - 1}
+                  >
+                    <ArrowDownwardIcon />
+                  </IconButton>
+                  <IconButton
+                    onClick={handleRemoveClick(guid)}
+                    title="Remove From Queue"
+                  >
+                    <CloseIcon />
+                  </IconButton>
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <p className={styles.empty}>
+          Add episodes to the queue to play them after the current episode.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default QueueList;
@@ -0,0 +1,3 @@
+import QueueList from './QueueList';
+
+export default QueueList;
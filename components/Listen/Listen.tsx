@@ -23,7 +23,9 @@ import PlayerContext from '@contexts/PlayerContext';
 import BackgroundImage from '@components/BackgroundImage';
 import HtmlContent from '@components/HtmlContent';
 import Marquee from '@components/Marquee';
+import PersonAvatar from '@components/PersonAvatar';
 import FollowMenu from '@components/Player/FollowMenu';
+import HotkeysDialog from '@components/Player/HotkeysDialog';
 import ShareMenu from '@components/ShareMenu';
 import SupportMenu from '@components/Player/SupportMenu';
 import PrxImage from '@components/PrxImage';
@@ -33,6 +35,8 @@ import {
   listenStateReducer
 } from '@states/listen/Listen.reducer';
 import { ListenActionTypes } from '@states/listen/Listen.actions';
+import getPlaybackQueue from '@lib/storage/playback/getPlaybackQueue';
+import setPlaybackQueue from '@lib/storage/playback/setPlaybackQueue';
 import PrxDtLogo from '@svg/PRX-DT-Logo.svg';
 import EpisodeList from './EpisodeList';
 import Episode from './Episode';
@@ -42,7 +46,12 @@ import episodeCardStyles from './EpisodeList/EpisodeCard/EpisodeCard.module.scss
 
 const Listen = ({ config, data }: IListenPageProps) => {
   const router = useRouter();
-  const { episodeGuid: configEpisodeGuid, accentColor, theme } = config;
+  const {
+    episodeGuid: configEpisodeGuid,
+    accentColor,
+    theme,
+    feedUrl
+  } = config;
   const [state, dispatch] = useReducer(listenStateReducer, {
     ...listenInitialState,
     view: configEpisodeGuid ? 'episode-init' : 'podcast-init',
@@ -65,10 +74,11 @@ const Listen = ({ config, data }: IListenPageProps) => {
     bgImageUrl,
     link,
     followUrls,
-    supportUrls
+    supportUrls,
+    people
   } = data;
-  const { state: playerState } = useContext(PlayerContext);
-  const { currentTrackIndex } = playerState;
+  const { state: playerState, setQueue } = useContext(PlayerContext);
+  const { currentTrackIndex, queue } = playerState;
   const playerShown = currentTrackIndex !== null && currentTrackIndex >= 0;
   const episode = useMemo(
     () => episodes && episodes.find(({ guid }) => guid === episodeGuid),
@@ -79,6 +89,7 @@ const Listen = ({ config, data }: IListenPageProps) => {
     imageUrl: episodeImage,
     content: episodeContent
   } = episode || {};
+  const hosts = people?.filter(({ role }) => role === 'host');
   const pageTitle = [title, episodeTitle].filter((v) => !!v).join(' | ');
   const imageUrl = !episode ? bgImageUrl : episodeImage;
   const description = (!episode ? content : episodeContent)?.replace(
@@ -267,6 +278,23 @@ const Listen = ({ config, data }: IListenPageProps) => {
     ]
   );
 
+  /**
+   * Restore listener's up next queue for the feed.
+   */
+  useEffect(() => {
+    setQueue(getPlaybackQueue(feedUrl));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [feedUrl]);
+
+  /**
+   * Persist changes to the up next queue once it has been restored.
+   */
+  useEffect(() => {
+    if (queue) {
+      setPlaybackQueue(feedUrl, queue);
+    }
+  }, [feedUrl, queue]);
+
   useEffect(() => {
     if (view === 'episode' && !episode) {
       dispatch({
@@ -330,6 +358,16 @@ const Listen = ({ config, data }: IListenPageProps) => {
               <Marquee>{title}</Marquee>
             </h1>
             <span className={styles.podcastAuthor}>{author}</span>
+            {!!hosts?.length && (
+              <ul className={styles.podcastHosts} aria-label="Hosts">
+                {hosts.map((host) => (
+                  <li key={host.name} title={host.name}>
+                    <PersonAvatar person={host} size={28} />
+                    <span className={styles.podcastHostName}>{host.name}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
           <nav className={styles.podcastMenu}>{renderMenu}</nav>
           <div className={styles.podcastInfo}>
@@ -392,6 +430,8 @@ const Listen = ({ config, data }: IListenPageProps) => {
           </div>
         </footer>
 
+        <HotkeysDialog portalId="listen-modals" />
+
         <div className={styles.modals} id="listen-modals" />
       </div>
     </ListenContext.Provider>
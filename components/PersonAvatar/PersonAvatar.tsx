@@ -0,0 +1,50 @@
+/**
+ * @file PersonAvatar.tsx
+ * Round avatar image of a person, falling back to their initials.
+ */
+
+import type { CSSProperties } from 'react';
+import type { IPersonData } from '@interfaces/data';
+import clsx from 'clsx';
+import PrxImage from '@components/PrxImage';
+import styles from './PersonAvatar.module.scss';
+
+export type PersonAvatarProps = {
+  className?: string;
+  person: IPersonData;
+  size?: number;
+};
+
+const PersonAvatar = ({ className, person, size = 32 }: PersonAvatarProps) => {
+  const { name, imageUrl } = person || {};
+  const initials = (name || '')
+    .split(/\s+/)
+    .filter((v) => !!v)
+    .slice(0, 2)
+    .map((v) => v[0].toUpperCase())
+    .join('');
+
+  if (!person) return null;
+
+  return (
+    <span
+      className={clsx(className, styles.root)}
+      style={{ '--person-avatar--size': `${size}px` } as CSSProperties}
+      aria-hidden
+    >
+      {imageUrl ? (
+        <PrxImage
+          className={styles.image}
+          src={imageUrl}
+          alt=""
+          width={size}
+          height={size}
+        />
+      ) : (
+        initials
+      )}
+    </span>
+  );
+};
+
+export default PersonAvatar;
@@ -0,0 +1,3 @@
+import PersonAvatar from './PersonAvatar';
+
+export default PersonAvatar;
@@ -0,0 +1,83 @@
+/**
+ * @file AudioEnhancementControls.tsx
+ * Provide toggles for audio enhancements.
+ */
+
+import type React from 'react';
+import type { IPlayerAudioEnhancements } from '@interfaces/states/player';
+import { ChangeEvent, useContext } from 'react';
+import clsx from 'clsx';
+import PlayerContext from '@contexts/PlayerContext';
+import radioGroupStyles from '@components/RadioGroup/RadioGroup.module.scss';
+import styles from './AudioEnhancementControls.module.scss';
+
+const audioEnhancementOptions: {
+  name: keyof IPlayerAudioEnhancements;
+  label: string;
+  description: string;
+}[] = [
+  {
+    name: 'voiceBoost',
+    label: 'Voice Boost',
+    description: 'Make voices clearer'
+  },
+  {
+    name: 'leveling',
+    label: 'Leveling',
+    description: 'Even out loudness'
+  },
+  {
+    name: 'mono',
+    label: 'Mono',
+    description: 'Play both channels in each ear'
+  }
+];
+
+export type AudioEnhancementControlsProps = {
+  className?: string;
+};
+
+const AudioEnhancementControls: React.FC<AudioEnhancementControlsProps> = ({
+  className
+}) => {
+  const { state, setAudioEnhancement } = useContext(PlayerContext);
+  const { audioEnhancements, audioEnhancementsUnavailable } = state;
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { name, checked } = e.target;
+
+    setAudioEnhancement(name as keyof IPlayerAudioEnhancements, checked);
+  };
+
+  return (
+    <div className={clsx(styles.root, className)}>
+      <div className={radioGroupStyles.root}>
+        {audioEnhancementOptions.map(({ name, label, description }) => (
+          <label
+            className={radioGroupStyles.label}
+            htmlFor={`AudioEnhancement--${name}`}
+            title={description}
+            key={name}
+          >
+            <input
+              type="checkbox"
+              className={radioGroupStyles.input}
+              id={`AudioEnhancement--${name}`}
+              name={name}
+              checked={audioEnhancements[name]}
+              onChange={handleChange}
+            />
+            <span>{label}</span>
+          </label>
+        ))}
+      </div>
+      {audioEnhancementsUnavailable && (
+        <p className={styles.message}>
+          Enhancements are not available for this audio.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AudioEnhancementControls;
@@ -0,0 +1,3 @@
+import AudioEnhancementControls from './AudioEnhancementControls';
+
+export default AudioEnhancementControls;
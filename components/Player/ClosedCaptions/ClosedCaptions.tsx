@@ -20,7 +20,9 @@ import {
 } from 'react';
 import clsx from 'clsx';
 import PlayerContext from '@contexts/PlayerContext';
+import PersonAvatar from '@components/PersonAvatar';
 import generateSpeakerColor from '@lib/generate/string/generateSpeakerColor';
+import getSpeakerPerson from '@lib/parse/data/getSpeakerPerson';
 import getVttCueSpeaker from '@lib/parse/dom/getVttCueSpeaker';
 import PlayButton from '../PlayButton';
 import PlayerProgress from '../PlayerProgress';
@@ -44,7 +46,7 @@ const ClosedCaptions: React.FC<IClosedCaptionsProps> = ({ speakerColors }) => {
   const [transcriptData, setTranscriptData] =
     useState<IRssPodcastTranscriptJson>();
   const currentTrack = tracks[currentTrackIndex] || ({} as IAudioData);
-  const { transcripts } = currentTrack;
+  const { transcripts, people } = currentTrack;
   const transcriptJson = transcripts?.find((t) => t.type.includes('json'));
   const captionsClassNames = clsx(styles.captions, {
     [styles.ended]: cueEnded
@@ -212,7 +214,16 @@ const ClosedCaptions: React.FC<IClosedCaptionsProps> = ({ speakerColors }) => {
       <div className={captionsClassNames} aria-hidden>
         {currentCue && (
           <>
-            {speaker && <cite className={styles.speaker}>{speaker}</cite>}
+            {speaker && (
+              <cite className={styles.speaker}>
+                <PersonAvatar
+                  className={styles.speakerAvatar}
+                  person={getSpeakerPerson(speaker, people)}
+                  size={20}
+                />
+                {speaker}
+              </cite>
+            )}
             <p className={styles.caption} key={currentCue.id}>
               {(!cueSegments || cueSegments.length <= 1) && caption}
               {cueSegments?.length > 1 &&
@@ -12,7 +12,10 @@ import LinkIcon from '@svg/icons/Link.svg';
 export interface ICopyLinkButtonProps
   extends React.ButtonHTMLAttributes<HTMLButtonElement> {}
 
-const CopyLinkButton: React.FC<ICopyLinkButtonProps> = ({ className }) => {
+const CopyLinkButton: React.FC<ICopyLinkButtonProps> = ({
+  className,
+  onClick
+}) => {
   const { state } = useContext(PlayerContext);
   const { currentTrackIndex, tracks } = state;
   const { link } = tracks[currentTrackIndex];
@@ -22,6 +25,7 @@ const CopyLinkButton: React.FC<ICopyLinkButtonProps> = ({ className }) => {
   return (
     <MenuButton
       className={className}
+      onClick={onClick}
       action="clipboard"
       label="Link"
       type="button"
@@ -13,7 +13,8 @@ export interface IFileDownloadButtonProps
   extends React.ButtonHTMLAttributes<HTMLButtonElement> {}
 
 const FileDownloadButton: React.FC<IFileDownloadButtonProps> = ({
-  className
+  className,
+  onClick
 }) => {
   const { state } = useContext(PlayerContext);
   const { currentTrackIndex, tracks } = state;
@@ -22,6 +23,7 @@ const FileDownloadButton: React.FC<IFileDownloadButtonProps> = ({
   return (
     <MenuButton
       className={className}
+      onClick={onClick}
       action="link"
       label="Download Audio"
       type="button"
@@ -1,20 +1,25 @@
 /**
  * @file ForwardButton.tsx
- * Jump forward 30 seconds in the currently playing track.
+ * Jump forward the skip forward interval in the currently playing track.
  *
  */
 
 import type React from 'react';
 import { useContext } from 'react';
+import clsx from 'clsx';
 import PlayerContext from '@contexts/PlayerContext';
 import IconButton from '@components/IconButton';
 import ForwardIcon from '@svg/icons/Forward.svg';
+import styles from './ForwardButton.module.scss';
 
 export interface IForwardButtonProps
   extends React.ButtonHTMLAttributes<HTMLButtonElement> {}
 
-const ForwardButton: React.FC<IForwardButtonProps> = ({ ...props }) => {
-  const { forward } = useContext(PlayerContext);
+const ForwardButton: React.FC<IForwardButtonProps> = ({
+  className,
+  ...props
+}) => {
+  const { forward, skipForwardSeconds } = useContext(PlayerContext);
 
   const handleClick = () => {
     forward();
@@ -22,12 +27,16 @@ const ForwardButton: React.FC<IForwardButtonProps> = ({ ...props }) => {
 
   return (
     <IconButton
-      title="Skip Ahead 30 Seconds (l)"
+      title={`Skip Ahead ${skipForwardSeconds} Seconds (l)`}
       {...props}
+      className={clsx(styles.root, className)}
       type="button"
       onClick={handleClick}
     >
       <ForwardIcon />
+      <span className={styles.seconds} aria-hidden>
+        {skipForwardSeconds}
+      </span>
     </IconButton>
   );
 };
@@ -0,0 +1,75 @@
+/**
+ * @file HotkeysDialog.tsx
+ * Modal listing the player keyboard shortcuts.
+ */
+
+import type React from 'react';
+import type { IPlayerHotkey } from '@interfaces/player';
+import { useContext } from 'react';
+import clsx from 'clsx';
+import { PlayerKeymap } from '@interfaces/player';
+import PlayerContext from '@contexts/PlayerContext';
+import Modal from '@components/Modal/Modal';
+import styles from './HotkeysDialog.module.scss';
+
+export interface IHotkeysDialogProps {
+  className?: string;
+  portalId?: string;
+}
+
+const HotkeysDialog: React.FC<IHotkeysDialogProps> = ({
+  className,
+  portalId
+}) => {
+  const { state, hideHotkeys, skipBackSeconds, skipForwardSeconds } =
+    useContext(PlayerContext);
+  const { hotkeysShown } = state;
+  // Shortcuts sharing a description are listed together.
+  const hotkeys = PlayerKeymap.reduce((a, hotkey) => {
+    const existing = a.find(
+      ({ description }) => description === hotkey.description
+    );
+
+    if (existing) {
+      existing.labels = [...existing.labels, ...hotkey.labels];
+      return a;
+    }
+
+    return [...a, { ...hotkey }];
+  }, [] as IPlayerHotkey[]);
+
+  const getDescription = ({ action, description }: IPlayerHotkey) => {
+    switch (action) {
+      case 'replay':
+        return `${description} ${skipBackSeconds} seconds`;
+      case 'forward':
+        return `${description} ${skipForwardSeconds} seconds`;
+      default:
+        return description;
+    }
+  };
+
+  return (
+    <Modal onClose={hideHotkeys} isOpen={hotkeysShown} portalId={portalId}>
+      <div className={clsx(styles.root, className)}>
+        <h2 className={styles.title}>Keyboard Shortcuts</h2>
+        <dl className={styles.list}>
+          {hotkeys.map((hotkey) => (
+            <div className={styles.hotkey} key={hotkey.description}>
+              <dt className={styles.keys}>
+                {hotkey.labels.map((label) => (
+                  <kbd className={styles.key} key={label}>
+                    {label}
+                  </kbd>
+                ))}
+              </dt>
+              <dd className={styles.description}>{getDescription(hotkey)}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </Modal>
+  );
+};
+
+export default HotkeysDialog;
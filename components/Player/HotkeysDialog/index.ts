@@ -0,0 +1,3 @@
+import HotkeysDialog from './HotkeysDialog';
+
+export default HotkeysDialog;
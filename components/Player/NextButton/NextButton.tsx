@@ -7,13 +7,23 @@ import type React from 'react';
 import { useContext } from 'react';
 import PlayerContext from '@contexts/PlayerContext';
 import IconButton from '@components/IconButton';
+import getAdjacentTrackIndex from '@lib/parse/data/getAdjacentTrackIndex';
+import getQueuedTrackIndex from '@lib/parse/data/getQueuedTrackIndex';
 import NextIcon from '@svg/icons/Next.svg';
 
 export interface INextButtonProps
   extends React.ButtonHTMLAttributes<HTMLButtonElement> {}
 
 const NextButton: React.FC<INextButtonProps> = (props) => {
-  const { nextTrack } = useContext(PlayerContext);
+  const { state, nextTrack } = useContext(PlayerContext);
+  const { tracks, currentTrackIndex, repeatMode, shuffleOrder, queue } = state;
+  const adjacentTrackIndex = getAdjacentTrackIndex(
+    tracks,
+    currentTrackIndex,
+    1,
+    repeatMode,
+    shuffleOrder
+  );
 
   const handleClick = () => {
     nextTrack();
@@ -21,6 +31,9 @@ const NextButton: React.FC<INextButtonProps> = (props) => {
 
   return (
     <IconButton
+      disabled={
+        adjacentTrackIndex === -1 && getQueuedTrackIndex(tracks, queue) === -1
+      }
       title="Next Episode (])"
       {...props}
       type="button"
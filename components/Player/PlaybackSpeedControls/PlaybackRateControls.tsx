@@ -4,28 +4,43 @@
  */
 
 import type React from 'react';
-import { ChangeEvent, useContext } from 'react';
+import { ChangeEvent, FormEvent, useContext } from 'react';
 import clsx from 'clsx';
 import PlayerContext from '@contexts/PlayerContext';
 import RadioGroup, { RadioGroupOption } from '@components/RadioGroup';
+import Slider from '@components/Slider';
+import {
+  MAX_PLAYBACK_RATE,
+  MIN_PLAYBACK_RATE,
+  PLAYBACK_RATE_STEP
+} from '@lib/math/number/clampPlaybackRate';
 import styles from './PlaybackRateControls.module.scss';
 
 export type PlaybackRateControlsProps = {
   className?: string;
+  id?: string;
 };
 
 const PlaybackRateControls: React.FC<PlaybackRateControlsProps> = ({
-  className
+  className,
+  id
 }) => {
   const { state, setPlaybackRate } = useContext(PlayerContext);
   const { playbackRate } = state;
   const playbackSpeedOption: RadioGroupOption[] = [
-    { value: '0.5', labelProps: { 'aria-label': 'Half speed' } },
+    {
+      value: '0.75',
+      labelProps: { 'aria-label': 'Three quarters speed' }
+    },
     {
       value: '1',
       label: 'Normal',
       labelProps: { 'aria-label': 'Normal speed' }
     },
+    {
+      value: '1.25',
+      labelProps: { 'aria-label': 'One and a quarter times speed' }
+    },
     {
       value: '1.5',
       labelProps: { 'aria-label': 'One and a half times speed' }
@@ -42,15 +57,36 @@ const PlaybackRateControls: React.FC<PlaybackRateControlsProps> = ({
     }
   };
 
+  const handleSliderInput = (e: FormEvent<HTMLInputElement>) => {
+    const target = e.target as HTMLInputElement;
+
+    setPlaybackRate(parseFloat(target.value));
+  };
+
   return (
-    <RadioGroup
-      className={clsx(styles.root, className)}
-      options={playbackSpeedOption}
-      defaultValue="1"
-      value={`${playbackRate}`}
-      name="PlaybackRate"
-      onChange={handleChange}
-    />
+    <div className={clsx(styles.root, className)}>
+      <div className={styles.slider}>
+        <Slider
+          onInput={handleSliderInput}
+          defaultValue={playbackRate}
+          min={MIN_PLAYBACK_RATE}
+          max={MAX_PLAYBACK_RATE}
+          step={PLAYBACK_RATE_STEP}
+          title="Playback Speed (<, >)"
+          aria-keyshortcuts="Shift+Comma, Shift+Period"
+          aria-valuetext={`${playbackRate} times speed`}
+          id={id || 'playbackRate'}
+        />
+        <span className={styles.rate}>{`${playbackRate.toFixed(2)}x`}</span>
+      </div>
+      <RadioGroup
+        options={playbackSpeedOption}
+        defaultValue="1"
+        value={`${playbackRate}`}
+        name="PlaybackRate"
+        onChange={handleChange}
+      />
+    </div>
   );
 };
 
@@ -5,19 +5,141 @@
 
 import type React from 'react';
 import type { IAudioData } from '@interfaces/data';
-import { useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
+import type { PlayerHotkeysScope } from '@interfaces/player';
+import type { IAudioEnhancementGraph } from '@lib/generate/audio/generateAudioEnhancementGraph';
+import type {
+  IPlayerAudioEnhancements,
+  IPlayerSleepTimer,
+  PlayerRepeatMode,
+  PlayerSleepTimerType
+} from '@interfaces/states/player';
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+  useState
+} from 'react';
 import {
   playerInitialState,
   playerStateReducer
 } from '@states/player/Player.reducer';
 import { PlayerActionTypes } from '@states/player/Player.actions';
+import { PlayerKeymap } from '@interfaces/player';
 import PlayerContext from '@contexts/PlayerContext';
 import convertDurationToSeconds from '@lib/convert/string/convertDurationToSeconds';
+import fetchAudioChaptersData from '@lib/fetch/chapters/fetchAudioChaptersData';
+import fetchAudioCorsSupport from '@lib/fetch/audio/fetchAudioCorsSupport';
+import generateAudioEnhancementGraph from '@lib/generate/audio/generateAudioEnhancementGraph';
+import generateMediaSessionArtwork from '@lib/generate/data/generateMediaSessionArtwork';
+import shuffleArray from '@lib/math/array/shuffleArray';
+import clampPlaybackRate, {
+  PLAYBACK_RATE_STEP
+} from '@lib/math/number/clampPlaybackRate';
+import calculateSleepTimerRemaining from '@lib/math/time/calculateSleepTimerRemaining';
+import getAdjacentTrackIndex from '@lib/parse/data/getAdjacentTrackIndex';
+import getAudioSources from '@lib/parse/data/getAudioSources';
+import getChapterIndexAtTime from '@lib/parse/data/getChapterIndexAtTime';
+import getQueuedTrackIndex from '@lib/parse/data/getQueuedTrackIndex';
+import getPlayerHotkey from '@lib/parse/dom/getPlayerHotkey';
+import parseMediaPositionState from '@lib/parse/data/parseMediaPositionState';
+import parsePlaybackPosition from '@lib/parse/data/parsePlaybackPosition';
+import parsePlayerErrorReason from '@lib/parse/data/parsePlayerErrorReason';
+import getPlaybackPositions from '@lib/storage/playback/getPlaybackPositions';
+import setPlaybackPosition from '@lib/storage/playback/setPlaybackPosition';
+import getAudioEnhancements from '@lib/storage/preferences/getAudioEnhancements';
+import setAudioEnhancements from '@lib/storage/preferences/setAudioEnhancements';
+import getPlayerPreferences from '@lib/storage/preferences/getPlayerPreferences';
+import setPlayerPreferences from '@lib/storage/preferences/setPlayerPreferences';
 
 export interface IPlayerProps extends React.PropsWithChildren<{}> {
   audio: IAudioData | IAudioData[];
   startIndex?: number;
   imageUrl?: string;
+  feedUrl?: string;
+  repeatMode?: PlayerRepeatMode;
+  shuffle?: boolean;
+  crossfade?: number;
+  skipBack?: number;
+  skipForward?: number;
+  disablePersistence?: boolean;
+  hotkeys?: PlayerHotkeysScope;
+  rootRef?: React.MutableRefObject<HTMLDivElement>;
+  feedTitle?: string;
+}
+
+/**
+ * Seconds to skip back when no skip back interval is configured.
+ */
+const DEFAULT_SKIP_BACK_SECONDS = 5;
+
+/**
+ * Seconds to skip ahead when no skip forward interval is configured.
+ */
+const DEFAULT_SKIP_FORWARD_SECONDS = 30;
+
+/**
+ * Seconds before a sleep timer ends to start fading out volume.
+ */
+const SLEEP_TIMER_FADE_SECONDS = 10;
+
+/**
+ * Seconds before a track ends to start preloading the next track.
+ */
+const PRELOAD_NEXT_TRACK_SECONDS = 30;
+
+/**
+ * Longest crossfade allowed between tracks, in seconds.
+ */
+const MAX_CROSSFADE_SECONDS = 12;
+
+/**
+ * Times to retry loading audio after a network error before giving up.
+ */
+const MAX_ERROR_RETRIES = 3;
+
+/**
+ * Milliseconds to wait before the first retry. Doubles with each retry.
+ */
+const ERROR_RETRY_DELAY = 1000;
+
+type MediaSessionActionName = Parameters<
+  Navigator['mediaSession']['setActionHandler']
+>[0];
+type MediaSessionHandler = Parameters<
+  Navigator['mediaSession']['setActionHandler']
+>[1];
+
+/**
+ * Media session actions the player handles.
+ */
+const MEDIA_SESSION_ACTIONS: MediaSessionActionName[] = [
+  'play',
+  'pause',
+  'seekto',
+  'seekbackward',
+  'seekforward',
+  'previoustrack',
+  'nexttrack'
+];
+
+/**
+ * Set a media session action handler. Browsers throw for actions they don't
+ * support.
+ *
+ * @param action Media session action.
+ * @param handler Action handler, or `null` to clear the handler.
+ */
+function setMediaSessionActionHandler(
+  action: MediaSessionActionName,
+  handler: MediaSessionHandler
+) {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler);
+  } catch (e) {
+    // Action isn't supported.
+  }
 }
 
 export interface KeyboardEventWithTarget extends KeyboardEvent {
@@ -28,17 +150,50 @@ const Player: React.FC<IPlayerProps> = ({
   audio,
   startIndex,
   imageUrl,
+  feedUrl,
+  repeatMode: initialRepeatMode,
+  shuffle: initialShuffle,
+  crossfade,
+  skipBack,
+  skipForward,
+  disablePersistence,
+  hotkeys: hotkeysScope = 'window',
+  rootRef,
+  feedTitle,
   children
 }) => {
   const initialTracks = useMemo(
     () => (audio && (Array.isArray(audio) ? audio : [audio])) || [],
     [audio]
   );
+  const audioElms = useRef<HTMLAudioElement[]>([]);
   const audioElm = useRef<HTMLAudioElement>();
+  const preloadAudioElm = useRef<HTMLAudioElement>();
+  const [activeAudioIndex, setActiveAudioIndex] = useState(0);
+  const [audioElmsKey, setAudioElmsKey] = useState(0);
+  const audioGraph = useRef<IAudioEnhancementGraph>();
+  const audioGraphSources = useRef(
+    new WeakMap<HTMLAudioElement, MediaElementAudioSourceNode>()
+  );
+  const audioCorsSupport = useRef(new Map<string, boolean>());
+  const preloadedTrackGuid = useRef<string>();
+  const crossfading = useRef(false);
+  const loadedTrackGuid = useRef<string>();
+  const lastSavedTime = useRef<number>(null);
+  const retryTimeout = useRef<ReturnType<typeof setTimeout>>();
+  const errorTime = useRef<number>(null);
+  const alternatePlaybackRate = useRef(2);
+  const [audioSource, setAudioSource] = useState<{
+    guid: string;
+    index: number;
+  }>(null);
+  const [preferencesLoaded, setPreferencesLoaded] = useState(false);
+  const [mediaChapterIndex, setMediaChapterIndex] = useState(-1);
   const [state, dispatch] = useReducer(playerStateReducer, {
     ...playerInitialState,
     tracks: initialTracks,
-    ...(startIndex >= 0 && { currentTrackIndex: startIndex })
+    ...(startIndex >= 0 && { currentTrackIndex: startIndex }),
+    ...(initialRepeatMode && { repeatMode: initialRepeatMode })
   });
   const {
     tracks,
@@ -47,16 +202,77 @@ const Player: React.FC<IPlayerProps> = ({
     currentTime,
     muted,
     volume,
-    playbackRate
+    playbackRate,
+    playbackPositions,
+    sleepTimer,
+    repeatMode,
+    shuffleOrder,
+    queue,
+    error,
+    audioEnhancements
   } = state;
   const currentTrack = tracks[currentTrackIndex] || ({} as IAudioData);
   const currentTrackDurationSeconds = useMemo(
     () => convertDurationToSeconds(currentTrack.duration),
     [currentTrack.duration]
   );
-  const isLastTrack = currentTrackIndex === tracks.length - 1;
-  const { url, previewUrl, transcripts, duration } = currentTrack;
-  const currentTrackUrl = previewUrl || url;
+  const queuedTrackIndex = getQueuedTrackIndex(tracks, queue);
+  const nextTrackIndex =
+    queuedTrackIndex > -1
+      ? queuedTrackIndex
+      : getAdjacentTrackIndex(
+          tracks,
+          currentTrackIndex,
+          1,
+          repeatMode,
+          shuffleOrder
+        );
+  const previousTrackIndex = getAdjacentTrackIndex(
+    tracks,
+    currentTrackIndex,
+    -1,
+    repeatMode,
+    shuffleOrder
+  );
+  const hasNextTrack = nextTrackIndex > -1;
+  const hasPreviousTrack = previousTrackIndex > -1;
+  // Repeating all with a single track in the play order repeats that track.
+  const repeatsTrack =
+    repeatMode === 'one' || nextTrackIndex === currentTrackIndex;
+  const sleepsAtTrackEnd =
+    sleepTimer?.type === 'episode' ||
+    (sleepTimer?.type === 'chapters' && !sleepTimer.endTrackTime);
+  const nextTrackData = tracks[nextTrackIndex];
+  const nextTrackGuid = nextTrackData?.guid;
+  const nextTrackUrl = getAudioSources(nextTrackData)[0];
+  const canPreloadNextTrack =
+    hasNextTrack && !repeatsTrack && !sleepsAtTrackEnd;
+  const hasAudioEnhancements = Object.values(audioEnhancements).some((v) => v);
+  const skipBackSeconds = skipBack > 0 ? skipBack : DEFAULT_SKIP_BACK_SECONDS;
+  const skipForwardSeconds =
+    skipForward > 0 ? skipForward : DEFAULT_SKIP_FORWARD_SECONDS;
+  const crossfadeSeconds = Math.min(
+    Math.max(crossfade || 0, 0),
+    MAX_CROSSFADE_SECONDS
+  );
+  const {
+    guid: currentTrackGuid,
+    transcripts,
+    duration,
+    chapters,
+    chaptersData,
+    clipStart,
+    clipEnd,
+    highlight
+  } = currentTrack;
+  const isClip = !!(clipStart || clipEnd);
+  const currentTrackSources = getAudioSources(currentTrack);
+  // Sources that fail to play fall back to the next source for the track.
+  const sourceIndex =
+    audioSource && audioSource.guid === currentTrackGuid
+      ? audioSource.index
+      : 0;
+  const currentTrackUrl = currentTrackSources[sourceIndex];
   const transcript = transcripts?.find(
     (t) => !!['vtt', 'srt', 'x-subrip', 'json'].find((n) => t.type.includes(n))
   );
@@ -64,10 +280,10 @@ const Player: React.FC<IPlayerProps> = ({
   const boundedTime = useCallback(
     (time: number) =>
       Math.min(
-        Math.max(0.00001, time),
-        audioElm.current.duration || currentTrackDurationSeconds
+        Math.max(clipStart || 0.00001, time),
+        clipEnd || audioElm.current.duration || currentTrackDurationSeconds
       ),
-    [currentTrackDurationSeconds]
+    [clipEnd, clipStart, currentTrackDurationSeconds]
   );
 
   const boundedVolume = useCallback(
@@ -83,6 +299,21 @@ const Player: React.FC<IPlayerProps> = ({
     dispatch({ type: PlayerActionTypes.PLAYER_PLAY_TRACK, payload: index });
   };
 
+  const playHighlight = useCallback(
+    (index: number, start: number, end: number) => {
+      dispatch({
+        type: PlayerActionTypes.PLAYER_PLAY_HIGHLIGHT,
+        payload: { index, clipStart: start, clipEnd: end }
+      });
+
+      // Current track won't reload, so seek to the highlight now.
+      if (index === currentTrackIndex) {
+        audioElm.current.currentTime = start;
+      }
+    },
+    [currentTrackIndex]
+  );
+
   const pause = () => {
     dispatch({ type: PlayerActionTypes.PLAYER_PAUSE });
   };
@@ -110,20 +341,22 @@ const Player: React.FC<IPlayerProps> = ({
 
   const seekToRelative = useCallback(
     (ratio: number) => {
-      seekTo(
-        (audioElm.current.duration || currentTrackDurationSeconds) * ratio
-      );
+      const start = clipStart || 0;
+      const end =
+        clipEnd || audioElm.current.duration || currentTrackDurationSeconds;
+
+      seekTo(start + (end - start) * ratio);
     },
-    [currentTrackDurationSeconds, seekTo]
+    [clipEnd, clipStart, currentTrackDurationSeconds, seekTo]
   );
 
   const replay = useCallback(() => {
-    seekBy(-5);
-  }, [seekBy]);
+    seekBy(-skipBackSeconds);
+  }, [seekBy, skipBackSeconds]);
 
   const forward = useCallback(() => {
-    seekBy(30);
-  }, [seekBy]);
+    seekBy(skipForwardSeconds);
+  }, [seekBy, skipForwardSeconds]);
 
   const setTrack = (index: number) => {
     dispatch({
@@ -151,6 +384,86 @@ const Player: React.FC<IPlayerProps> = ({
     });
   };
 
+  const setRepeatMode = (newRepeatMode: PlayerRepeatMode) => {
+    dispatch({
+      type: PlayerActionTypes.PLAYER_UPDATE_REPEAT_MODE,
+      payload: newRepeatMode
+    });
+  };
+
+  const setShuffle = useCallback(
+    (shuffle: boolean) => {
+      // Shuffled order starts with the current track so it keeps playing.
+      const currentGuid = tracks[currentTrackIndex]?.guid;
+      const otherGuids = tracks
+        .map(({ guid }) => guid)
+        .filter((guid) => guid !== currentGuid);
+
+      dispatch({
+        type: PlayerActionTypes.PLAYER_UPDATE_SHUFFLE_ORDER,
+        payload: shuffle
+          ? [...(currentGuid ? [currentGuid] : []), ...shuffleArray(otherGuids)]
+          : null
+      });
+    },
+    [currentTrackIndex, tracks]
+  );
+
+  const setQueue = (newQueue: string[]) => {
+    dispatch({
+      type: PlayerActionTypes.PLAYER_UPDATE_QUEUE,
+      payload: newQueue
+    });
+  };
+
+  const queueTrack = (guid: string) => {
+    dispatch({
+      type: PlayerActionTypes.PLAYER_QUEUE_TRACK,
+      payload: guid
+    });
+  };
+
+  const queueTrackNext = (guid: string) => {
+    dispatch({
+      type: PlayerActionTypes.PLAYER_QUEUE_TRACK_NEXT,
+      payload: guid
+    });
+  };
+
+  const dequeueTrack = (guid: string) => {
+    dispatch({
+      type: PlayerActionTypes.PLAYER_DEQUEUE_TRACK,
+      payload: guid
+    });
+  };
+
+  const previousChapter = useCallback(() => {
+    if (!chaptersData?.length) return;
+
+    const time = audioElm.current.currentTime;
+    const chapterIndex = getChapterIndexAtTime(chaptersData, time);
+    const chapter = chaptersData[chapterIndex];
+
+    // Restart the current chapter when we are a few seconds into it.
+    if (chapter && time - chapter.startTime > 3) {
+      seekTo(chapter.startTime);
+    } else {
+      seekTo(chaptersData[Math.max(chapterIndex - 1, 0)].startTime);
+    }
+  }, [chaptersData, seekTo]);
+
+  const nextChapter = useCallback(() => {
+    if (!chaptersData?.length) return;
+
+    const time = audioElm.current.currentTime;
+    const chapterIndex = getChapterIndexAtTime(chaptersData, time);
+    const chapter = chaptersData[chapterIndex + 1];
+
+    if (chapter) {
+      seekTo(chapter.startTime);
+    }
+  }, [chaptersData, seekTo]);
+
   const volumeUp = useCallback(() => {
     dispatch({
       type: PlayerActionTypes.PLAYER_UPDATE_VOLUME,
@@ -193,66 +506,203 @@ const Player: React.FC<IPlayerProps> = ({
     });
   };
 
-  const setPlaybackRate = (rate: number) => {
+  const setPlaybackRate = useCallback((rate: number) => {
+    const newPlaybackRate = clampPlaybackRate(rate);
+
+    if (newPlaybackRate !== 1) {
+      alternatePlaybackRate.current = newPlaybackRate;
+    }
+
     dispatch({
       type: PlayerActionTypes.PLAYER_UPDATE_PLAYBACK_RATE,
-      payload: rate
+      payload: newPlaybackRate
     });
-  };
+  }, []);
 
-  const updateMediaSession = useCallback(() => {
-    const artworkSrc = currentTrack.imageUrl || imageUrl;
-    if ('mediaSession' in navigator) {
-      navigator.mediaSession.metadata = new window.MediaMetadata({
-        title: currentTrack.title,
-        artist: currentTrack.subtitle,
-        ...(artworkSrc && { artwork: [{ src: artworkSrc }] })
-      });
-      navigator.mediaSession.setActionHandler('play', () => {
-        play();
-      });
-      navigator.mediaSession.setActionHandler('pause', () => {
-        pause();
-      });
-      navigator.mediaSession.setActionHandler('seekto', (e) => {
-        seekTo(e.seekTime);
-      });
-      navigator.mediaSession.setActionHandler('seekbackward', () => {
-        replay();
+  const playbackRateUp = useCallback(() => {
+    setPlaybackRate(playbackRate + PLAYBACK_RATE_STEP);
+  }, [playbackRate, setPlaybackRate]);
+
+  const playbackRateDown = useCallback(() => {
+    setPlaybackRate(playbackRate - PLAYBACK_RATE_STEP);
+  }, [playbackRate, setPlaybackRate]);
+
+  const setSleepTimer = useCallback(
+    (type: PlayerSleepTimerType, value?: number) => {
+      let newSleepTimer: IPlayerSleepTimer = { type, value };
+
+      if (type === 'minutes') {
+        newSleepTimer = {
+          ...newSleepTimer,
+          endTime: Date.now() + value * 60000
+        };
+      }
+
+      if (type === 'chapters' && chaptersData?.length) {
+        const chapterIndex = Math.max(
+          0,
+          getChapterIndexAtTime(chaptersData, audioElm.current.currentTime)
+        );
+        const { endTime } =
+          chaptersData[
+            Math.min(chapterIndex + value - 1, chaptersData.length - 1)
+          ];
+
+        newSleepTimer = { ...newSleepTimer, endTrackTime: endTime };
+      }
+
+      dispatch({
+        type: PlayerActionTypes.PLAYER_UPDATE_SLEEP_TIMER,
+        payload: newSleepTimer
       });
-      navigator.mediaSession.setActionHandler('seekforward', () => {
-        forward();
+    },
+    [chaptersData]
+  );
+
+  const showHotkeys = () => {
+    dispatch({
+      type: PlayerActionTypes.PLAYER_SHOW_HOTKEYS
+    });
+  };
+
+  const hideHotkeys = () => {
+    dispatch({
+      type: PlayerActionTypes.PLAYER_HIDE_HOTKEYS
+    });
+  };
+
+  const clearSleepTimer = () => {
+    dispatch({
+      type: PlayerActionTypes.PLAYER_CLEAR_SLEEP_TIMER
+    });
+  };
+
+  const setAudioEnhancement = useCallback(
+    (name: keyof IPlayerAudioEnhancements, enabled: boolean) => {
+      // Audio contexts can only start from listener interaction.
+      audioGraph.current?.context.resume();
+
+      if (!disablePersistence) {
+        setAudioEnhancements({ ...audioEnhancements, [name]: enabled });
+      }
+
+      dispatch({
+        type: PlayerActionTypes.PLAYER_UPDATE_AUDIO_ENHANCEMENTS,
+        payload: { [name]: enabled }
       });
+    },
+    [audioEnhancements, disablePersistence]
+  );
 
-      if (tracks.length > 1) {
-        navigator.mediaSession.setActionHandler('previoustrack', () => {
-          previousTrack();
-        });
+  const reloadAudio = useCallback(
+    (index: number) => {
+      // Pick up where playback failed once the audio has loaded again.
+      errorTime.current = audioElm.current.currentTime || null;
 
-        navigator.mediaSession.setActionHandler('nexttrack', () => {
-          nextTrack();
-        });
+      if (index !== sourceIndex) {
+        setAudioSource({ guid: currentTrackGuid, index });
+      } else {
+        audioElm.current.load();
       }
+    },
+    [currentTrackGuid, sourceIndex]
+  );
+
+  const retry = useCallback(() => {
+    clearTimeout(retryTimeout.current);
+
+    dispatch({
+      type: PlayerActionTypes.PLAYER_CLEAR_ERROR
+    });
+
+    // Blocked autoplay only needs the listener to start playback.
+    if (error?.reason !== 'autoplay') {
+      reloadAudio(0);
     }
+
+    play();
+  }, [error?.reason, reloadAudio]);
+
+  const updateMediaSession = useCallback(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    setMediaSessionActionHandler('play', () => {
+      play();
+    });
+    setMediaSessionActionHandler('pause', () => {
+      pause();
+    });
+    setMediaSessionActionHandler('seekto', (e) => {
+      // Position state is relative to the clip start for clips.
+      seekTo((clipStart || 0) + e.seekTime);
+    });
+    setMediaSessionActionHandler('seekbackward', (e) => {
+      seekBy(-(e.seekOffset || skipBackSeconds));
+    });
+    setMediaSessionActionHandler('seekforward', (e) => {
+      seekBy(e.seekOffset || skipForwardSeconds);
+    });
+  }, [clipStart, seekBy, seekTo, skipBackSeconds, skipForwardSeconds]);
+
+  const updateMediaSessionMetadata = useCallback(() => {
+    if (!('mediaSession' in navigator) || !window.MediaMetadata) return;
+
+    const chapter = chaptersData?.[mediaChapterIndex];
+    const artworkSrc = chapter?.img || currentTrack.imageUrl || imageUrl;
+
+    // Show chapter titles with the episode title in place of the artist.
+    navigator.mediaSession.metadata = new window.MediaMetadata({
+      title: chapter?.title || currentTrack.title,
+      artist: chapter?.title ? currentTrack.title : currentTrack.subtitle,
+      ...(feedTitle && { album: feedTitle }),
+      artwork: generateMediaSessionArtwork(artworkSrc)
+    });
   }, [
+    chaptersData,
     currentTrack.imageUrl,
     currentTrack.subtitle,
     currentTrack.title,
-    forward,
+    feedTitle,
     imageUrl,
-    replay,
-    seekTo,
-    tracks.length
+    mediaChapterIndex
   ]);
 
+  const updateMediaPositionState = useCallback(() => {
+    if (!navigator.mediaSession?.setPositionState) return;
+
+    const {
+      currentTime: ct,
+      duration: d,
+      playbackRate: rate
+    } = audioElm.current;
+    const positionState = parseMediaPositionState(
+      ct,
+      d,
+      rate,
+      clipStart,
+      clipEnd
+    );
+
+    if (!positionState) return;
+
+    try {
+      navigator.mediaSession.setPositionState(positionState);
+    } catch (e) {
+      // Ignore position states the browser considers invalid mid-seek.
+    }
+  }, [clipEnd, clipStart]);
+
   const playerContextValue = useMemo(
     () => ({
-      audioElm: audioElm.current,
+      audioElm: audioElms.current[activeAudioIndex],
       imageUrl,
+      skipBackSeconds,
+      skipForwardSeconds,
       state,
       dispatch,
       play,
       playTrack,
+      playHighlight,
       pause,
       togglePlayPause,
       mute,
@@ -267,42 +717,256 @@ const Player: React.FC<IPlayerProps> = ({
       setTracks,
       previousTrack,
       nextTrack,
+      previousChapter,
+      nextChapter,
       setPlaybackRate,
-      setVolume
+      setVolume,
+      setSleepTimer,
+      clearSleepTimer,
+      setRepeatMode,
+      setShuffle,
+      setQueue,
+      queueTrack,
+      queueTrackNext,
+      dequeueTrack,
+      retry,
+      showHotkeys,
+      hideHotkeys,
+      setAudioEnhancement
     }),
     [
+      activeAudioIndex,
       forward,
       imageUrl,
+      nextChapter,
+      playHighlight,
+      previousChapter,
       replay,
+      retry,
       seekBy,
       seekTo,
       seekToRelative,
+      setAudioEnhancement,
+      setPlaybackRate,
+      setShuffle,
+      setSleepTimer,
       setVolume,
+      skipBackSeconds,
+      skipForwardSeconds,
       state
     ]
   );
 
   const startPlaying = useCallback(() => {
+    // Restart clips that have played to their end.
+    if (clipEnd && audioElm.current.currentTime >= clipEnd) {
+      audioElm.current.currentTime = clipStart || 0;
+    }
+
+    audioGraph.current?.context.resume();
+
     audioElm.current
       .play()
       .then(() => {
         updateMediaSession();
       })
       .catch((e) => {
+        // Media errors are handled by the audio element `error` event.
+        if (parsePlayerErrorReason(e) === 'autoplay') {
+          dispatch({
+            type: PlayerActionTypes.PLAYER_UPDATE_ERROR,
+            payload: { reason: 'autoplay' }
+          });
+          return;
+        }
+
         // eslint-disable-next-line no-console
         console.error(e);
       });
-  }, [updateMediaSession]);
+  }, [clipEnd, clipStart, updateMediaSession]);
 
   const pauseAudio = useCallback(() => {
     audioElm.current.pause();
   }, []);
 
+  const repeatTrack = useCallback(() => {
+    audioElm.current.currentTime = clipStart || 0;
+    startPlaying();
+  }, [clipStart, startPlaying]);
+
+  const cancelCrossfade = useCallback(() => {
+    if (!crossfading.current) return;
+
+    crossfading.current = false;
+    preloadAudioElm.current.pause();
+    preloadAudioElm.current.currentTime = 0;
+    audioElm.current.volume = volume;
+  }, [volume]);
+
+  const preloadNextTrack = useCallback(() => {
+    if (preloadedTrackGuid.current === nextTrackGuid) return;
+
+    cancelCrossfade();
+
+    preloadAudioElm.current.preload = 'auto';
+    preloadAudioElm.current.src = nextTrackUrl;
+    preloadedTrackGuid.current = nextTrackGuid;
+  }, [cancelCrossfade, nextTrackGuid, nextTrackUrl]);
+
+  const crossfadeToNextTrack = useCallback(
+    (remaining: number) => {
+      const nextAudioElm = preloadAudioElm.current;
+      const fade = Math.max(0, remaining / crossfadeSeconds);
+
+      if (!crossfading.current) {
+        crossfading.current = true;
+        nextAudioElm.muted = muted;
+        nextAudioElm.playbackRate = playbackRate;
+        nextAudioElm.volume = 0;
+        nextAudioElm.play().catch(() => {
+          crossfading.current = false;
+        });
+      }
+
+      audioElm.current.volume = volume * fade;
+      nextAudioElm.volume = volume * (1 - fade);
+    },
+    [crossfadeSeconds, muted, playbackRate, volume]
+  );
+
+  const swapAudioElms = () => {
+    const previousAudioElm = audioElm.current;
+    const wasCrossfading = crossfading.current;
+
+    // Preloaded element becomes the active element, and the previous element
+    // is freed up to preload the track after this one.
+    audioElm.current = preloadAudioElm.current;
+    preloadAudioElm.current = previousAudioElm;
+    preloadedTrackGuid.current = null;
+    crossfading.current = false;
+
+    previousAudioElm.pause();
+    previousAudioElm.removeAttribute('src');
+    previousAudioElm.load();
+    previousAudioElm.volume = volume;
+
+    audioElm.current.muted = muted;
+    audioElm.current.volume = volume;
+    audioElm.current.playbackRate = playbackRate;
+
+    setActiveAudioIndex((index) => 1 - index);
+
+    // Crossfaded tracks are already playing.
+    if (playing && !wasCrossfading) {
+      startPlaying();
+    }
+  };
+
+  const remountAudioElms = useCallback(() => {
+    // Elements routed through Web Audio can't play audio from hosts that
+    // don't allow cross-origin access, and can't be disconnected, so render
+    // new elements that play audio directly.
+    errorTime.current = audioElm.current.currentTime || null;
+    cancelCrossfade();
+    preloadedTrackGuid.current = null;
+    setAudioElmsKey((key) => key + 1);
+  }, [cancelCrossfade]);
+
+  const connectAudioGraph = () => {
+    audioGraph.current = audioGraph.current || generateAudioEnhancementGraph();
+
+    if (!audioGraph.current) return;
+
+    const { context, input } = audioGraph.current;
+
+    audioElms.current.forEach((elm) => {
+      if (audioGraphSources.current.has(elm)) return;
+
+      // Audio must be requested with CORS before Web Audio can process it.
+      // eslint-disable-next-line no-param-reassign
+      elm.crossOrigin = 'anonymous';
+
+      const source = context.createMediaElementSource(elm);
+
+      source.connect(input);
+      audioGraphSources.current.set(elm, source);
+    });
+
+    audioGraph.current.update(audioEnhancements);
+
+    // Reload audio loaded without CORS, including any preloaded track.
+    cancelCrossfade();
+    preloadedTrackGuid.current = null;
+    reloadAudio(sourceIndex);
+  };
+
   const loadAudio = (src: string) => {
-    audioElm.current.preload = playing ? 'auto' : 'none';
-    audioElm.current.src = src;
+    if (
+      currentTrackGuid &&
+      preloadedTrackGuid.current === currentTrackGuid &&
+      !preloadAudioElm.current.error
+    ) {
+      swapAudioElms();
+    } else {
+      cancelCrossfade();
+      audioElm.current.preload = playing ? 'auto' : 'none';
+      audioElm.current.src = src;
+    }
+
+    loadedTrackGuid.current = currentTrackGuid;
+    lastSavedTime.current = null;
   };
 
+  const updateNextTrackPreload = useCallback(
+    (ct: number, d: number) => {
+      if (!canPreloadNextTrack || !d) {
+        cancelCrossfade();
+        return;
+      }
+
+      const remaining = ((clipEnd || d) - ct) / playbackRate;
+
+      if (remaining <= PRELOAD_NEXT_TRACK_SECONDS) {
+        preloadNextTrack();
+      }
+
+      if (crossfadeSeconds && remaining <= crossfadeSeconds) {
+        crossfadeToNextTrack(remaining);
+      } else {
+        cancelCrossfade();
+      }
+    },
+    [
+      canPreloadNextTrack,
+      cancelCrossfade,
+      clipEnd,
+      crossfadeSeconds,
+      crossfadeToNextTrack,
+      playbackRate,
+      preloadNextTrack
+    ]
+  );
+
+  const updatePlaybackPosition = useCallback(() => {
+    const { currentTime: ct, duration: d } = audioElm.current;
+    const guid = loadedTrackGuid.current;
+
+    // Wait for metadata so we know how close to the end we are. Clips only
+    // play part of the audio, so they don't update the episode's position.
+    if (!guid || !d || isClip) return;
+
+    const position = parsePlaybackPosition(ct, d);
+
+    lastSavedTime.current = ct;
+
+    setPlaybackPosition(feedUrl, guid, position);
+
+    dispatch({
+      type: PlayerActionTypes.PLAYER_UPDATE_TRACK_PLAYBACK_POSITION,
+      payload: { guid, position }
+    });
+  }, [feedUrl, isClip]);
+
   const handlePlay = useCallback(() => {
     if (!playing) {
       dispatch({ type: PlayerActionTypes.PLAYER_PLAY });
@@ -312,8 +976,124 @@ const Player: React.FC<IPlayerProps> = ({
   const handlePause = useCallback(() => {
     if (!audioElm.current.ended) {
       dispatch({ type: PlayerActionTypes.PLAYER_PAUSE });
+      cancelCrossfade();
     }
-  }, []);
+
+    updatePlaybackPosition();
+  }, [cancelCrossfade, updatePlaybackPosition]);
+
+  const handlePlaying = useCallback(() => {
+    if (error) {
+      dispatch({ type: PlayerActionTypes.PLAYER_CLEAR_ERROR });
+    }
+  }, [error]);
+
+  const handleError = useCallback(() => {
+    const reason = parsePlayerErrorReason(audioElm.current.error);
+    const retries = error?.retries || 0;
+
+    // Ignore aborted loads and players without audio to load.
+    if (!reason || !currentTrackUrl) return;
+
+    // Audio routed through Web Audio may have failed for lack of CORS, so try
+    // it again on elements that play it directly.
+    if (
+      audioGraphSources.current.has(audioElm.current) &&
+      !audioCorsSupport.current.get(currentTrackUrl)
+    ) {
+      dispatch({
+        type: PlayerActionTypes.PLAYER_UPDATE_AUDIO_ENHANCEMENTS_UNAVAILABLE,
+        payload: true
+      });
+      remountAudioElms();
+      return;
+    }
+
+    clearTimeout(retryTimeout.current);
+
+    // Network errors may pass, so retry the same source with backoff.
+    if (reason === 'network' && retries < MAX_ERROR_RETRIES) {
+      dispatch({
+        type: PlayerActionTypes.PLAYER_UPDATE_ERROR,
+        payload: { reason, retries: retries + 1, retrying: true }
+      });
+      retryTimeout.current = setTimeout(() => {
+        reloadAudio(sourceIndex);
+      }, ERROR_RETRY_DELAY * 2 ** retries);
+      return;
+    }
+
+    if (sourceIndex < currentTrackSources.length - 1) {
+      dispatch({
+        type: PlayerActionTypes.PLAYER_UPDATE_ERROR,
+        payload: { reason, retries: 0, retrying: true }
+      });
+      reloadAudio(sourceIndex + 1);
+      return;
+    }
+
+    dispatch({
+      type: PlayerActionTypes.PLAYER_UPDATE_ERROR,
+      payload: { reason, retries }
+    });
+  }, [
+    currentTrackSources.length,
+    currentTrackUrl,
+    error?.retries,
+    reloadAudio,
+    remountAudioElms,
+    sourceIndex
+  ]);
+
+  const handleTimeUpdate = useCallback(() => {
+    const { currentTime: ct, duration: d, paused } = audioElm.current;
+
+    updateMediaPositionState();
+
+    if (chaptersData?.length) {
+      setMediaChapterIndex(getChapterIndexAtTime(chaptersData, ct));
+    }
+
+    if (paused) return;
+
+    updateNextTrackPreload(ct, d);
+
+    // Highlights stop at their end, leaving the full episode to resume.
+    if (highlight && ct >= clipEnd) {
+      pause();
+      dispatch({ type: PlayerActionTypes.PLAYER_CLEAR_HIGHLIGHT });
+      return;
+    }
+
+    // Stop clips at their end time as though the audio ended.
+    if (clipEnd && ct >= clipEnd) {
+      if (sleepsAtTrackEnd || (!repeatsTrack && !hasNextTrack)) {
+        pause();
+        clearSleepTimer();
+      } else if (repeatsTrack) {
+        repeatTrack();
+      } else {
+        nextTrack();
+      }
+      return;
+    }
+
+    // Save position every few seconds while playing.
+    if (Math.abs(ct - (lastSavedTime.current || 0)) >= 5) {
+      updatePlaybackPosition();
+    }
+  }, [
+    chaptersData,
+    clipEnd,
+    hasNextTrack,
+    highlight,
+    repeatTrack,
+    repeatsTrack,
+    sleepsAtTrackEnd,
+    updateMediaPositionState,
+    updateNextTrackPreload,
+    updatePlaybackPosition
+  ]);
 
   const handleLoadedMetadata = useCallback(() => {
     // When audio data loads, update duration and current time, then start
@@ -323,162 +1103,191 @@ const Player: React.FC<IPlayerProps> = ({
       payload: audioElm.current.duration
     });
 
+    if (errorTime.current !== null) {
+      audioElm.current.currentTime = errorTime.current;
+      errorTime.current = null;
+    }
+
+    // Reloaded audio that isn't playing has nothing left to retry.
+    if (error?.retrying && !playing) {
+      dispatch({ type: PlayerActionTypes.PLAYER_CLEAR_ERROR });
+    }
+
+    updateMediaPositionState();
+
     if (playing) {
       startPlaying();
     }
-  }, [playing, startPlaying]);
+  }, [error?.retrying, playing, startPlaying, updateMediaPositionState]);
 
   const handleEnded = useCallback(() => {
-    if (!isLastTrack) {
+    updatePlaybackPosition();
+
+    // Sleep timers that end with the track stop playback here.
+    if (sleepsAtTrackEnd) {
+      pause();
+      clearSleepTimer();
+      return;
+    }
+
+    if (repeatsTrack) {
+      repeatTrack();
+    } else if (hasNextTrack) {
       nextTrack();
     }
-  }, [isLastTrack]);
+  }, [
+    hasNextTrack,
+    repeatTrack,
+    repeatsTrack,
+    sleepsAtTrackEnd,
+    updatePlaybackPosition
+  ]);
 
   const handleHotkey = useCallback(
     (event: KeyboardEventWithTarget) => {
-      const key = event.code || event.key;
-      const hasModifier =
-        event.altKey || event.shiftKey || event.ctrlKey || event.metaKey;
+      // Leave keys alone unless focus is within the player.
+      if (
+        hotkeysScope === 'focus' &&
+        !rootRef?.current?.contains(event.target as Node)
+      ) {
+        return;
+      }
 
-      // Bail if modifier key is pressed to allow browser shortcuts to function.
-      if (hasModifier) return;
+      const hotkey = getPlayerHotkey(event, PlayerKeymap, playing);
 
-      switch (key) {
-        case 'KeyS':
-          setPlaybackRate(playbackRate === 1 ? 2 : 1); // Toggle rate between 1 or 2.
-          break;
-        case 'KeyM':
-          toggleMute();
-          break;
-        case 'Space':
-          if (!['A', 'BUTTON'].includes(event.target.nodeName)) {
-            togglePlayPause();
-          }
-          break;
-        case 'KeyK':
+      if (!hotkey) return;
+
+      switch (hotkey.action) {
+        case 'togglePlayPause':
           togglePlayPause();
           break;
-        case 'KeyJ':
-          seekBy(-5);
+        case 'replay':
+          replay();
           break;
-        case 'KeyL':
-          seekBy(30);
+        case 'forward':
+          forward();
           break;
-        case 'ArrowLeft':
-          if (!['INPUT'].includes(event.target.nodeName)) {
-            seekBy(-5);
-          }
+        case 'seekBackward':
+          seekBy(-5);
           break;
-        case 'ArrowRight':
-          if (!['INPUT'].includes(event.target.nodeName)) {
-            seekBy(5);
-          }
+        case 'seekForward':
+          seekBy(5);
           break;
-        case 'Comma':
-          if (!playing) {
-            seekBy(-1 / 30);
-          }
+        case 'previousFrame':
+          seekBy(-1 / 30);
           break;
-        case 'Period':
-          if (!playing) {
-            seekBy(1 / 30);
-          }
+        case 'nextFrame':
+          seekBy(1 / 30);
           break;
-        case 'Home':
+        case 'seekToStart':
           seekTo(0);
           break;
-        case 'End':
+        case 'seekToEnd':
           seekToRelative(1);
           break;
-        case 'Digit1':
-          seekToRelative(0.1);
-          break;
-        case 'Digit2':
-          seekToRelative(0.2);
-          break;
-        case 'Digit3':
-          seekToRelative(0.3);
-          break;
-        case 'Digit4':
-          seekToRelative(0.4);
+        case 'seekToPercent':
+          seekToRelative(parseInt(event.code.replace('Digit', ''), 10) / 10);
           break;
-        case 'Digit5':
-          seekToRelative(0.5);
-          break;
-        case 'Digit6':
-          seekToRelative(0.6);
+        case 'previousTrack':
+          previousTrack();
           break;
-        case 'Digit7':
-          seekToRelative(0.7);
+        case 'nextTrack':
+          nextTrack();
           break;
-        case 'Digit8':
-          seekToRelative(0.8);
+        case 'toggleMute':
+          toggleMute();
           break;
-        case 'Digit9':
-          seekToRelative(0.9);
+        case 'volumeUp':
+          volumeUp();
           break;
-        case 'Digit0':
-          seekTo(0);
+        case 'volumeDown':
+          volumeDown();
           break;
-        case 'BracketLeft':
-          previousTrack();
+        case 'togglePlaybackRate':
+          // Toggle rate between normal and the last rate chosen.
+          setPlaybackRate(
+            playbackRate === 1 ? alternatePlaybackRate.current : 1
+          );
           break;
-        case 'BracketRight':
-          nextTrack();
+        case 'playbackRateUp':
+          playbackRateUp();
           break;
-        case 'Equal':
-          volumeUp();
+        case 'playbackRateDown':
+          playbackRateDown();
           break;
-        case 'Minus':
-          volumeDown();
+        case 'showHotkeys':
+          showHotkeys();
           break;
         default:
           break;
       }
     },
     [
+      forward,
+      hotkeysScope,
       playbackRate,
+      playbackRateDown,
+      playbackRateUp,
       playing,
+      replay,
+      rootRef,
       seekBy,
       seekTo,
       seekToRelative,
+      setPlaybackRate,
       volumeDown,
       volumeUp
     ]
   );
 
   useEffect(() => {
-    const audioElmTemp = audioElm;
+    const audioElmCurrent = audioElm.current;
+    // Ignore events from an element that has been swapped out for a
+    // preloaded track before these handlers are cleaned up.
+    const whenActive = (handler: () => void) => () => {
+      if (audioElmCurrent === audioElm.current) {
+        handler();
+      }
+    };
+    const audioListeners: [string, () => void][] = [
+      ['play', whenActive(handlePlay)],
+      ['playing', whenActive(handlePlaying)],
+      ['pause', whenActive(handlePause)],
+      ['error', whenActive(handleError)],
+      ['loadedmetadata', whenActive(handleLoadedMetadata)],
+      ['ended', whenActive(handleEnded)],
+      ['timeupdate', whenActive(handleTimeUpdate)]
+    ];
 
     // Setup event handlers on audio element.
-    audioElmTemp.current.addEventListener('play', handlePlay);
-    audioElmTemp.current.addEventListener('pause', handlePause);
-    audioElmTemp.current.addEventListener(
-      'loadedmetadata',
-      handleLoadedMetadata
-    );
-    audioElmTemp.current.addEventListener('ended', handleEnded);
+    audioListeners.forEach(([type, listener]) => {
+      audioElmCurrent.addEventListener(type, listener);
+    });
 
-    window.addEventListener('keydown', handleHotkey);
+    if (hotkeysScope !== 'off') {
+      window.addEventListener('keydown', handleHotkey);
+    }
 
     return () => {
       // Cleanup event handlers between dependency changes.
-      audioElmTemp.current.removeEventListener('play', handlePlay);
-      audioElmTemp.current.removeEventListener('pause', handlePause);
-      audioElmTemp.current.removeEventListener(
-        'loadedmetadata',
-        handleLoadedMetadata
-      );
-      audioElmTemp.current.removeEventListener('ended', handleEnded);
+      audioListeners.forEach(([type, listener]) => {
+        audioElmCurrent.removeEventListener(type, listener);
+      });
 
       window.removeEventListener('keydown', handleHotkey);
     };
   }, [
+    activeAudioIndex,
+    audioElmsKey,
     handleEnded,
+    handleError,
     handleHotkey,
     handleLoadedMetadata,
     handlePause,
-    handlePlay
+    handlePlay,
+    handlePlaying,
+    handleTimeUpdate,
+    hotkeysScope
   ]);
 
   useEffect(() => {
@@ -491,11 +1300,11 @@ const Player: React.FC<IPlayerProps> = ({
 
   useEffect(() => {
     audioElm.current.muted = muted;
-  }, [muted]);
+  }, [audioElmsKey, muted]);
 
   useEffect(() => {
     audioElm.current.volume = volume;
-  }, [volume]);
+  }, [audioElmsKey, volume]);
 
   useEffect(() => {
     audioElm.current.currentTime = currentTime;
@@ -503,12 +1312,85 @@ const Player: React.FC<IPlayerProps> = ({
 
   useEffect(() => {
     audioElm.current.playbackRate = playbackRate;
-  }, [playbackRate]);
+  }, [audioElmsKey, playbackRate]);
 
   useEffect(() => {
     loadAudio(currentTrackUrl);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentTrackUrl]);
+  }, [audioElmsKey, currentTrackUrl]);
+
+  useEffect(() => {
+    if (disablePersistence) return;
+
+    const preferences = getPlayerPreferences();
+
+    if (preferences.playbackRate && preferences.playbackRate !== 1) {
+      alternatePlaybackRate.current = preferences.playbackRate;
+    }
+
+    dispatch({
+      type: PlayerActionTypes.PLAYER_UPDATE_PREFERENCES,
+      payload: preferences
+    });
+    dispatch({
+      type: PlayerActionTypes.PLAYER_UPDATE_AUDIO_ENHANCEMENTS,
+      payload: getAudioEnhancements()
+    });
+    setPreferencesLoaded(true);
+  }, [disablePersistence]);
+
+  useEffect(() => {
+    // Wait for stored preferences so defaults don't overwrite them.
+    if (disablePersistence || !preferencesLoaded) return;
+
+    setPlayerPreferences({ volume, muted, playbackRate });
+  }, [disablePersistence, muted, playbackRate, preferencesLoaded, volume]);
+
+  useEffect(() => {
+    audioGraph.current?.update(audioEnhancements);
+  }, [audioEnhancements]);
+
+  useEffect(() => {
+    if (!hasAudioEnhancements || !currentTrackUrl) return undefined;
+
+    let cancelled = false;
+
+    (async () => {
+      const corsSupported =
+        audioCorsSupport.current.get(currentTrackUrl) ??
+        (await fetchAudioCorsSupport(currentTrackUrl));
+
+      audioCorsSupport.current.set(currentTrackUrl, corsSupported);
+
+      if (cancelled) return;
+
+      dispatch({
+        type: PlayerActionTypes.PLAYER_UPDATE_AUDIO_ENHANCEMENTS_UNAVAILABLE,
+        payload: !corsSupported
+      });
+
+      const isConnected = audioGraphSources.current.has(audioElm.current);
+
+      if (corsSupported && !isConnected) {
+        connectAudioGraph();
+      } else if (!corsSupported && isConnected) {
+        remountAudioElms();
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [audioElmsKey, currentTrackUrl, hasAudioEnhancements]);
+
+  useEffect(
+    () => () => {
+      // Release audio context when unmounting.
+      audioGraph.current?.close();
+    },
+    []
+  );
 
   useEffect(
     () => () => {
@@ -518,24 +1400,217 @@ const Player: React.FC<IPlayerProps> = ({
     [pauseAudio]
   );
 
+  useEffect(
+    () => () => {
+      // Stop retrying when the track changes or the player unmounts.
+      clearTimeout(retryTimeout.current);
+      errorTime.current = null;
+    },
+    [currentTrackGuid]
+  );
+
   useEffect(() => {
     setTracks(initialTracks);
   }, [initialTracks]);
 
+  useEffect(() => {
+    if (initialRepeatMode) {
+      setRepeatMode(initialRepeatMode);
+    }
+  }, [initialRepeatMode]);
+
+  useEffect(() => {
+    // Shuffle client side so server and client renders match.
+    if (initialShuffle !== undefined) {
+      setShuffle(initialShuffle);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialShuffle]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    const hasTracks = tracks.length > 1;
+
+    // Only offer track handlers when there is another track to go to.
+    setMediaSessionActionHandler(
+      'previoustrack',
+      hasTracks && hasPreviousTrack ? () => previousTrack() : null
+    );
+    setMediaSessionActionHandler(
+      'nexttrack',
+      hasTracks && hasNextTrack ? () => nextTrack() : null
+    );
+  }, [hasNextTrack, hasPreviousTrack, tracks.length]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    navigator.mediaSession.playbackState = playing ? 'playing' : 'paused';
+
+    // Wait for playback so embeds that never play don't take over the
+    // session.
+    if (playing) {
+      updateMediaSessionMetadata();
+    }
+  }, [playing, updateMediaSessionMetadata]);
+
+  useEffect(() => {
+    updateMediaPositionState();
+  }, [audioElmsKey, playbackRate, updateMediaPositionState]);
+
+  useEffect(() => {
+    setMediaChapterIndex(-1);
+  }, [currentTrackGuid]);
+
+  useEffect(() => {
+    // Highlights only bound their track until another track plays.
+    if (
+      tracks?.some(
+        ({ guid, highlight: isHighlight }) =>
+          isHighlight && guid !== currentTrackGuid
+      )
+    ) {
+      dispatch({ type: PlayerActionTypes.PLAYER_CLEAR_HIGHLIGHT });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentTrackGuid]);
+
+  useEffect(
+    () => () => {
+      if (!('mediaSession' in navigator)) return;
+
+      MEDIA_SESSION_ACTIONS.forEach((action) => {
+        setMediaSessionActionHandler(action, null);
+      });
+      navigator.mediaSession.metadata = null;
+      navigator.mediaSession.playbackState = 'none';
+    },
+    []
+  );
+
+  useEffect(() => {
+    dispatch({
+      type: PlayerActionTypes.PLAYER_UPDATE_PLAYBACK_POSITIONS,
+      payload: getPlaybackPositions(feedUrl)
+    });
+  }, [feedUrl]);
+
+  useEffect(() => {
+    // Clips always start at their start time.
+    if (isClip) {
+      seekTo(clipStart || 0);
+      return;
+    }
+
+    // Tracks crossfaded in are already playing from their start.
+    if (audioElm.current.currentTime >= 1) return;
+
+    // Restore unfinished tracks to where the listener left off.
+    const { currentTime: resumeTime, finished } =
+      playbackPositions?.[currentTrackGuid] || {};
+
+    if (!finished && resumeTime >= 1) {
+      dispatch({
+        type: PlayerActionTypes.PLAYER_RESUME_PLAYBACK_POSITION,
+        payload: resumeTime
+      });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentTrackGuid, !!playbackPositions]);
+
+  useEffect(() => {
+    if (!sleepTimer) return undefined;
+
+    const audioElmCurrent = audioElm.current;
+    const sleepTimerInterval = setInterval(() => {
+      const remaining = calculateSleepTimerRemaining(
+        sleepTimer,
+        audioElmCurrent.currentTime,
+        clipEnd || audioElmCurrent.duration || currentTrackDurationSeconds,
+        playbackRate
+      );
+
+      if (remaining === null) return;
+
+      if (remaining <= 0) {
+        pause();
+        clearSleepTimer();
+        return;
+      }
+
+      // Fade out volume over the final seconds before pausing.
+      audioElmCurrent.volume =
+        volume * Math.min(1, remaining / SLEEP_TIMER_FADE_SECONDS);
+    }, 250);
+
+    return () => {
+      clearInterval(sleepTimerInterval);
+      audioElmCurrent.volume = volume;
+    };
+  }, [
+    activeAudioIndex,
+    audioElmsKey,
+    clipEnd,
+    currentTrackDurationSeconds,
+    playbackRate,
+    sleepTimer,
+    volume
+  ]);
+
+  useEffect(() => {
+    // Chapter timers end at a time in the track they were set on.
+    if (sleepTimer?.type === 'chapters') {
+      clearSleepTimer();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentTrackGuid]);
+
+  useEffect(() => {
+    if (!chapters?.url || chaptersData) return;
+
+    (async () => {
+      const response = await fetchAudioChaptersData(currentTrack);
+
+      // Store failed or empty results too, so they aren't fetched again.
+      dispatch({
+        type: PlayerActionTypes.PLAYER_UPDATE_TRACK_CHAPTERS,
+        payload: { guid: currentTrackGuid, chapters: response || [] }
+      });
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentTrackGuid, chapters?.url]);
+
   return (
     audioElm && (
       <PlayerContext.Provider value={playerContextValue}>
-        {/* eslint-disable-next-line jsx-a11y/media-has-caption */}
-        <audio ref={audioElm}>
-          {transcript && (
-            <track
-              kind="captions"
-              src={`/api/proxy/transcript/vtt?u=${transcript.url}&cb=${duration}`}
-              default
-              key={transcript.url}
-            />
-          )}
-        </audio>
+        {[0, 1].map((index) => (
+          // eslint-disable-next-line jsx-a11y/media-has-caption
+          <audio
+            key={`${audioElmsKey}:${index}`}
+            ref={(elm) => {
+              if (!elm) return;
+
+              audioElms.current[index] = elm;
+
+              // Second element is used to preload the next track.
+              if (index === activeAudioIndex) {
+                audioElm.current = elm;
+              } else {
+                preloadAudioElm.current = elm;
+              }
+            }}
+          >
+            {index === activeAudioIndex && transcript && (
+              <track
+                kind="captions"
+                src={`/api/proxy/transcript/vtt?u=${transcript.url}&cb=${duration}`}
+                default
+                key={transcript.url}
+              />
+            )}
+          </audio>
+        ))}
         {children}
       </PlayerContext.Provider>
     )
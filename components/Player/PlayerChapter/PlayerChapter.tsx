@@ -0,0 +1,87 @@
+/**
+ * @file PlayerChapter.tsx
+ * Component to display the title of the currently playing chapter, with
+ * controls to skip between chapters.
+ */
+
+import type React from 'react';
+import type { IAudioData } from '@interfaces/data/IAudioData';
+import { useCallback, useContext, useEffect, useState } from 'react';
+import clsx from 'clsx';
+import PlayerContext from '@contexts/PlayerContext';
+import IconButton from '@components/IconButton';
+import Marquee from '@components/Marquee';
+import getChapterIndexAtTime from '@lib/parse/data/getChapterIndexAtTime';
+import PreviousIcon from '@svg/icons/Previous.svg';
+import NextIcon from '@svg/icons/Next.svg';
+import styles from './PlayerChapter.module.scss';
+
+export interface IPlayerChapterProps {
+  className?: string;
+}
+
+const PlayerChapter: React.FC<IPlayerChapterProps> = ({ className }) => {
+  const { audioElm, state, previousChapter, nextChapter } =
+    useContext(PlayerContext);
+  const { tracks, currentTrackIndex } = state;
+  const { chaptersData } = tracks[currentTrackIndex] || ({} as IAudioData);
+  const [chapterIndex, setChapterIndex] = useState(-1);
+  const chapter = chaptersData?.[chapterIndex];
+  const isLastChapter = chapterIndex === (chaptersData?.length || 0) - 1;
+
+  const handleUpdate = useCallback(() => {
+    setChapterIndex(
+      getChapterIndexAtTime(chaptersData, audioElm?.currentTime || 0)
+    );
+  }, [audioElm, chaptersData]);
+
+  const handlePreviousClick = () => {
+    previousChapter();
+  };
+
+  const handleNextClick = () => {
+    nextChapter();
+  };
+
+  /**
+   * Setup audio element event handlers.
+   */
+  useEffect(() => {
+    handleUpdate();
+
+    audioElm?.addEventListener('timeupdate', handleUpdate);
+
+    return () => {
+      audioElm?.removeEventListener('timeupdate', handleUpdate);
+    };
+  }, [audioElm, handleUpdate]);
+
+  if (!chaptersData?.length) return null;
+
+  return (
+    <div className={clsx(styles.root, className)}>
+      <IconButton
+        className={styles.button}
+        title="Previous Chapter"
+        type="button"
+        onClick={handlePreviousClick}
+      >
+        <PreviousIcon />
+      </IconButton>
+      <span className={styles.title} title={chapter?.title}>
+        <Marquee>{chapter?.title || 'Chapters'}</Marquee>
+      </span>
+      <IconButton
+        className={styles.button}
+        title="Next Chapter"
+        type="button"
+        onClick={handleNextClick}
+        disabled={isLastChapter}
+      >
+        <NextIcon />
+      </IconButton>
+    </div>
+  );
+};
+
+export default PlayerChapter;
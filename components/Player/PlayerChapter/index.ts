@@ -0,0 +1,3 @@
+import PlayerChapter from './PlayerChapter';
+
+export default PlayerChapter;
@@ -0,0 +1,54 @@
+/**
+ * @file PlayerError.tsx
+ * Overlay explaining why playback failed, with a button to try again.
+ */
+
+import type React from 'react';
+import type { PlayerErrorReason } from '@interfaces/states/player';
+import { useContext } from 'react';
+import clsx from 'clsx';
+import PlayerContext from '@contexts/PlayerContext';
+import ErrorOutlineIcon from '@svg/icons/ErrorOutline.svg';
+import styles from './PlayerError.module.scss';
+
+const errorMessages: Record<PlayerErrorReason, string> = {
+  network: 'The audio could not be loaded. Check your connection.',
+  decode: 'The audio file could not be played.',
+  unsupported: 'The audio format is not supported by this browser.',
+  autoplay: 'Playback was blocked by the browser.'
+};
+
+export interface IPlayerErrorProps {
+  className?: string;
+}
+
+const PlayerError: React.FC<IPlayerErrorProps> = ({ className }) => {
+  const { state, retry } = useContext(PlayerContext);
+  const { error } = state;
+
+  const handleRetryClick = () => {
+    retry();
+  };
+
+  if (!error) return null;
+
+  return (
+    <div className={clsx(styles.root, className)} role="alert">
+      <ErrorOutlineIcon className={styles.icon} aria-hidden />
+      <p className={styles.message}>{errorMessages[error.reason]}</p>
+      {error.retrying ? (
+        <p className={styles.status}>Retrying...</p>
+      ) : (
+        <button
+          type="button"
+          className={styles.button}
+          onClick={handleRetryClick}
+        >
+          {error.reason === 'autoplay' ? 'Play' : 'Try Again'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PlayerError;
@@ -0,0 +1,3 @@
+import PlayerError from './PlayerError';
+
+export default PlayerError;
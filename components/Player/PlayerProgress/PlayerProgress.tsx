@@ -49,21 +49,47 @@ const PlayerProgress: React.FC<IPlayerProgressProps> = ({
     currentTrackIndex,
     tracks,
     playing,
+    playbackRate,
     currentTime: playerCurrentTime
   } = playerState;
-  const { duration: trackDuration } =
-    tracks[currentTrackIndex] || ({} as IAudioData);
+  const {
+    duration: trackDuration,
+    chaptersData,
+    clipStart,
+    clipEnd
+  } = tracks[currentTrackIndex] || ({} as IAudioData);
+  const isClip = !!(clipStart || clipEnd);
   const [progressStyles, setProgressStyles] = useState({});
-  const totalDuration = duration
-    ? convertSecondsToDuration(Math.round(duration))
-    : convertSecondsToDuration(trackDuration);
-  const totalDurationSeconds =
+  const trackDurationSeconds =
     duration || convertDurationToSeconds(trackDuration);
+  const clipStartSeconds = clipStart || 0;
+  const totalDurationSeconds = isClip
+    ? (clipEnd || trackDurationSeconds) - clipStartSeconds
+    : trackDurationSeconds;
+  const totalDuration =
+    duration || isClip
+      ? convertSecondsToDuration(Math.round(totalDurationSeconds))
+      : convertSecondsToDuration(trackDuration);
   const currentDuration = convertSecondsToDuration(
     Math.round(
       scrubPosition ? scrubPosition * totalDurationSeconds : playedSeconds
     )
   );
+  // Listening time left changes with the playback rate.
+  const remainingDuration =
+    playbackRate !== 1 &&
+    totalDurationSeconds > 0 &&
+    convertSecondsToDuration(
+      Math.round(
+        Math.max(
+          0,
+          totalDurationSeconds -
+            (scrubPosition
+              ? scrubPosition * totalDurationSeconds
+              : playedSeconds || 0)
+        ) / playbackRate
+      )
+    );
   const progress =
     scrubPosition || played || playedSeconds / totalDurationSeconds || 0;
 
@@ -98,7 +124,14 @@ const PlayerProgress: React.FC<IPlayerProgressProps> = ({
   const updateProgress = useCallback(
     (seconds?: number) => {
       const { currentTime: ct, duration: d } = audioElm;
-      const updatedPlayed = seconds || seconds === 0 ? seconds : ct;
+      // Progress of clips is relative to the clip start time.
+      const updatedPlayed = Math.max(
+        0,
+        (seconds || seconds === 0 ? seconds : ct) - clipStartSeconds
+      );
+      const rangeSeconds = isClip
+        ? (clipEnd || d || trackDurationSeconds) - clipStartSeconds
+        : d || totalDurationSeconds;
 
       updateProgressStyles();
 
@@ -107,11 +140,19 @@ const PlayerProgress: React.FC<IPlayerProgressProps> = ({
         payload: {
           duration: d,
           playedSeconds: updatedPlayed,
-          played: updatedPlayed / (d || totalDurationSeconds)
+          played: Math.min(updatedPlayed / rangeSeconds, 1)
         }
       });
     },
-    [audioElm, totalDurationSeconds, updateProgressStyles]
+    [
+      audioElm,
+      clipEnd,
+      clipStartSeconds,
+      isClip,
+      totalDurationSeconds,
+      trackDurationSeconds,
+      updateProgressStyles
+    ]
   );
 
   /**
@@ -158,14 +199,20 @@ const PlayerProgress: React.FC<IPlayerProgressProps> = ({
    * @param e Pointer Event
    */
   const handlePointerUp = useCallback(() => {
-    seekTo(scrubPosition * totalDurationSeconds);
+    seekTo(clipStartSeconds + scrubPosition * totalDurationSeconds);
 
     dispatch({
       type: PlayerActionTypes.PLAYER_UPDATE_PROGRESS_TO_SCRUB_POSITION
     });
 
     trackRef.current.removeEventListener('pointermove', handlePointerMove);
-  }, [totalDurationSeconds, handlePointerMove, scrubPosition, seekTo]);
+  }, [
+    clipStartSeconds,
+    totalDurationSeconds,
+    handlePointerMove,
+    scrubPosition,
+    seekTo
+  ]);
 
   /**
    * Window resize handler.
@@ -204,6 +251,11 @@ const PlayerProgress: React.FC<IPlayerProgressProps> = ({
   useEffect(() => {
     audioElm?.addEventListener('loadedmetadata', handleLoadedMetadata);
 
+    // Preloaded audio elements have loaded metadata before they are swapped in.
+    if (audioElm?.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      handleLoadedMetadata();
+    }
+
     return () => {
       audioElm?.removeEventListener('loadedmetadata', handleLoadedMetadata);
     };
@@ -236,8 +288,38 @@ const PlayerProgress: React.FC<IPlayerProgressProps> = ({
           className={styles.track}
           style={{ ...progressStyles, '--progress': progress } as CSSProperties}
           ref={trackRef}
-        />
-        <div className={styles.duration}>{totalDuration}</div>
+        >
+          {!!totalDurationSeconds &&
+            chaptersData
+              ?.filter(
+                ({ startTime }) =>
+                  startTime > clipStartSeconds &&
+                  startTime < clipStartSeconds + totalDurationSeconds
+              )
+              .map(({ startTime, title }) => (
+                <span
+                  className={styles.chapterMarker}
+                  style={
+                    {
+                      '--chapter-position':
+                        (startTime - clipStartSeconds) / totalDurationSeconds
+                    } as CSSProperties
+                  }
+                  title={title}
+                  key={startTime}
+                />
+              ))}
+        </div>
+        {remainingDuration ? (
+          <div
+            className={styles.duration}
+            title={`Time remaining at ${playbackRate}x speed`}
+          >
+            -{remainingDuration}
+          </div>
+        ) : (
+          <div className={styles.duration}>{totalDuration}</div>
+        )}
       </div>
     </>
   );
@@ -0,0 +1,52 @@
+/**
+ * @file PlayerResume.tsx
+ * Component offering to resume the current track from its last played time.
+ */
+
+import type React from 'react';
+import { useContext } from 'react';
+import clsx from 'clsx';
+import PlayerContext from '@contexts/PlayerContext';
+import convertSecondsToDuration from '@lib/convert/string/convertSecondsToDuration';
+import styles from './PlayerResume.module.scss';
+
+export interface IPlayerResumeProps {
+  className?: string;
+}
+
+const PlayerResume: React.FC<IPlayerResumeProps> = ({ className }) => {
+  const { state, play, seekTo } = useContext(PlayerContext);
+  const { resumeTime } = state;
+
+  const handleResumeClick = () => {
+    play();
+  };
+
+  const handleStartOverClick = () => {
+    seekTo(0);
+    play();
+  };
+
+  if (!resumeTime) return null;
+
+  return (
+    <div className={clsx(styles.root, className)}>
+      <button
+        type="button"
+        className={clsx(styles.button, styles.resume)}
+        onClick={handleResumeClick}
+      >
+        Resume from {convertSecondsToDuration(Math.floor(resumeTime))}
+      </button>
+      <button
+        type="button"
+        className={styles.button}
+        onClick={handleStartOverClick}
+      >
+        Start Over
+      </button>
+    </div>
+  );
+};
+
+export default PlayerResume;
@@ -0,0 +1,3 @@
+import PlayerResume from './PlayerResume';
+
+export default PlayerResume;
@@ -12,13 +12,15 @@ export interface IPlayerShareEmailButtonProps
   extends React.ButtonHTMLAttributes<HTMLButtonElement> {}
 
 const PlayerShareEmailButton: React.FC<IPlayerShareEmailButtonProps> = ({
-  className
+  className,
+  onClick
 }) => {
   const { state } = useContext(PlayerContext);
   const { currentTrackIndex, tracks } = state;
   const { link, title } = tracks[currentTrackIndex];
   const params = {
     className,
+    onClick,
     url: link,
     subject: title,
     body: `Check out this podcast episode! ${link}`
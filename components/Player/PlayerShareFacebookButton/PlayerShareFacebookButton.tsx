@@ -12,7 +12,8 @@ export interface IPlayerShareFacebookButtonProps
   extends React.ButtonHTMLAttributes<HTMLButtonElement> {}
 
 const PlayerShareFacebookButton: React.FC<IPlayerShareFacebookButtonProps> = ({
-  className
+  className,
+  onClick
 }) => {
   const { state } = useContext(PlayerContext);
   const { currentTrackIndex, tracks } = state;
@@ -22,6 +23,7 @@ const PlayerShareFacebookButton: React.FC<IPlayerShareFacebookButtonProps> = ({
     <ShareFacebookButton
       title="Share on Facebook"
       className={className}
+      onClick={onClick}
       url={link}
     />
   );
@@ -4,6 +4,7 @@
  */
 
 import type React from 'react';
+import type { EmbedAnalyticsShareMethod } from '@interfaces/embed';
 import clsx from 'clsx';
 import Modal, { IModalProps } from '@components/Modal/Modal';
 import MenuButton from '@components/MenuButton';
@@ -22,6 +23,8 @@ export interface IPlayerShareMenuProps extends IModalProps {
   className?: string;
   embedHtml?: string;
   downloadable?: boolean;
+  // eslint-disable-next-line no-unused-vars
+  onShare?(method: EmbedAnalyticsShareMethod): void;
 }
 
 const PlayerShareMenu: React.FC<IPlayerShareMenuProps> = ({
@@ -31,12 +34,17 @@ const PlayerShareMenu: React.FC<IPlayerShareMenuProps> = ({
   portalId,
   embedHtml,
   downloadable = true,
-  className
+  className,
+  onShare
 }) => {
   const handleClick = () => {
     onOpen();
   };
 
+  const handleShareClick = (method: EmbedAnalyticsShareMethod) => () => {
+    onShare?.(method);
+  };
+
   return (
     <>
       <IconButton
@@ -49,21 +57,24 @@ const PlayerShareMenu: React.FC<IPlayerShareMenuProps> = ({
       </IconButton>
       <Modal onClose={onClose} isOpen={isOpen} portalId={portalId}>
         <nav className={styles.nav}>
-          <PlayerShareFacebookButton />
+          <PlayerShareFacebookButton onClick={handleShareClick('facebook')} />
 
-          <PlayerShareTwitterButton />
+          <PlayerShareTwitterButton onClick={handleShareClick('twitter')} />
 
-          <PlayerShareEmailButton />
+          <PlayerShareEmailButton onClick={handleShareClick('email')} />
 
-          <CopyLinkButton />
+          <CopyLinkButton onClick={handleShareClick('link')} />
 
-          {downloadable && <FileDownloadButton />}
+          {downloadable && (
+            <FileDownloadButton onClick={handleShareClick('download')} />
+          )}
 
           {embedHtml && (
             <MenuButton
               action="clipboard"
               clipboardText={embedHtml}
               label="Embed Code"
+              onClick={handleShareClick('embed')}
             >
               <CodeIcon />
             </MenuButton>
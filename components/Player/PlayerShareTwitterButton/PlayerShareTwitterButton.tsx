@@ -12,13 +12,21 @@ export interface IPlayerShareTwitterButtonProps
   extends React.ButtonHTMLAttributes<HTMLButtonElement> {}
 
 const PlayerShareTwitterButton: React.FC<IPlayerShareTwitterButtonProps> = ({
-  className
+  className,
+  onClick
 }) => {
   const { state } = useContext(PlayerContext);
   const { currentTrackIndex, tracks } = state;
   const { link, title } = tracks[currentTrackIndex];
 
-  return <ShareTwitterButton className={className} url={link} text={title} />;
+  return (
+    <ShareTwitterButton
+      className={className}
+      onClick={onClick}
+      url={link}
+      text={title}
+    />
+  );
 };
 
 export default PlayerShareTwitterButton;
@@ -10,6 +10,8 @@ import clsx from 'clsx';
 import PlayerContext from '@contexts/PlayerContext';
 import ThemeVars from '@components/ThemeVars';
 import Marquee from '@components/Marquee';
+import PlayerChapter from '@components/Player/PlayerChapter';
+import PlayerResume from '@components/Player/PlayerResume';
 import ExplicitIcon from '@svg/icons/Explicit.svg';
 import styles from './PlayerText.module.scss';
 
@@ -17,8 +19,8 @@ export interface IPlayerTextProps {}
 
 const PlayerText: React.FC<IPlayerTextProps> = () => {
   const { state } = useContext(PlayerContext);
-  const { tracks, currentTrackIndex } = state;
-  const { title, subtitle, explicit } =
+  const { tracks, currentTrackIndex, resumeTime } = state;
+  const { title, subtitle, explicit, chaptersData } =
     tracks[currentTrackIndex] || ({} as IAudioData);
 
   const wrapWords = (text: string) =>
@@ -27,6 +29,22 @@ const PlayerText: React.FC<IPlayerTextProps> = () => {
       <span key={`${word}:${i}`}>{word}</span>
     ));
 
+  const renderSubtitle = () => {
+    if (resumeTime) {
+      return <PlayerResume className={styles.resume} />;
+    }
+
+    if (chaptersData?.length) {
+      return <PlayerChapter className={styles.chapter} />;
+    }
+
+    return (
+      <p title={subtitle} className={styles.subtitle}>
+        {wrapWords(subtitle)}
+      </p>
+    );
+  };
+
   return (
     <div className={clsx(styles.root, { [styles.isExplicit]: explicit })}>
       <ThemeVars theme="PlayerText" cssProps={styles} />
@@ -34,9 +52,7 @@ const PlayerText: React.FC<IPlayerTextProps> = () => {
       <h2 className={styles.title} title={title}>
         <Marquee>{title}</Marquee>
       </h2>
-      <p title={subtitle} className={styles.subtitle}>
-        {wrapWords(subtitle)}
-      </p>
+      {renderSubtitle()}
     </div>
   );
 };
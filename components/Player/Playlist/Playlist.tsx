@@ -13,6 +13,8 @@ import formatDurationParts from '@lib/format/time/formatDurationParts';
 import sumDurationParts from '@lib/math/time/sumDurationParts';
 import PlayerContext from '@contexts/PlayerContext';
 import PrxImage from '@components/PrxImage';
+import RepeatButton from '@components/Player/RepeatButton';
+import ShuffleButton from '@components/Player/ShuffleButton';
 import ThemeVars from '@components/ThemeVars';
 import ExplicitIcon from '@svg/icons/Explicit.svg';
 import SwapVertIcon from '@svg/icons/SwapVert.svg';
@@ -22,9 +24,19 @@ export interface IPlaylistProps
   extends React.DetailedHTMLProps<
     React.HTMLAttributes<HTMLDivElement>,
     HTMLDivElement
-  > {}
+  > {
+  /**
+   * Called with the height the playlist needs to show every track.
+   */
+  // eslint-disable-next-line no-unused-vars
+  onContentResize?(height: number): void;
+}
 
-const Playlist: React.FC<IPlaylistProps> = ({ className, ...props }) => {
+const Playlist: React.FC<IPlaylistProps> = ({
+  className,
+  onContentResize,
+  ...props
+}) => {
   const {
     imageUrl: defaultThumbUrl,
     state,
@@ -33,6 +45,9 @@ const Playlist: React.FC<IPlaylistProps> = ({ className, ...props }) => {
   } = useContext(PlayerContext);
   const { tracks, currentTrackIndex } = state;
   const rootRef = useRef(null);
+  const headerRef = useRef<HTMLElement>();
+  const tracksRef = useRef<HTMLDivElement>();
+  const hasTracks = !!tracks;
   const [playlistStyles, setPlaylistStyles] = useState({});
   const [reversed, setReversed] = useState(false);
   const playlistDurationsInt = tracks?.map(({ duration }) =>
@@ -79,11 +94,28 @@ const Playlist: React.FC<IPlaylistProps> = ({ className, ...props }) => {
     };
   }, [handleResize, updatePlaylistStyles]);
 
+  useEffect(() => {
+    if (!onContentResize || !hasTracks) return undefined;
+
+    const observer = new ResizeObserver(() => {
+      onContentResize(
+        headerRef.current.offsetHeight + tracksRef.current.offsetHeight
+      );
+    });
+
+    observer.observe(headerRef.current);
+    observer.observe(tracksRef.current);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [hasTracks, onContentResize]);
+
   return (
     tracks && (
       <div {...props} className={clsx(styles.root, className)}>
         <ThemeVars theme="Playlist" cssProps={styles} />
-        <header className={styles.header}>
+        <header ref={headerRef} className={styles.header}>
           <button
             type="button"
             className={styles.button}
@@ -100,10 +132,14 @@ const Playlist: React.FC<IPlaylistProps> = ({ className, ...props }) => {
             </span>
             {tracks?.length === 1 ? '1 Episode' : `${tracks.length} Episodes`}
           </button>
-          <span>{playlistDurationString}</span>
+          <span className={styles.headerControls}>
+            <ShuffleButton />
+            <RepeatButton />
+            <span>{playlistDurationString}</span>
+          </span>
         </header>
         <div ref={rootRef} className={styles.playlist} style={playlistStyles}>
-          <div className={styles.tracks}>
+          <div ref={tracksRef} className={styles.tracks}>
             {tracks.map((track, index) => {
               const { guid, title, imageUrl, duration, explicit } = track;
               const thumbSrc = imageUrl || defaultThumbUrl;
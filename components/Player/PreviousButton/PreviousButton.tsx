@@ -7,13 +7,22 @@ import type React from 'react';
 import { useContext } from 'react';
 import PlayerContext from '@contexts/PlayerContext';
 import IconButton from '@components/IconButton';
+import getAdjacentTrackIndex from '@lib/parse/data/getAdjacentTrackIndex';
 import PreviousIcon from '@svg/icons/Previous.svg';
 
 export interface IPreviousButtonProps
   extends React.ButtonHTMLAttributes<HTMLButtonElement> {}
 
 const PreviousButton: React.FC<IPreviousButtonProps> = ({ ...props }) => {
-  const { previousTrack } = useContext(PlayerContext);
+  const { state, previousTrack } = useContext(PlayerContext);
+  const { tracks, currentTrackIndex, repeatMode, shuffleOrder } = state;
+  const adjacentTrackIndex = getAdjacentTrackIndex(
+    tracks,
+    currentTrackIndex,
+    -1,
+    repeatMode,
+    shuffleOrder
+  );
 
   const handleClick = () => {
     previousTrack();
@@ -21,6 +30,7 @@ const PreviousButton: React.FC<IPreviousButtonProps> = ({ ...props }) => {
 
   return (
     <IconButton
+      disabled={adjacentTrackIndex === -1}
       title="Play Previous Track ([)"
       {...props}
       type="button"
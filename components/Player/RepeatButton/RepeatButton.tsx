@@ -0,0 +1,58 @@
+/**
+ * @file RepeatButton.tsx
+ * Repeat button component to cycle through player repeat modes.
+ */
+
+import type React from 'react';
+import type { PlayerRepeatMode } from '@interfaces/states/player';
+import { useContext } from 'react';
+import clsx from 'clsx';
+import PlayerContext from '@contexts/PlayerContext';
+import IconButton from '@components/IconButton';
+import RepeatIcon from '@svg/icons/Repeat.svg';
+import RepeatOneIcon from '@svg/icons/RepeatOne.svg';
+import styles from './RepeatButton.module.scss';
+
+export interface IRepeatButtonProps
+  extends React.ButtonHTMLAttributes<HTMLButtonElement> {}
+
+const nextRepeatModes: Record<PlayerRepeatMode, PlayerRepeatMode> = {
+  off: 'all',
+  all: 'one',
+  one: 'off'
+};
+
+const repeatModeTitles: Record<PlayerRepeatMode, string> = {
+  off: 'Repeat All',
+  all: 'Repeat Episode',
+  one: 'Turn Off Repeat'
+};
+
+const RepeatButton: React.FC<IRepeatButtonProps> = ({
+  className,
+  ...props
+}) => {
+  const { state, setRepeatMode } = useContext(PlayerContext);
+  const { repeatMode } = state;
+
+  const handleClick = () => {
+    setRepeatMode(nextRepeatModes[repeatMode]);
+  };
+
+  return (
+    <IconButton
+      title={repeatModeTitles[repeatMode]}
+      aria-pressed={repeatMode !== 'off'}
+      {...props}
+      className={clsx(styles.root, className, {
+        [styles.isActive]: repeatMode !== 'off'
+      })}
+      type="button"
+      onClick={handleClick}
+    >
+      {repeatMode === 'one' ? <RepeatOneIcon /> : <RepeatIcon />}
+    </IconButton>
+  );
+};
+
+export default RepeatButton;
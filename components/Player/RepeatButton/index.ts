@@ -0,0 +1,3 @@
+import RepeatButton from './RepeatButton';
+
+export default RepeatButton;
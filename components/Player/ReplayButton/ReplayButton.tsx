@@ -1,19 +1,24 @@
 /**
  * @file ReplayButton.tsx
- * Jump 5 seconds back in currently playing track.
+ * Jump back the skip back interval in currently playing track.
  */
 
 import type React from 'react';
 import { useContext } from 'react';
+import clsx from 'clsx';
 import PlayerContext from '@contexts/PlayerContext';
 import IconButton from '@components/IconButton';
 import ReplayIcon from '@svg/icons/Replay.svg';
+import styles from './ReplayButton.module.scss';
 
 export interface IReplayButtonProps
   extends React.ButtonHTMLAttributes<HTMLButtonElement> {}
 
-const ReplayButton: React.FC<IReplayButtonProps> = ({ ...props }) => {
-  const { replay } = useContext(PlayerContext);
+const ReplayButton: React.FC<IReplayButtonProps> = ({
+  className,
+  ...props
+}) => {
+  const { replay, skipBackSeconds } = useContext(PlayerContext);
 
   const handleClick = () => {
     replay();
@@ -21,12 +26,16 @@ const ReplayButton: React.FC<IReplayButtonProps> = ({ ...props }) => {
 
   return (
     <IconButton
-      title="Replay Last 5 Seconds (j)"
+      title={`Replay Last ${skipBackSeconds} Seconds (j)`}
       {...props}
+      className={clsx(styles.root, className)}
       type="button"
       onClick={handleClick}
     >
       <ReplayIcon />
+      <span className={styles.seconds} aria-hidden>
+        {skipBackSeconds}
+      </span>
     </IconButton>
   );
 };
@@ -0,0 +1,44 @@
+/**
+ * @file ShuffleButton.tsx
+ * Shuffle button component to toggle shuffled play order of player tracks.
+ */
+
+import type React from 'react';
+import { useContext } from 'react';
+import clsx from 'clsx';
+import PlayerContext from '@contexts/PlayerContext';
+import IconButton from '@components/IconButton';
+import ShuffleIcon from '@svg/icons/Shuffle.svg';
+import styles from './ShuffleButton.module.scss';
+
+export interface IShuffleButtonProps
+  extends React.ButtonHTMLAttributes<HTMLButtonElement> {}
+
+const ShuffleButton: React.FC<IShuffleButtonProps> = ({
+  className,
+  ...props
+}) => {
+  const { state, setShuffle } = useContext(PlayerContext);
+  const isShuffled = !!state.shuffleOrder;
+
+  const handleClick = () => {
+    setShuffle(!isShuffled);
+  };
+
+  return (
+    <IconButton
+      title={isShuffled ? 'Turn Off Shuffle' : 'Shuffle Episodes'}
+      aria-pressed={isShuffled}
+      {...props}
+      className={clsx(styles.root, className, {
+        [styles.isActive]: isShuffled
+      })}
+      type="button"
+      onClick={handleClick}
+    >
+      <ShuffleIcon />
+    </IconButton>
+  );
+};
+
+export default ShuffleButton;
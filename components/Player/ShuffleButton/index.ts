@@ -0,0 +1,3 @@
+import ShuffleButton from './ShuffleButton';
+
+export default ShuffleButton;
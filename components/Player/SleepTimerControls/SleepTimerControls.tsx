@@ -0,0 +1,84 @@
+/**
+ * @file SleepTimerControls.tsx
+ * Provide controls to set a sleep timer.
+ */
+
+import type React from 'react';
+import type { IAudioData } from '@interfaces/data';
+import type { PlayerSleepTimerType } from '@interfaces/states/player';
+import { ChangeEvent, useContext } from 'react';
+import clsx from 'clsx';
+import PlayerContext from '@contexts/PlayerContext';
+import RadioGroup, { RadioGroupOption } from '@components/RadioGroup';
+import styles from './SleepTimerControls.module.scss';
+
+export type SleepTimerControlsProps = {
+  className?: string;
+};
+
+const SleepTimerControls: React.FC<SleepTimerControlsProps> = ({
+  className
+}) => {
+  const { state, setSleepTimer, clearSleepTimer } = useContext(PlayerContext);
+  const { sleepTimer, tracks, currentTrackIndex } = state;
+  const { chaptersData } = tracks[currentTrackIndex] || ({} as IAudioData);
+  const sleepTimerOptions: RadioGroupOption[] = [
+    {
+      value: 'off',
+      label: 'Off',
+      labelProps: { 'aria-label': 'Sleep timer off' }
+    },
+    ...[15, 30, 45, 60].map((minutes) => ({
+      value: `minutes:${minutes}`,
+      label: `${minutes}m`,
+      labelProps: { 'aria-label': `${minutes} minutes` }
+    })),
+    {
+      value: 'episode',
+      label: 'End',
+      labelProps: { 'aria-label': 'End of episode' }
+    },
+    ...(chaptersData?.length > 1
+      ? [1, 2, 3].map((chapters) => ({
+          value: `chapters:${chapters}`,
+          label: `${chapters} Ch`,
+          labelProps: {
+            'aria-label':
+              chapters === 1 ? 'End of chapter' : `End of ${chapters} chapters`
+          }
+        }))
+      : [])
+  ];
+  const sleepTimerValue = sleepTimer
+    ? [sleepTimer.type, sleepTimer.value].filter((v) => !!v).join(':')
+    : 'off';
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const { target } = e;
+    const [type, value] = target.value.split(':');
+
+    if (!target.checked) return;
+
+    if (type === 'off') {
+      clearSleepTimer();
+    } else {
+      setSleepTimer(
+        type as PlayerSleepTimerType,
+        value ? parseInt(value, 10) : undefined
+      );
+    }
+  };
+
+  return (
+    <RadioGroup
+      className={clsx(styles.root, className)}
+      options={sleepTimerOptions}
+      defaultValue="off"
+      value={sleepTimerValue}
+      name="SleepTimer"
+      onChange={handleChange}
+    />
+  );
+};
+
+export default SleepTimerControls;
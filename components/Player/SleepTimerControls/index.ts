@@ -0,0 +1,3 @@
+import SleepTimerControls from './SleepTimerControls';
+
+export default SleepTimerControls;
@@ -0,0 +1,77 @@
+/**
+ * @file SleepTimerCountdown.tsx
+ * Display time remaining on the sleep timer.
+ */
+
+import type React from 'react';
+import type { IAudioData } from '@interfaces/data';
+import { useContext, useEffect, useState } from 'react';
+import clsx from 'clsx';
+import PlayerContext from '@contexts/PlayerContext';
+import convertDurationToSeconds from '@lib/convert/string/convertDurationToSeconds';
+import convertSecondsToDuration from '@lib/convert/string/convertSecondsToDuration';
+import calculateSleepTimerRemaining from '@lib/math/time/calculateSleepTimerRemaining';
+import BedtimeIcon from '@svg/icons/Bedtime.svg';
+import styles from './SleepTimerCountdown.module.scss';
+
+export interface ISleepTimerCountdownProps {
+  className?: string;
+}
+
+const SleepTimerCountdown: React.FC<ISleepTimerCountdownProps> = ({
+  className
+}) => {
+  const { audioElm, state, clearSleepTimer } = useContext(PlayerContext);
+  const { sleepTimer, playbackRate, tracks, currentTrackIndex } = state;
+  const { duration, clipEnd } = tracks[currentTrackIndex] || ({} as IAudioData);
+  const [remaining, setRemaining] = useState<number>(null);
+
+  const handleClick = () => {
+    clearSleepTimer();
+  };
+
+  /**
+   * Update remaining time every second while the timer is set.
+   */
+  useEffect(() => {
+    if (!sleepTimer) return undefined;
+
+    const updateRemaining = () => {
+      setRemaining(
+        calculateSleepTimerRemaining(
+          sleepTimer,
+          audioElm?.currentTime,
+          clipEnd || audioElm?.duration || convertDurationToSeconds(duration),
+          playbackRate
+        )
+      );
+    };
+    const updateInterval = setInterval(updateRemaining, 1000);
+
+    updateRemaining();
+
+    return () => {
+      clearInterval(updateInterval);
+    };
+  }, [audioElm, clipEnd, duration, playbackRate, sleepTimer]);
+
+  if (!sleepTimer) return null;
+
+  return (
+    <button
+      type="button"
+      className={clsx(styles.root, className)}
+      title="Cancel Sleep Timer"
+      onClick={handleClick}
+    >
+      <BedtimeIcon aria-hidden="true" />
+      <span aria-label="Sleep timer remaining">
+        {remaining !== null
+          ? convertSecondsToDuration(Math.ceil(remaining))
+          : '--:--'}
+      </span>
+    </button>
+  );
+};
+
+export default SleepTimerCountdown;
@@ -0,0 +1,3 @@
+import SleepTimerCountdown from './SleepTimerCountdown';
+
+export default SleepTimerCountdown;
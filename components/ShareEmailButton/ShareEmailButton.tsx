@@ -16,6 +16,7 @@ export interface IShareEmailButtonProps
 
 const ShareEmailButton: React.FC<IShareEmailButtonProps> = ({
   className,
+  onClick,
   url,
   subject,
   body
@@ -31,6 +32,7 @@ const ShareEmailButton: React.FC<IShareEmailButtonProps> = ({
   return (
     <MenuButton
       className={className}
+      onClick={onClick}
       action="link"
       label="Share via email"
       type="button"
@@ -15,6 +15,7 @@ export interface IShareFacebookButtonProps
 
 const ShareFacebookButton: React.FC<IShareFacebookButtonProps> = ({
   className,
+  onClick,
   url
 }) => {
   if (!url) return null;
@@ -27,6 +28,7 @@ const ShareFacebookButton: React.FC<IShareFacebookButtonProps> = ({
   return (
     <MenuButton
       className={className}
+      onClick={onClick}
       action="link"
       label="Share on Facebook"
       type="button"
@@ -16,6 +16,7 @@ export interface IShareTwitterButtonProps
 
 const ShareTwitterButton: React.FC<IShareTwitterButtonProps> = ({
   className,
+  onClick,
   url,
   text
 }) => {
@@ -30,6 +31,7 @@ const ShareTwitterButton: React.FC<IShareTwitterButtonProps> = ({
   return (
     <MenuButton
       className={className}
+      onClick={onClick}
       action="link"
       label="Share on Twitter"
       type="button"
@@ -32,6 +32,15 @@ function Slider({ className, defaultValue, ...rest }: SliderProps) {
   );
   const progress = calculateProgress(currentValue, min, max);
 
+  useEffect(() => {
+    const inputElm = inputRef.current;
+
+    // Keep the thumb in sync when the value is changed elsewhere, ie. hotkeys.
+    if (inputElm && parseFloat(inputElm.value) !== currentValue) {
+      inputElm.value = `${currentValue}`;
+    }
+  }, [currentValue]);
+
   useEffect(() => {
     const inputElm = inputRef.current;
 
@@ -101,6 +101,73 @@ export interface IEmbedParams extends ParsedUrlQuery {
    */
   th?: string | string[];
 
+  /**
+   * Start time of clip to bound playback of initial audio to. Value can be
+   * seconds or a duration string, eg. `90` or `1:30`.
+   */
+  cs?: string | string[];
+
+  /**
+   * End time of clip to bound playback of initial audio to. Value can be
+   * seconds or a duration string, eg. `210` or `3:30`.
+   */
+  ce?: string | string[];
+
+  /**
+   * Use to bound playback of initial audio to its first soundbite. Ignored
+   * when a clip is set with `cs` or `ce`.
+   */
+  hl?: string | string[];
+
+  /**
+   * Repeat mode to start the player with. Value can be `one` to repeat the
+   * current episode, or `all` to repeat the playlist.
+   */
+  rp?: string | string[];
+
+  /**
+   * Use to start the playlist in shuffled order.
+   */
+  sh?: string | string[];
+
+  /**
+   * Seconds to crossfade between playlist tracks.
+   */
+  cf?: string | string[];
+
+  /**
+   * Seconds to skip back with the replay button. Defaults to `5`.
+   */
+  sb?: string | string[];
+
+  /**
+   * Seconds to skip ahead with the forward button. Defaults to `30`.
+   */
+  sf?: string | string[];
+
+  /**
+   * Use to stop remembering listener volume, mute, playback rate and audio
+   * enhancement preferences, eg. for kiosks.
+   */
+  np?: string | string[];
+
+  /**
+   * Use to limit keyboard shortcuts. Use `focus` to only handle keys while a
+   * player control has focus, or `off` to disable them.
+   */
+  hk?: string | string[];
+
+  /**
+   * Use to start the next Play embed on the page when this one finishes.
+   */
+  cn?: string | string[];
+
+  /**
+   * Use to send listening analytics events to a collector URL. Analytics are
+   * only sent when this is provided.
+   */
+  ub?: string | string[];
+
   /**
    * DEPRECATED
    * Use to set call to action text.
@@ -151,6 +218,18 @@ export interface IEmbedConfig {
   accentColor?: string[];
   theme?: 'light' | 'dark' | 'auto';
   maxWidth?: number;
+  clipStart?: number;
+  clipEnd?: number;
+  startOnSoundbite?: boolean;
+  repeatMode?: 'one' | 'all';
+  shuffle?: boolean;
+  crossfade?: number;
+  skipBack?: number;
+  skipForward?: number;
+  disablePersistence?: boolean;
+  hotkeys?: 'focus' | 'off';
+  continueToNextEmbed?: boolean;
+  analyticsUrl?: string;
 }
 
 /**
@@ -178,6 +257,18 @@ EmbedParamKeysMap.set('ct', 'playlistCategory');
 EmbedParamKeysMap.set('ca', 'showCoverArt');
 EmbedParamKeysMap.set('ac', 'accentColor');
 EmbedParamKeysMap.set('th', 'theme');
+EmbedParamKeysMap.set('cs', 'clipStart');
+EmbedParamKeysMap.set('ce', 'clipEnd');
+EmbedParamKeysMap.set('hl', 'startOnSoundbite');
+EmbedParamKeysMap.set('rp', 'repeatMode');
+EmbedParamKeysMap.set('sh', 'shuffle');
+EmbedParamKeysMap.set('cf', 'crossfade');
+EmbedParamKeysMap.set('sb', 'skipBack');
+EmbedParamKeysMap.set('sf', 'skipForward');
+EmbedParamKeysMap.set('np', 'disablePersistence');
+EmbedParamKeysMap.set('hk', 'hotkeys');
+EmbedParamKeysMap.set('cn', 'continueToNextEmbed');
+EmbedParamKeysMap.set('ub', 'analyticsUrl');
 
 /**
  * Map of embed config property keys to embed parameter keys.
@@ -207,3 +298,15 @@ EmbedConfigKeysMap.set('playlistCategory', 'ct');
 EmbedConfigKeysMap.set('showCoverArt', 'ca');
 EmbedConfigKeysMap.set('accentColor', 'ac');
 EmbedConfigKeysMap.set('theme', 'th');
+EmbedConfigKeysMap.set('clipStart', 'cs');
+EmbedConfigKeysMap.set('clipEnd', 'ce');
+EmbedConfigKeysMap.set('startOnSoundbite', 'hl');
+EmbedConfigKeysMap.set('repeatMode', 'rp');
+EmbedConfigKeysMap.set('shuffle', 'sh');
+EmbedConfigKeysMap.set('crossfade', 'cf');
+EmbedConfigKeysMap.set('skipBack', 'sb');
+EmbedConfigKeysMap.set('skipForward', 'sf');
+EmbedConfigKeysMap.set('disablePersistence', 'np');
+EmbedConfigKeysMap.set('hotkeys', 'hk');
+EmbedConfigKeysMap.set('continueToNextEmbed', 'cn');
+EmbedConfigKeysMap.set('analyticsUrl', 'ub');
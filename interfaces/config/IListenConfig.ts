@@ -57,6 +57,16 @@ export interface IListenParams extends ParsedUrlQuery {
    * Choose color theme.
    */
   th?: string | string[];
+
+  /**
+   * Seconds to skip back with the replay button. Defaults to `5`.
+   */
+  sb?: string | string[];
+
+  /**
+   * Seconds to skip ahead with the forward button. Defaults to `30`.
+   */
+  sf?: string | string[];
 }
 
 /**
@@ -71,6 +81,8 @@ export interface IListenConfig {
   playlistCategory?: string;
   accentColor?: string[];
   theme?: 'light' | 'dark' | 'auto';
+  skipBack?: number;
+  skipForward?: number;
 }
 
 /**
@@ -86,6 +98,8 @@ ListenParamKeysMap.set('se', 'playlistSeason');
 ListenParamKeysMap.set('ct', 'playlistCategory');
 ListenParamKeysMap.set('ac', 'accentColor');
 ListenParamKeysMap.set('th', 'theme');
+ListenParamKeysMap.set('sb', 'skipBack');
+ListenParamKeysMap.set('sf', 'skipForward');
 
 /**
  * Map of embed config property keys to embed parameter keys.
@@ -102,3 +116,5 @@ ListenConfigKeysMap.set('playlistSeason', 'se');
 ListenConfigKeysMap.set('playlistCategory', 'ct');
 ListenConfigKeysMap.set('accentColor', 'ac');
 ListenConfigKeysMap.set('theme', 'th');
+ListenConfigKeysMap.set('skipBack', 'sb');
+ListenConfigKeysMap.set('skipForward', 'sf');
@@ -6,7 +6,12 @@
  */
 
 import { IAudioData } from '@interfaces/data';
-import type { IPlayerState } from '@interfaces/states';
+import type {
+  IPlayerAudioEnhancements,
+  IPlayerState,
+  PlayerRepeatMode,
+  PlayerSleepTimerType
+} from '@interfaces/states';
 import type { IPlayerAction } from '@states/player/Player.actions';
 import type { IStateContext } from './IStateContext';
 
@@ -14,8 +19,11 @@ export interface IPlayerContext
   extends IStateContext<IPlayerState, IPlayerAction> {
   audioElm: HTMLAudioElement;
   imageUrl: string;
+  skipBackSeconds: number;
+  skipForwardSeconds: number;
   play(): void;
   playTrack(index: number): void;
+  playHighlight(index: number, clipStart: number, clipEnd: number): void;
   pause(): void;
   togglePlayPause(): void;
   mute(): void;
@@ -28,8 +36,25 @@ export interface IPlayerContext
   seekToRelative(time: number): void;
   nextTrack(): void;
   previousTrack(): void;
+  nextChapter(): void;
+  previousChapter(): void;
   setTrack(index: number): void;
   setTracks(tracks: IAudioData[]): void;
   setVolume(newVolume: number): void;
   setPlaybackRate(newPlaybackRate: number): void;
+  setSleepTimer(type: PlayerSleepTimerType, value?: number): void;
+  clearSleepTimer(): void;
+  setRepeatMode(repeatMode: PlayerRepeatMode): void;
+  setShuffle(shuffle: boolean): void;
+  setQueue(queue: string[]): void;
+  queueTrack(guid: string): void;
+  queueTrackNext(guid: string): void;
+  dequeueTrack(guid: string): void;
+  retry(): void;
+  showHotkeys(): void;
+  hideHotkeys(): void;
+  setAudioEnhancement(
+    name: keyof IPlayerAudioEnhancements,
+    enabled: boolean
+  ): void;
 }
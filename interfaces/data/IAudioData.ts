@@ -2,7 +2,11 @@
  * Defines audio data interfaces and types.
  */
 
+import { IPersonData } from './IPersonData';
 import {
+  IRssPodcastChapter,
+  IRssPodcastChapters,
+  IRssPodcastSoundbite,
   IRssPodcastTranscript,
   IRssPodcastTranscriptJson
 } from './IRssPodcast';
@@ -38,6 +42,12 @@ export interface IAudioData {
    */
   previewUrl?: string;
 
+  /**
+   * Source URLs for alternate audio files.
+   * Used for playback when the audio file can't be played.
+   */
+  alternateUrls?: string[];
+
   /**
    * Title to be displayed in player.
    */
@@ -82,4 +92,41 @@ export interface IAudioData {
    * Parsed JSON version of transcript.
    */
   transcriptData?: IRssPodcastTranscriptJson;
+
+  /**
+   * Chapters file of the audio.
+   */
+  chapters?: IRssPodcastChapters;
+
+  /**
+   * Parsed chapters from the chapters file, sorted by start time. Empty when
+   * the chapters file has no chapters or could not be loaded.
+   */
+  chaptersData?: IRssPodcastChapter[];
+
+  /**
+   * People credited in the audio, like hosts and guests.
+   */
+  people?: IPersonData[];
+
+  /**
+   * Soundbites highlighting segments of the audio.
+   */
+  soundbites?: IRssPodcastSoundbite[];
+
+  /**
+   * Start time in seconds of a clip to bound playback to.
+   */
+  clipStart?: number;
+
+  /**
+   * End time in seconds of a clip to bound playback to.
+   */
+  clipEnd?: number;
+
+  /**
+   * Clip is a highlight played on request. Highlights stop when they end and
+   * are cleared when another track plays.
+   */
+  highlight?: boolean;
 }
@@ -3,6 +3,7 @@
  */
 
 import { IListenEpisodeData } from './IListenEpisodeData';
+import { IPersonData } from './IPersonData';
 
 export interface IListenData {
   /**
@@ -57,6 +58,11 @@ export interface IListenData {
     [key: string]: string;
   };
 
+  /**
+   * People credited in the podcast, like hosts.
+   */
+  people?: IPersonData[];
+
   /**
    * Web monetization payment pointer to add to page meta tags.
    */
@@ -0,0 +1,34 @@
+/**
+ * Defines person data interfaces and types.
+ */
+
+/**
+ * Person credited in a podcast or episode.
+ */
+export interface IPersonData {
+  /**
+   * Full name of the person.
+   */
+  name: string;
+
+  /**
+   * Role the person has, lowercased. Defaults to `host`.
+   * See https://podcasttaxonomy.com for role names.
+   */
+  role: string;
+
+  /**
+   * Group the role belongs to, lowercased. Defaults to `cast`.
+   */
+  group: string;
+
+  /**
+   * URL of a picture of the person.
+   */
+  imageUrl?: string;
+
+  /**
+   * URL of a page about the person.
+   */
+  href?: string;
+}
@@ -0,0 +1,36 @@
+/**
+ * @file IPlaybackPosition.ts
+ * Defines interfaces for persisted playback positions.
+ */
+
+/**
+ * Playback position of an episode.
+ */
+export interface IPlaybackPosition {
+  /**
+   * Last played time in seconds.
+   */
+  currentTime: number;
+
+  /**
+   * Duration of audio in seconds when position was recorded.
+   */
+  duration: number;
+
+  /**
+   * Audio has been played to, or near, the end.
+   */
+  finished: boolean;
+
+  /**
+   * Timestamp of when the position was last updated.
+   */
+  updated: number;
+}
+
+/**
+ * Playback positions keyed by episode guid.
+ */
+export interface IPlaybackPositions {
+  [guid: string]: IPlaybackPosition;
+}
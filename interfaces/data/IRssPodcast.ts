@@ -24,10 +24,42 @@ export interface IRssPodcastTranscript {
   url: string;
 }
 
+export interface IRssPodcastChapters {
+  type: string;
+  url: string;
+}
+
+export interface IRssPodcastAlternateEnclosure {
+  type: string;
+  length?: string;
+  bitrate?: string;
+  title?: string;
+  default?: string;
+  sources: string[];
+}
+
+export interface IRssPodcastPerson {
+  name: string;
+  role?: string;
+  group?: string;
+  img?: string;
+  href?: string;
+}
+
+export interface IRssPodcastSoundbite {
+  startTime: number;
+  duration: number;
+  title?: string;
+}
+
 export interface IRssPodcast {
   [key: string]: any;
   value?: IRssPodcastValue;
   transcript?: IRssPodcastTranscript[];
+  chapters?: IRssPodcastChapters;
+  alternateEnclosure?: IRssPodcastAlternateEnclosure[];
+  person?: IRssPodcastPerson[];
+  soundbite?: IRssPodcastSoundbite[];
 }
 
 export interface IRssPodcastTranscriptJsonSegment {
@@ -41,3 +73,17 @@ export interface IRssPodcastTranscriptJson {
   version: string;
   segments: IRssPodcastTranscriptJsonSegment[];
 }
+
+export interface IRssPodcastChapter {
+  startTime: number;
+  endTime?: number;
+  title?: string;
+  img?: string;
+  url?: string;
+  toc?: boolean;
+}
+
+export interface IRssPodcastChaptersJson {
+  version: string;
+  chapters: IRssPodcastChapter[];
+}
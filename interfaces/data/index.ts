@@ -2,6 +2,8 @@ export * from './IAudioData';
 export * from './IEmbedData';
 export * from './IListenData';
 export * from './IListenEpisodeData';
+export * from './IPersonData';
+export * from './IPlaybackPosition';
 export * from './IRss';
 export * from './IRssItem';
 export * from './IRssPodcast';
@@ -0,0 +1,63 @@
+/**
+ * @file IEmbedAnalytics.ts
+ * Define listening analytics events embeds send to a collector.
+ */
+
+import type { IEmbedConfig } from '@interfaces/config';
+
+/**
+ * Analytics events.
+ * - `load`: Embed loaded with audio.
+ * - `firstPlay`: Listener started playback for the first time.
+ * - `quartile`: Listener reached 25, 50 or 75 percent of a track.
+ * - `complete`: Track played to its end.
+ * - `seek`: Listener moved the playback position.
+ * - `share`: Listener used a share menu option.
+ */
+export type EmbedAnalyticsEventName =
+  | 'load'
+  | 'firstPlay'
+  | 'quartile'
+  | 'complete'
+  | 'seek'
+  | 'share';
+
+export type EmbedAnalyticsShareMethod =
+  | 'facebook'
+  | 'twitter'
+  | 'email'
+  | 'link'
+  | 'download'
+  | 'embed';
+
+export interface IEmbedAnalyticsEvent {
+  event: EmbedAnalyticsEventName;
+
+  /**
+   * ISO 8601 time the event happened.
+   */
+  timestamp: string;
+
+  /**
+   * Random ID shared by events from the same embed page view.
+   */
+  sessionId: string;
+
+  /**
+   * Config the embed was loaded with.
+   */
+  config: IEmbedConfig;
+
+  feedUrl?: string;
+  guid?: string;
+
+  /**
+   * Playback position and duration in seconds, relative to any clip.
+   */
+  currentTime?: number;
+  duration?: number;
+
+  quartile?: 25 | 50 | 75;
+  seekFrom?: number;
+  shareMethod?: EmbedAnalyticsShareMethod;
+}
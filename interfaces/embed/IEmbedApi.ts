@@ -0,0 +1,79 @@
+/**
+ * @file IEmbedApi.ts
+ * Define the postMessage protocol host pages use to control and observe an
+ * embed iframe.
+ */
+
+import type { PlayerErrorReason } from '@interfaces/states/player';
+
+/**
+ * Namespace of every embed API message, so other messages are ignored.
+ */
+export const EMBED_API_NAMESPACE = 'prx-play';
+
+/**
+ * Version of the embed API protocol. Bump when messages change in ways
+ * existing clients can't handle.
+ */
+export const EMBED_API_VERSION = 1;
+
+/**
+ * Commands host pages can send to an embed. Embeds answer `hello` with a
+ * `ready` event, so clients created after the embed loaded can catch up.
+ */
+export type EmbedApiCommand =
+  | { command: 'hello' }
+  | { command: 'play' }
+  | { command: 'pause' }
+  | { command: 'seekTo'; time: number }
+  | { command: 'setVolume'; volume: number }
+  | { command: 'setTrack'; index: number }
+  | { command: 'loadEpisode'; guid: string };
+
+export type EmbedApiCommandName = EmbedApiCommand['command'];
+
+/**
+ * Why the embed reported an error.
+ * - `invalidCommand`: Command was malformed or unknown.
+ * - `unsupportedVersion`: Command used a protocol version the embed doesn't
+ * support.
+ * - `notFound`: Track or episode to load doesn't exist.
+ */
+export type EmbedApiErrorReason =
+  | PlayerErrorReason
+  | 'invalidCommand'
+  | 'unsupportedVersion'
+  | 'notFound';
+
+export interface IEmbedApiTrack {
+  guid: string;
+  title: string;
+}
+
+/**
+ * Events embeds send to host pages. `resize` reports the height the embed
+ * needs to show all of its content.
+ */
+export type EmbedApiEvent =
+  | {
+      event: 'ready';
+      tracks: IEmbedApiTrack[];
+      currentTrackIndex: number;
+    }
+  | { event: 'play' }
+  | { event: 'pause' }
+  | { event: 'timeupdate'; currentTime: number; duration: number }
+  | { event: 'ended' }
+  | { event: 'trackchange'; index: number; track: IEmbedApiTrack }
+  | { event: 'error'; reason: EmbedApiErrorReason }
+  | { event: 'resize'; height: number };
+
+export type EmbedApiEventName = EmbedApiEvent['event'];
+
+/**
+ * Envelope every embed API message is sent in.
+ */
+export type EmbedApiMessage<T extends EmbedApiCommand | EmbedApiEvent> = T & {
+  namespace: typeof EMBED_API_NAMESPACE;
+  version: number;
+};
@@ -0,0 +1,26 @@
+/**
+ * @file IOEmbed.ts
+ * Define oEmbed provider response.
+ *
+ * See oEmbed specification: https://oembed.com/
+ */
+
+/**
+ * Rich oEmbed response for Play embed and listen URLs.
+ */
+export interface IOEmbedResponse {
+  version: '1.0';
+  type: 'rich';
+  provider_name: string;
+  provider_url: string;
+  title?: string;
+  author_name?: string;
+  author_url?: string;
+  cache_age?: number;
+  thumbnail_url?: string;
+  thumbnail_width?: number;
+  thumbnail_height?: number;
+  html: string;
+  width: number;
+  height: number;
+}
@@ -0,0 +1,64 @@
+/**
+ * @file IPreviewMessage.ts
+ * Define the postMessage protocol embed builders use to drive the preview
+ * page.
+ */
+
+import type { IEmbedConfig } from '@interfaces/config';
+import type { IEmbedConfigValidationError } from '@interfaces/error';
+
+/**
+ * Namespace of every preview message, so other messages are ignored.
+ */
+export const PREVIEW_MESSAGE_NAMESPACE = 'prx-play:preview';
+
+/**
+ * Version of the preview message protocol.
+ */
+export const PREVIEW_MESSAGE_VERSION = 1;
+
+/**
+ * Requests builders send to the preview page. Requests with an `id` are
+ * answered with a response that has a matching `replyTo`.
+ * - `updateConfig`: Merge config properties into the preview config. Use
+ * `null` to unset a property.
+ * - `getEmbed`: Get the embed code for the current preview config.
+ */
+export type PreviewRequest =
+  | { type: 'updateConfig'; id?: string; config: IEmbedConfig }
+  | { type: 'getEmbed'; id?: string };
+
+/**
+ * Embed code for a preview config.
+ */
+export interface IPreviewEmbedOutput {
+  config: IEmbedConfig;
+  embedUrl: string;
+  embedHtml: string;
+  embedElementHtml: string;
+  embedHeight: number;
+  embedStyles: {
+    wrapper: string;
+    iframe: string;
+  };
+}
+
+/**
+ * Responses the preview page sends to builders. `embed` is also sent without
+ * `replyTo` whenever the preview config changes.
+ */
+export type PreviewResponse =
+  | ({ type: 'embed'; replyTo?: string } & IPreviewEmbedOutput)
+  | {
+      type: 'error';
+      replyTo?: string;
+      errors: IEmbedConfigValidationError[];
+    };
+
+/**
+ * Envelope every preview message is sent in.
+ */
+export type PreviewMessage<T extends PreviewRequest | PreviewResponse> = T & {
+  namespace: typeof PREVIEW_MESSAGE_NAMESPACE;
+  version: number;
+};
@@ -0,0 +1,28 @@
+/**
+ * @file IStoredEmbed.ts
+ * Define embed configs stored server side for short embed URL's.
+ */
+
+import type { IEmbedConfig } from '@interfaces/config';
+
+/**
+ * Embed config stored under a short ID.
+ */
+export interface IStoredEmbed {
+  id: string;
+  config: IEmbedConfig;
+
+  /**
+   * ISO 8601 timestamps.
+   */
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Stored embed returned by the embeds API, with the embed code to use it.
+ */
+export interface IStoredEmbedResponse extends IStoredEmbed {
+  embedUrl: string;
+  embedHtml: string;
+}
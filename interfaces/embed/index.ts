@@ -1 +1,6 @@
 export * from './IEmbed';
+export * from './IEmbedAnalytics';
+export * from './IEmbedApi';
+export * from './IOEmbed';
+export * from './IPreviewMessage';
+export * from './IStoredEmbed';
@@ -0,0 +1,11 @@
+/**
+ * Defines interfaces for embed config validation errors.
+ */
+
+export interface IEmbedConfigValidationError {
+  /**
+   * Config property, or message property, that failed validation.
+   */
+  key: string;
+  message: string;
+}
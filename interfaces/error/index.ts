@@ -1,2 +1,3 @@
+export * from './IEmbedConfigValidationError';
 export * from './IPageError';
 export * from './IRssProxyError';
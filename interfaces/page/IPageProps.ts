@@ -4,4 +4,9 @@ import { IPageError } from '@interfaces/error';
 export interface IPageProps {
   config: IEmbedConfig;
   error?: IPageError;
+
+  /**
+   * oEmbed endpoint URL for the page, used for discovery links.
+   */
+  oEmbedUrl?: string;
 }
@@ -1,3 +1,4 @@
+export * from './IBuilderPageProps';
 export * from './IEmbedPageProps';
 export * from './IListenPageProps';
 export * from './IPageProps';
@@ -0,0 +1,218 @@
+/**
+ * @file IPlayerHotkey.ts
+ * Define player keyboard shortcuts.
+ */
+
+/**
+ * Where the player listens for keyboard shortcuts.
+ * - `window`: Anywhere on the page.
+ * - `focus`: Only while focus is within the player.
+ * - `off`: Keyboard shortcuts are disabled.
+ */
+export type PlayerHotkeysScope = 'window' | 'focus' | 'off';
+
+/**
+ * Player actions that can be triggered by keyboard shortcuts.
+ */
+export type PlayerHotkeyAction =
+  | 'togglePlayPause'
+  | 'replay'
+  | 'forward'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'previousFrame'
+  | 'nextFrame'
+  | 'seekToStart'
+  | 'seekToEnd'
+  | 'seekToPercent'
+  | 'previousTrack'
+  | 'nextTrack'
+  | 'toggleMute'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'togglePlaybackRate'
+  | 'playbackRateUp'
+  | 'playbackRateDown'
+  | 'showHotkeys';
+
+export interface IPlayerHotkey {
+  /**
+   * Action to trigger.
+   */
+  action: PlayerHotkeyAction;
+
+  /**
+   * Keyboard event codes that trigger the action.
+   */
+  codes: string[];
+
+  /**
+   * Key labels to show listeners.
+   */
+  labels: string[];
+
+  /**
+   * What the shortcut does.
+   */
+  description: string;
+
+  /**
+   * Shift key must be pressed. Shortcuts without it are ignored when any
+   * modifier key is pressed, so browser shortcuts keep working.
+   */
+  shiftKey?: boolean;
+
+  /**
+   * Element node names that handle the key themselves.
+   */
+  ignoreTargets?: string[];
+
+  /**
+   * Only trigger while playback is paused.
+   */
+  pausedOnly?: boolean;
+}
+
+/**
+ * Player keyboard shortcuts, in the order they are listed to listeners.
+ */
+export const PlayerKeymap: IPlayerHotkey[] = [
+  {
+    action: 'togglePlayPause',
+    codes: ['Space'],
+    labels: ['Space'],
+    description: 'Play or pause',
+    ignoreTargets: ['A', 'BUTTON']
+  },
+  {
+    action: 'togglePlayPause',
+    codes: ['KeyK'],
+    labels: ['K'],
+    description: 'Play or pause'
+  },
+  {
+    action: 'replay',
+    codes: ['KeyJ'],
+    labels: ['J'],
+    description: 'Skip back'
+  },
+  {
+    action: 'forward',
+    codes: ['KeyL'],
+    labels: ['L'],
+    description: 'Skip forward'
+  },
+  {
+    action: 'seekBackward',
+    codes: ['ArrowLeft'],
+    labels: ['←'],
+    description: 'Back 5 seconds',
+    ignoreTargets: ['INPUT']
+  },
+  {
+    action: 'seekForward',
+    codes: ['ArrowRight'],
+    labels: ['→'],
+    description: 'Forward 5 seconds',
+    ignoreTargets: ['INPUT']
+  },
+  {
+    action: 'previousFrame',
+    codes: ['Comma'],
+    labels: [','],
+    description: 'Step back while paused',
+    pausedOnly: true
+  },
+  {
+    action: 'nextFrame',
+    codes: ['Period'],
+    labels: ['.'],
+    description: 'Step forward while paused',
+    pausedOnly: true
+  },
+  {
+    action: 'seekToStart',
+    codes: ['Home', 'Digit0'],
+    labels: ['Home', '0'],
+    description: 'Go to start'
+  },
+  {
+    action: 'seekToEnd',
+    codes: ['End'],
+    labels: ['End'],
+    description: 'Go to end'
+  },
+  {
+    action: 'seekToPercent',
+    codes: [
+      'Digit1',
+      'Digit2',
+      'Digit3',
+      'Digit4',
+      'Digit5',
+      'Digit6',
+      'Digit7',
+      'Digit8',
+      'Digit9'
+    ],
+    labels: ['1 - 9'],
+    description: 'Go to 10% - 90%'
+  },
+  {
+    action: 'previousTrack',
+    codes: ['BracketLeft'],
+    labels: ['['],
+    description: 'Previous episode'
+  },
+  {
+    action: 'nextTrack',
+    codes: ['BracketRight'],
+    labels: [']'],
+    description: 'Next episode'
+  },
+  {
+    action: 'toggleMute',
+    codes: ['KeyM'],
+    labels: ['M'],
+    description: 'Mute or unmute'
+  },
+  {
+    action: 'volumeUp',
+    codes: ['Equal'],
+    labels: ['='],
+    description: 'Volume up'
+  },
+  {
+    action: 'volumeDown',
+    codes: ['Minus'],
+    labels: ['-'],
+    description: 'Volume down'
+  },
+  {
+    action: 'togglePlaybackRate',
+    codes: ['KeyS'],
+    labels: ['S'],
+    description: 'Switch between normal and last chosen speed'
+  },
+  {
+    action: 'playbackRateUp',
+    codes: ['Period'],
+    labels: ['>'],
+    description: 'Speed up',
+    shiftKey: true
+  },
+  {
+    action: 'playbackRateDown',
+    codes: ['Comma'],
+    labels: ['<'],
+    description: 'Slow down',
+    shiftKey: true
+  },
+  {
+    action: 'showHotkeys',
+    codes: ['Slash'],
+    labels: ['?'],
+    description: 'Show keyboard shortcuts',
+    shiftKey: true
+  }
+];
@@ -3,7 +3,100 @@
  * Define state interface used by player.
  */
 
-import type { IAudioData } from '@interfaces/data';
+import type { IAudioData, IPlaybackPositions } from '@interfaces/data';
+
+/**
+ * What ends a sleep timer.
+ */
+export type PlayerSleepTimerType = 'minutes' | 'episode' | 'chapters';
+
+/**
+ * How tracks repeat when playback reaches the end of a track or playlist.
+ */
+export type PlayerRepeatMode = 'off' | 'one' | 'all';
+
+/**
+ * Why playback failed.
+ */
+export type PlayerErrorReason =
+  | 'network'
+  | 'decode'
+  | 'unsupported'
+  | 'autoplay';
+
+export interface IPlayerSleepTimer {
+  /**
+   * What ends the timer.
+   */
+  type: PlayerSleepTimerType;
+
+  /**
+   * Number of minutes or chapters the timer was set for.
+   */
+  value?: number;
+
+  /**
+   * Timestamp of when a minutes timer ends.
+   */
+  endTime?: number;
+
+  /**
+   * Playback time of the current track when a chapters timer ends.
+   * Timer ends with the track when not set.
+   */
+  endTrackTime?: number;
+}
+
+export interface IPlayerAudioEnhancements {
+  /**
+   * Compress dynamics and lift speech frequencies so voices stand out.
+   */
+  voiceBoost: boolean;
+
+  /**
+   * Even out loudness between and within tracks.
+   */
+  leveling: boolean;
+
+  /**
+   * Downmix stereo audio to mono.
+   */
+  mono: boolean;
+}
+
+export interface IPlayerPreferences {
+  /**
+   * Volume of the player as a value between 0 and 1.
+   */
+  volume: number;
+
+  /**
+   * Player is muted.
+   */
+  muted: boolean;
+
+  /**
+   * How fast audio is played as a ratio, 1 being normal speed.
+   */
+  playbackRate: number;
+}
+
+export interface IPlayerError {
+  /**
+   * Why playback failed.
+   */
+  reason: PlayerErrorReason;
+
+  /**
+   * Number of times loading the current source has been retried.
+   */
+  retries?: number;
+
+  /**
+   * Playback is being retried automatically.
+   */
+  retrying?: boolean;
+}
 
 export interface IPlayerState {
   /**
@@ -40,4 +133,59 @@ export interface IPlayerState {
    * Boolean to mute player.
    */
   muted: boolean;
+
+  /**
+   * Persisted playback positions of tracks, keyed by guid.
+   * `null` until positions are loaded from storage.
+   */
+  playbackPositions: IPlaybackPositions;
+
+  /**
+   * Time the current track was restored to from its playback position.
+   * Cleared once playback starts or the listener seeks.
+   */
+  resumeTime: number;
+
+  /**
+   * Sleep timer that will pause playback when it ends.
+   */
+  sleepTimer: IPlayerSleepTimer;
+
+  /**
+   * How tracks repeat when they end.
+   */
+  repeatMode: PlayerRepeatMode;
+
+  /**
+   * Guids of tracks in shuffled play order.
+   * `null` when shuffle is off.
+   */
+  shuffleOrder: string[];
+
+  /**
+   * Guids of tracks queued to play next, in play order.
+   * `null` until the queue is loaded from storage.
+   */
+  queue: string[];
+
+  /**
+   * Error that stopped playback of the current track.
+   */
+  error: IPlayerError;
+
+  /**
+   * Audio enhancements the listener has turned on.
+   */
+  audioEnhancements: IPlayerAudioEnhancements;
+
+  /**
+   * Audio enhancements can't be applied to the current audio, eg. when its
+   * host doesn't allow cross-origin access.
+   */
+  audioEnhancementsUnavailable: boolean;
+
+  /**
+   * Keyboard shortcuts help is shown.
+   */
+  hotkeysShown: boolean;
 }
@@ -0,0 +1,26 @@
+import type { IEmbedAnalyticsEvent } from '@interfaces/embed';
+
+/**
+ * Send analytics event to a collector. Beacons survive the page unloading,
+ * and plain text bodies don't need a CORS preflight, so collectors on other
+ * origins can receive them.
+ *
+ * @param url Collector URL.
+ * @param event Analytics event.
+ */
+const sendAnalyticsBeacon = (url: string, event: IEmbedAnalyticsEvent) => {
+  const body = JSON.stringify(event);
+  const type = 'text/plain;charset=UTF-8';
+
+  if (navigator.sendBeacon?.(url, new Blob([body], { type }))) return;
+
+  fetch(url, {
+    method: 'POST',
+    mode: 'no-cors',
+    keepalive: true,
+    headers: { 'Content-Type': type },
+    body
+  }).catch(() => {});
+};
+
+export default sendAnalyticsBeacon;
@@ -0,0 +1,20 @@
+/**
+ * Check if an audio file's host allows cross-origin access, which audio
+ * must have before it can be processed with Web Audio.
+ *
+ * @param audioUrl URL of the audio file.
+ * @returns Promise for boolean indicating cross-origin access is allowed.
+ */
+const fetchAudioCorsSupport = async (audioUrl: string) => {
+  if (!audioUrl) return false;
+
+  try {
+    const response = await fetch(audioUrl, { method: 'HEAD', mode: 'cors' });
+
+    return response.ok;
+  } catch (e) {
+    return false;
+  }
+};
+
+export default fetchAudioCorsSupport;
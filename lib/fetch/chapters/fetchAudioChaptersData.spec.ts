@@ -0,0 +1,57 @@
+import type { IAudioData } from '@interfaces/data';
+import fetchAudioChaptersData from './fetchAudioChaptersData';
+
+describe('lib/fetch/chapters', () => {
+  describe('fetchAudioChaptersData', () => {
+    const mockEpisode: IAudioData = {
+      guid: 'GUID:1',
+      url: 'http://foo.com/1.mp3',
+      link: 'http://foo.com/1',
+      title: 'Title 1',
+      fileSize: 1000,
+      duration: '10:00',
+      chapters: {
+        url: 'http://foo.com/chapters.json',
+        type: 'application/json+chapters'
+      }
+    };
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    test('should return chapters', async () => {
+      const chapters = [{ startTime: 0, title: 'Chapter 1' }];
+
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ chapters })
+      });
+
+      expect(await fetchAudioChaptersData(mockEpisode)).toStrictEqual(chapters);
+    });
+
+    test('should return null when episode has no chapters', async () => {
+      global.fetch = jest.fn();
+
+      expect(
+        await fetchAudioChaptersData({ ...mockEpisode, chapters: undefined })
+      ).toBeNull();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    test('should return null when request fails', async () => {
+      global.fetch = jest.fn().mockRejectedValue(new TypeError('offline'));
+
+      expect(await fetchAudioChaptersData(mockEpisode)).toBeNull();
+
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.reject(new SyntaxError('Unexpected token'))
+      });
+
+      expect(await fetchAudioChaptersData(mockEpisode)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import type {
+  IAudioData,
+  IRssPodcastChapter,
+  IRssPodcastChaptersJson
+} from '@interfaces/data';
+
+/**
+ * Fetch chapters of an episode through the chapters proxy.
+ *
+ * @param episode Audio data with a chapters file.
+ * @returns Array of chapters, or `null` when the episode has no chapters or
+ * the chapters file could not be loaded.
+ */
+const fetchAudioChaptersData = async (
+  episode: IAudioData
+): Promise<IRssPodcastChapter[]> => {
+  if (!episode?.chapters?.url) return null;
+
+  const { chapters, duration } = episode;
+  const fetchUrl = `/api/proxy/chapters?u=${encodeURIComponent(
+    chapters.url
+  )}&cb=${duration}`;
+
+  try {
+    const chaptersResponse = await fetch(
+      fetchUrl
+    ).then<IRssPodcastChaptersJson>((res) => res.ok && res.json());
+
+    return chaptersResponse?.chapters || null;
+  } catch (e) {
+    // Chapters are optional. Play on without them.
+    return null;
+  }
+};
+
+export default fetchAudioChaptersData;
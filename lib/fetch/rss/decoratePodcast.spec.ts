@@ -1,5 +1,9 @@
 import {
   decoratePodcast,
+  extractPodcastAlternateEnclosure,
+  extractPodcastChapters,
+  extractPodcastPerson,
+  extractPodcastSoundbite,
   extractPodcastTranscript,
   extractPodcastValue
 } from '@lib/fetch/rss/decoratePodcast';
@@ -54,6 +58,48 @@ describe('lib/fetch/rss', () => {
         }
       }
     ];
+    const mockPodcastChapters = {
+      $: {
+        url: 'http://foo.com/chapters.json',
+        type: 'application/json+chapters'
+      }
+    };
+    const mockPodcastAlternateEnclosure = [
+      {
+        $: {
+          type: 'audio/opus',
+          length: '12345'
+        },
+        'podcast:source': [
+          { $: { uri: 'http://foo.com/audio.opus' } },
+          { $: { uri: 'ipfs://foo' } }
+        ]
+      },
+      {
+        $: {
+          type: 'audio/mpeg'
+        }
+      }
+    ];
+    const mockPodcastPerson = [
+      {
+        _: 'Alice Smith',
+        $: {
+          role: 'guest',
+          img: 'http://foo.com/alice.jpg',
+          href: 'http://foo.com/alice'
+        }
+      },
+      ' Bob Jones ',
+      { $: { role: 'host' } }
+    ];
+
+    const mockPodcastSoundbite = [
+      { _: ' Best Bit ', $: { startTime: '73.0', duration: '60.5' } },
+      { $: { startTime: '1234.5', duration: '42.25' } },
+      { $: { startTime: 'foo', duration: '10' } },
+      { $: { startTime: '10', duration: '0' } }
+    ];
 
     const mockItem = {
       guid: 'foo-bar',
@@ -64,7 +110,11 @@ describe('lib/fetch/rss', () => {
     const mockItemWithPodcastProps = {
       ...mockItem,
       'podcast:value': mockPodcastValue,
-      'podcast:transcript': mockPodcastTranscript
+      'podcast:transcript': mockPodcastTranscript,
+      'podcast:chapters': mockPodcastChapters,
+      'podcast:alternateEnclosure': mockPodcastAlternateEnclosure,
+      'podcast:person': mockPodcastPerson,
+      'podcast:soundbite': mockPodcastSoundbite
     };
 
     const mockRss = {
@@ -109,6 +159,52 @@ describe('lib/fetch/rss', () => {
       ]);
     });
 
+    test('should extract podcast:chapters prop', () => {
+      expect(extractPodcastChapters(mockItem)).toBeUndefined();
+
+      expect(extractPodcastChapters(mockItemWithPodcastProps)).toStrictEqual({
+        url: 'http://foo.com/chapters.json',
+        type: 'application/json+chapters'
+      });
+    });
+
+    test('should extract podcast:alternateEnclosure prop', () => {
+      expect(extractPodcastAlternateEnclosure(mockItem)).toBeUndefined();
+
+      expect(
+        extractPodcastAlternateEnclosure(mockItemWithPodcastProps)
+      ).toStrictEqual([
+        {
+          type: 'audio/opus',
+          length: '12345',
+          sources: ['http://foo.com/audio.opus', 'ipfs://foo']
+        }
+      ]);
+    });
+
+    test('should extract podcast:person prop', () => {
+      expect(extractPodcastPerson(mockItem)).toBeUndefined();
+
+      expect(extractPodcastPerson(mockItemWithPodcastProps)).toStrictEqual([
+        {
+          name: 'Alice Smith',
+          role: 'guest',
+          img: 'http://foo.com/alice.jpg',
+          href: 'http://foo.com/alice'
+        },
+        { name: 'Bob Jones' }
+      ]);
+    });
+
+    test('should extract podcast:soundbite prop', () => {
+      expect(extractPodcastSoundbite(mockItem)).toBeUndefined();
+
+      expect(extractPodcastSoundbite(mockItemWithPodcastProps)).toStrictEqual([
+        { startTime: 73, duration: 60.5, title: 'Best Bit' },
+        { startTime: 1234.5, duration: 42.25 }
+      ]);
+    });
+
     test('should parse and decorate podcast props', () => {
       const feed = decoratePodcast({
         ...mockRss,
@@ -137,9 +233,40 @@ describe('lib/fetch/rss', () => {
             url: 'http://foo.com/transcript.srt',
             type: 'application/srt'
           }
+        ],
+        chapters: {
+          url: 'http://foo.com/chapters.json',
+          type: 'application/json+chapters'
+        },
+        alternateEnclosure: [
+          {
+            type: 'audio/opus',
+            length: '12345',
+            sources: ['http://foo.com/audio.opus', 'ipfs://foo']
+          }
+        ],
+        person: [
+          {
+            name: 'Alice Smith',
+            role: 'guest',
+            img: 'http://foo.com/alice.jpg',
+            href: 'http://foo.com/alice'
+          },
+          { name: 'Bob Jones' }
+        ],
+        soundbite: [
+          { startTime: 73, duration: 60.5, title: 'Best Bit' },
+          { startTime: 1234.5, duration: 42.25 }
         ]
       });
 
+      expect(
+        decoratePodcast({
+          'podcast:person': [{ _: 'Carol', $: { role: 'Host' } }],
+          items: [mockItem]
+        }).podcast
+      ).toStrictEqual({ person: [{ name: 'Carol', role: 'Host' }] });
+
       expect(feed.podcast).toStrictEqual({
         value: {
           type: 'webmonetization',
@@ -1,4 +1,8 @@
 import {
+  IRssPodcastAlternateEnclosure,
+  IRssPodcastChapters,
+  IRssPodcastPerson,
+  IRssPodcastSoundbite,
   IRssPodcastValue,
   IRssPodcastValueRecipient
 } from '@interfaces/data/IRssPodcast';
@@ -32,31 +36,125 @@ export const extractPodcastTranscript = (data) => {
   return podcastTranscript;
 };
 
+export const extractPodcastChapters = (data): IRssPodcastChapters => {
+  const podcastChapters = data['podcast:chapters']?.$;
+
+  if (!podcastChapters?.url) return undefined;
+
+  return { ...podcastChapters };
+};
+
+export const extractPodcastAlternateEnclosure = (
+  data
+): IRssPodcastAlternateEnclosure[] => {
+  const podcastAlternateEnclosure = (
+    data['podcast:alternateEnclosure'] as any[]
+  )
+    ?.map((alternateEnclosure) => ({
+      ...alternateEnclosure.$,
+      sources: (alternateEnclosure['podcast:source'] || [])
+        .map(({ $ }) => $?.uri)
+        .filter((uri: string) => !!uri)
+    }))
+    .filter(({ sources }) => !!sources.length);
+
+  return podcastAlternateEnclosure;
+};
+
+export const extractPodcastPerson = (data): IRssPodcastPerson[] => {
+  const podcastPerson = (data['podcast:person'] as any[])
+    ?.map((person) => {
+      // Elements without attributes are parsed as plain strings.
+      const { _: name, $: attributes } =
+        typeof person === 'string' ? { _: person, $: {} } : person;
+
+      return {
+        ...attributes,
+        name: name?.trim()
+      };
+    })
+    .filter(({ name }) => !!name);
+
+  if (!podcastPerson?.length) return undefined;
+
+  return podcastPerson;
+};
+
+export const extractPodcastSoundbite = (data): IRssPodcastSoundbite[] => {
+  const podcastSoundbite = (data['podcast:soundbite'] as any[])
+    ?.map((soundbite) => {
+      // Elements without a title are parsed with only attributes.
+      const { _: title, $: attributes } = soundbite || {};
+      const startTime = parseFloat(attributes?.startTime);
+      const duration = parseFloat(attributes?.duration);
+
+      return {
+        startTime,
+        duration,
+        ...(title?.trim() && { title: title.trim() })
+      };
+    })
+    .filter(
+      ({ startTime, duration }) =>
+        Number.isFinite(startTime) &&
+        startTime >= 0 &&
+        Number.isFinite(duration) &&
+        duration > 0
+    );
+
+  if (!podcastSoundbite?.length) return undefined;
+
+  return podcastSoundbite;
+};
+
 export const decoratePodcast = (feed): IRss => {
   const feedItems: IRssItem[] = feed.items.map((item) => {
     const itemVal = extractPodcastValue(item);
     const itemTranscript = extractPodcastTranscript(item);
-    const hasPodcastProps = !!itemVal || !!itemTranscript?.length;
+    const itemChapters = extractPodcastChapters(item);
+    const itemAlternateEnclosure = extractPodcastAlternateEnclosure(item);
+    const itemPerson = extractPodcastPerson(item);
+    const itemSoundbite = extractPodcastSoundbite(item);
+    const hasPodcastProps =
+      !!itemVal ||
+      !!itemTranscript?.length ||
+      !!itemChapters ||
+      !!itemAlternateEnclosure?.length ||
+      !!itemPerson ||
+      !!itemSoundbite;
 
     return {
       ...item,
       ...(hasPodcastProps && {
         podcast: {
           ...(itemVal && { value: itemVal }),
-          ...(!!itemTranscript?.length && { transcript: itemTranscript })
+          ...(!!itemTranscript?.length && { transcript: itemTranscript }),
+          ...(itemChapters && { chapters: itemChapters }),
+          ...(!!itemAlternateEnclosure?.length && {
+            alternateEnclosure: itemAlternateEnclosure
+          }),
+          ...(itemPerson && { person: itemPerson }),
+          ...(itemSoundbite && { soundbite: itemSoundbite })
         }
       })
     } as IRssItem;
   });
 
   const feedVal = extractPodcastValue(feed);
+  const feedPerson = extractPodcastPerson(feed);
   const rssData: IRss = {
     ...feed,
-    ...(feedVal && { podcast: { value: feedVal } }),
+    ...((feedVal || feedPerson) && {
+      podcast: {
+        ...(feedVal && { value: feedVal }),
+        ...(feedPerson && { person: feedPerson })
+      }
+    }),
     items: feedItems
   };
 
   delete rssData['podcast:value'];
+  delete rssData['podcast:person'];
 
   return rssData;
 };
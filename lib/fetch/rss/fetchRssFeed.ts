@@ -3,10 +3,18 @@ import type { IRss } from '@interfaces/data';
 import { decoratePodcast } from './decoratePodcast';
 import RssProxyError from './RssProxyError';
 
-type CustomFeed = { 'podcast:value': any; 'itunes:type': string };
+type CustomFeed = {
+  'podcast:value': any;
+  'podcast:person': any;
+  'itunes:type': string;
+};
 type CustomItem = {
   'podcast:value': any;
+  'podcast:person': any;
+  'podcast:soundbite': any;
   'podcast:transcript': any;
+  'podcast:chapters': any;
+  'podcast:alternateEnclosure': any;
   itunes: any;
   'itunes:episodeType': string;
 };
@@ -16,13 +24,23 @@ const parser: Parser<CustomFeed, CustomItem> = new Parser({
     feed: [
       // @ts-ignore
       ['podcast:value', 'podcast:value', { keepArray: true }],
+      // @ts-ignore
+      ['podcast:person', 'podcast:person', { keepArray: true }],
       'itunes:type'
     ],
     // @ts-ignore
     item: [
       'podcast:value',
       'itunes:episodeType',
-      ['podcast:transcript', 'podcast:transcript', { keepArray: true }]
+      ['podcast:transcript', 'podcast:transcript', { keepArray: true }],
+      'podcast:chapters',
+      ['podcast:person', 'podcast:person', { keepArray: true }],
+      ['podcast:soundbite', 'podcast:soundbite', { keepArray: true }],
+      [
+        'podcast:alternateEnclosure',
+        'podcast:alternateEnclosure',
+        { keepArray: true }
+      ]
     ]
   }
 });
@@ -0,0 +1,105 @@
+import type { IPlayerAudioEnhancements } from '@interfaces/states/player';
+import calculateLevelingGain from '@lib/math/audio/calculateLevelingGain';
+
+/**
+ * Milliseconds between loudness measurements while leveling.
+ */
+const LEVELING_INTERVAL = 100;
+
+export interface IAudioEnhancementGraph {
+  /**
+   * Audio context the graph is built in.
+   */
+  context: AudioContext;
+
+  /**
+   * Connect media element sources to this node to apply enhancements.
+   */
+  input: AudioNode;
+
+  /**
+   * Apply enhancements to audio passing through the graph.
+   */
+  // eslint-disable-next-line no-unused-vars
+  update(enhancements: IPlayerAudioEnhancements): void;
+
+  /**
+   * Stop processing and release the audio context.
+   */
+  close(): void;
+}
+
+/**
+ * Generate Web Audio graph that applies listener audio enhancements. Nodes
+ * stay connected when enhancements are off, with neutral settings, so audio
+ * passes through unchanged.
+ *
+ * @returns Audio enhancement graph, or `null` when Web Audio isn't supported.
+ */
+const generateAudioEnhancementGraph = (): IAudioEnhancementGraph => {
+  if (typeof window === 'undefined' || !window.AudioContext) return null;
+
+  const context = new window.AudioContext();
+  const input = context.createGain();
+  const analyser = context.createAnalyser();
+  const leveler = context.createGain();
+  const presence = context.createBiquadFilter();
+  const compressor = context.createDynamicsCompressor();
+  const makeup = context.createGain();
+  const downmix = context.createGain();
+  const samples = new Float32Array(analyser.fftSize);
+  let levelingInterval: ReturnType<typeof setInterval>;
+
+  presence.type = 'peaking';
+  presence.frequency.value = 2500;
+  presence.Q.value = 1;
+
+  input.connect(analyser);
+  input
+    .connect(leveler)
+    .connect(presence)
+    .connect(compressor)
+    .connect(makeup)
+    .connect(downmix)
+    .connect(context.destination);
+
+  const level = () => {
+    analyser.getFloatTimeDomainData(samples);
+    leveler.gain.setTargetAtTime(
+      calculateLevelingGain(samples, leveler.gain.value),
+      context.currentTime,
+      LEVELING_INTERVAL / 1000
+    );
+  };
+
+  const update = ({ voiceBoost, leveling, mono }: IPlayerAudioEnhancements) => {
+    const { currentTime } = context;
+
+    presence.gain.setValueAtTime(voiceBoost ? 4 : 0, currentTime);
+    compressor.threshold.setValueAtTime(voiceBoost ? -30 : 0, currentTime);
+    compressor.ratio.setValueAtTime(voiceBoost ? 4 : 1, currentTime);
+    compressor.knee.setValueAtTime(voiceBoost ? 10 : 0, currentTime);
+    makeup.gain.setValueAtTime(voiceBoost ? 1.5 : 1, currentTime);
+
+    // Mixing into a single channel downmixes stereo. Output upmixes it back
+    // to both speakers.
+    downmix.channelCount = mono ? 1 : 2;
+    downmix.channelCountMode = mono ? 'explicit' : 'max';
+
+    clearInterval(levelingInterval);
+    if (leveling) {
+      levelingInterval = setInterval(level, LEVELING_INTERVAL);
+    } else {
+      leveler.gain.setValueAtTime(1, currentTime);
+    }
+  };
+
+  const close = () => {
+    clearInterval(levelingInterval);
+    context.close();
+  };
+
+  return { context, input, update, close };
+};
+
+export default generateAudioEnhancementGraph;
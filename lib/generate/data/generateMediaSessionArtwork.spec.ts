@@ -0,0 +1,28 @@
+import generateMediaSessionArtwork from './generateMediaSessionArtwork';
+
+describe('lib/generate/data', () => {
+  describe('generateMediaSessionArtwork', () => {
+    test('should return sized artwork for trusted images', () => {
+      const src = 'https://f.prxu.org/show/image.jpg';
+      const result = generateMediaSessionArtwork(src);
+
+      expect(result.length).toBe(5);
+      expect(result[0]).toStrictEqual({
+        src: `/_next/image?url=${encodeURIComponent(src)}&w=96&q=75`,
+        sizes: '96x96'
+      });
+      expect(result[3].sizes).toBe('384x384');
+      expect(result[4]).toStrictEqual({ src });
+    });
+
+    test('should return only original for other images', () => {
+      const src = 'https://example.com/image.jpg';
+
+      expect(generateMediaSessionArtwork(src)).toStrictEqual([{ src }]);
+    });
+
+    test('should return empty list without an image', () => {
+      expect(generateMediaSessionArtwork(undefined)).toStrictEqual([]);
+    });
+  });
+});
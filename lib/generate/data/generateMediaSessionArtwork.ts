@@ -0,0 +1,35 @@
+import isTrustedImageDomain from '@lib/validate/isTrustedImageDomain';
+
+type MediaSessionArtwork = MediaMetadata['artwork'][number];
+
+/**
+ * Artwork widths to offer media session UIs. Must be in the Next.js image
+ * sizes config.
+ */
+export const MEDIA_SESSION_ARTWORK_SIZES = [96, 128, 256, 384];
+
+/**
+ * Generate media session artwork list for an image. Trusted images are
+ * offered in several sizes through the Next.js image optimizer, so lock
+ * screens and notifications can pick the best fit. Cover art is square.
+ *
+ * @param src Image URL.
+ * @returns Media session artwork list.
+ */
+const generateMediaSessionArtwork = (src: string): MediaSessionArtwork[] => {
+  if (!src) return [];
+
+  const original: MediaSessionArtwork = { src };
+
+  if (!isTrustedImageDomain(src)) return [original];
+
+  return [
+    ...MEDIA_SESSION_ARTWORK_SIZES.map((size) => ({
+      src: `/_next/image?url=${encodeURIComponent(src)}&w=${size}&q=75`,
+      sizes: `${size}x${size}`
+    })),
+    original
+  ];
+};
+
+export default generateMediaSessionArtwork;
@@ -0,0 +1,129 @@
+import type { IEmbedData } from '@interfaces/data';
+import generateOEmbedResponse from './generateOEmbedResponse';
+
+describe('lib/generate/data', () => {
+  describe('generateOEmbedResponse', () => {
+    const origin = 'https://play.prx.org';
+    const feedUrl = 'https://show.com/feed.xml';
+    const mockAudio = (guid: string) => ({
+      guid,
+      url: `https://show.com/${guid}.mp3`,
+      link: `https://show.com/${guid}`,
+      fileSize: 1000
+    });
+    const mockData: IEmbedData = {
+      audio: {
+        guid: 'ABC',
+        url: 'https://show.com/ep1.mp3',
+        link: 'https://show.com/ep1',
+        fileSize: 1000,
+        title: 'Episode 1',
+        imageUrl: 'https://f.prxu.org/show/ep1.jpg'
+      },
+      playlist: [
+        { ...mockAudio('ABC'), title: 'Episode 1' },
+        { ...mockAudio('DEF'), title: 'Episode 2' },
+        { ...mockAudio('GHI'), title: 'Episode 3' }
+      ],
+      rssTitle: 'The Show',
+      bgImageUrl: 'https://show.com/show.jpg'
+    };
+
+    test('should generate rich response for episode.', () => {
+      const result = generateOEmbedResponse(
+        { feedUrl, episodeGuid: 'ABC' },
+        mockData,
+        { origin }
+      );
+
+      expect(result).toMatchObject({
+        version: '1.0',
+        type: 'rich',
+        provider_url: origin,
+        title: 'Episode 1',
+        author_name: 'The Show',
+        thumbnail_width: 384,
+        thumbnail_height: 384,
+        width: 640,
+        height: 200
+      });
+      expect(result.thumbnail_url).toMatch(
+        `${origin}/_next/image?url=${encodeURIComponent(
+          mockData.audio.imageUrl
+        )}`
+      );
+      expect(result.html).toMatch(`src="${origin}/e?`);
+      expect(result.html).toMatch('height="200"');
+    });
+
+    test('should use feed title for playlists.', () => {
+      const result = generateOEmbedResponse(
+        { feedUrl, showPlaylist: 'all' },
+        mockData,
+        { origin }
+      );
+
+      expect(result.title).toBe('The Show');
+      expect(result.author_name).toBeUndefined();
+      expect(result.thumbnail_url).toBeUndefined();
+      expect(result.height).toBe(200 + 57 + 324);
+    });
+
+    test('should fit max dimensions.', () => {
+      const result = generateOEmbedResponse(
+        { feedUrl, showPlaylist: 'all', showCoverArt: true },
+        mockData,
+        { origin, maxWidth: 400, maxHeight: 400 }
+      );
+
+      expect(result.width).toBe(400);
+      expect(result.height).toBe(200 + 57 + 2 * 61);
+      expect(result.html).not.toMatch(/[?&]ca=/);
+      expect(result.html).toMatch(/[?&]sp=2/);
+      expect(result.html).toMatch('max-width: 400px;');
+    });
+
+    test('should drop playlist when no rows fit max height.', () => {
+      const result = generateOEmbedResponse(
+        { feedUrl, showPlaylist: 'all' },
+        mockData,
+        { origin, maxHeight: 300 }
+      );
+
+      expect(result.height).toBe(200);
+      expect(result.html).not.toMatch(/[?&]sp=/);
+    });
+
+    test('should return null when embed can not fit.', () => {
+      expect(
+        generateOEmbedResponse({ feedUrl }, mockData, {
+          origin,
+          maxWidth: 200
+        })
+      ).toBeNull();
+      expect(
+        generateOEmbedResponse({ feedUrl }, mockData, {
+          origin,
+          maxHeight: 100
+        })
+      ).toBeNull();
+    });
+
+    test('should use short embed URL for stored embeds that fit.', () => {
+      const config = { feedUrl, showCoverArt: true };
+      const fits = generateOEmbedResponse(config, mockData, {
+        origin,
+        embedId: 'abc123'
+      });
+      const resized = generateOEmbedResponse(config, mockData, {
+        origin,
+        maxHeight: 400,
+        embedId: 'abc123'
+      });
+
+      expect(fits.html).toMatch('src="https://play.prx.org/e/abc123"');
+      expect(resized.html).not.toMatch('/e/abc123');
+      expect(resized.html).toMatch('src="https://play.prx.org/e?');
+    });
+  });
+});
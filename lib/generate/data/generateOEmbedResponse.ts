@@ -0,0 +1,114 @@
+import type { IEmbedConfig } from '@interfaces/config';
+import type { IEmbedData } from '@interfaces/data';
+import type { IOEmbedResponse } from '@interfaces/embed';
+import generateEmbedHtml, {
+  getEmbedHeight
+} from '@lib/generate/html/generateEmbedHtml';
+import isTrustedImageDomain from '@lib/validate/isTrustedImageDomain';
+
+/**
+ * Width to use when consumer doesn't provide a max width.
+ */
+export const OEMBED_DEFAULT_WIDTH = 640;
+
+/**
+ * Narrowest width embeds are styled for.
+ */
+export const OEMBED_MIN_WIDTH = 300;
+
+/**
+ * Thumbnail width. Must be in the Next.js image sizes config.
+ */
+export const OEMBED_THUMBNAIL_SIZE = 384;
+
+export type GenerateOEmbedResponseOptions = {
+  origin: string;
+  maxWidth?: number;
+  maxHeight?: number;
+
+  /**
+   * Stored embed ID. Its short embed URL is used unless the embed has to be
+   * changed to fit.
+   */
+  embedId?: string;
+};
+
+/**
+ * Generate rich oEmbed response for an embed. Cover art and playlist rows
+ * are dropped when needed to fit within the consumer's max height.
+ *
+ * @param config Embed config object.
+ * @param data Embed data object.
+ * @param options Play app origin, consumer's max dimensions and stored embed
+ * ID.
+ * @returns oEmbed response, or `null` when embed can't fit max dimensions.
+ */
+const generateOEmbedResponse = (
+  config: IEmbedConfig,
+  data: IEmbedData,
+  { origin, maxWidth, maxHeight, embedId }: GenerateOEmbedResponseOptions
+): IOEmbedResponse | null => {
+  const { audio, playlist, rssTitle, bgImageUrl } = data;
+  const width = Math.min(
+    maxWidth || OEMBED_DEFAULT_WIDTH,
+    OEMBED_DEFAULT_WIDTH
+  );
+  const initialEmbedConfig: IEmbedConfig = {
+    ...config,
+    showPlaylist: playlist ? config.showPlaylist : 0,
+    ...(maxWidth && { maxWidth: width })
+  };
+  let embedConfig = initialEmbedConfig;
+  const getHeight = () =>
+    getEmbedHeight(embedConfig) + (embedConfig.showCoverArt ? width : 0);
+
+  if (width < OEMBED_MIN_WIDTH) return null;
+
+  if (maxHeight && getHeight() > maxHeight && embedConfig.showCoverArt) {
+    embedConfig = { ...embedConfig, showCoverArt: false };
+  }
+
+  if (maxHeight && getHeight() > maxHeight && embedConfig.showPlaylist) {
+    // Playlist header is 57px and each episode row is 61px.
+    const rows = Math.floor((maxHeight - getEmbedHeight({}) - 57) / 61);
+
+    embedConfig = { ...embedConfig, showPlaylist: rows > 1 ? rows : 0 };
+  }
+
+  const height = getHeight();
+
+  if (maxHeight && height > maxHeight) return null;
+
+  const isPlaylist = !!embedConfig.showPlaylist;
+  const useEmbedId = !!embedId && embedConfig === initialEmbedConfig;
+  const title = isPlaylist
+    ? rssTitle || audio?.title
+    : audio?.title || rssTitle;
+  const imageUrl = (!isPlaylist && audio?.imageUrl) || bgImageUrl;
+  const thumbnail = isTrustedImageDomain(imageUrl) && {
+    // Cover art is square.
+    thumbnail_url: `${origin}/_next/image?url=${encodeURIComponent(
+      imageUrl
+    )}&w=${OEMBED_THUMBNAIL_SIZE}&q=75`,
+    thumbnail_width: OEMBED_THUMBNAIL_SIZE,
+    thumbnail_height: OEMBED_THUMBNAIL_SIZE
+  };
+
+  return {
+    version: '1.0',
+    type: 'rich',
+    provider_name: 'PRX Play',
+    provider_url: origin,
+    ...(title && { title }),
+    ...(rssTitle && rssTitle !== title && { author_name: rssTitle }),
+    ...thumbnail,
+    html: generateEmbedHtml(embedConfig, {
+      origin,
+      ...(useEmbedId && { embedId })
+    }),
+    width,
+    height
+  };
+};
+
+export default generateOEmbedResponse;
@@ -0,0 +1,20 @@
+import generateStoredEmbedResponse from './generateStoredEmbedResponse';
+
+describe('lib/generate/data', () => {
+  describe('generateStoredEmbedResponse', () => {
+    test('should include short embed URL and auto resizing HTML.', () => {
+      const embed = {
+        id: 'abc123',
+        config: { feedUrl: 'https://example.com/feed.xml' },
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z'
+      };
+      const result = generateStoredEmbedResponse(embed, 'https://play.prx.org');
+
+      expect(result).toMatchObject(embed);
+      expect(result.embedUrl).toBe('https://play.prx.org/e/abc123');
+      expect(result.embedHtml).toMatch('src="https://play.prx.org/e/abc123"');
+      expect(result.embedHtml).toMatch('data-prx-play-auto-resize');
+    });
+  });
+});
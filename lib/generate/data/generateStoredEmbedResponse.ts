@@ -0,0 +1,26 @@
+import type { IStoredEmbed, IStoredEmbedResponse } from '@interfaces/embed';
+import generateEmbedHtml from '@lib/generate/html/generateEmbedHtml';
+import generateStoredEmbedUrl from '@lib/generate/string/generateStoredEmbedUrl';
+
+/**
+ * Generate embeds API response for a stored embed. Embed HTML resizes itself,
+ * so embeds keep fitting their content when their config is changed later.
+ *
+ * @param embed Stored embed.
+ * @param origin Origin of the Play app.
+ * @returns Stored embed with its embed URL and HTML.
+ */
+const generateStoredEmbedResponse = (
+  embed: IStoredEmbed,
+  origin: string
+): IStoredEmbedResponse => ({
+  ...embed,
+  embedUrl: generateStoredEmbedUrl(embed.id, origin),
+  embedHtml: generateEmbedHtml(embed.config, {
+    origin,
+    embedId: embed.id,
+    autoResize: true
+  })
+});
+
+export default generateStoredEmbedResponse;
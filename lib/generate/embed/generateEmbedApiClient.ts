@@ -0,0 +1,154 @@
+/**
+ * @file generateEmbedApiClient.ts
+ *
+ * Client host pages can use to control and observe a Play embed iframe.
+ */
+
+import type {
+  EmbedApiCommand,
+  EmbedApiEvent,
+  EmbedApiEventName,
+  EmbedApiMessage
+} from '@interfaces/embed';
+import { EMBED_API_NAMESPACE, EMBED_API_VERSION } from '@interfaces/embed';
+
+export type EmbedApiEventHandler<E extends EmbedApiEventName> = (
+  // eslint-disable-next-line no-unused-vars
+  event: Extract<EmbedApiEvent, { event: E }>
+) => void;
+
+export interface IEmbedApiClient {
+  play(): void;
+  pause(): void;
+  // eslint-disable-next-line no-unused-vars
+  seekTo(time: number): void;
+  // eslint-disable-next-line no-unused-vars
+  setVolume(volume: number): void;
+  // eslint-disable-next-line no-unused-vars
+  setTrack(index: number): void;
+  // eslint-disable-next-line no-unused-vars
+  loadEpisode(guid: string): void;
+
+  /**
+   * Listen for embed events.
+   *
+   * @returns Function that removes the handler.
+   */
+  on<E extends EmbedApiEventName>(
+    // eslint-disable-next-line no-unused-vars
+    event: E,
+    // eslint-disable-next-line no-unused-vars
+    handler: EmbedApiEventHandler<E>
+  ): () => void;
+
+  /**
+   * Stop listening for embed events.
+   */
+  destroy(): void;
+}
+
+/**
+ * Generate client to control a Play embed iframe from its host page.
+ * Commands sent before the embed is ready are queued until it is.
+ *
+ * @param iframe Embed iframe element.
+ * @param targetOrigin Origin of the embed. Defaults to the iframe `src` origin.
+ * @returns Embed API client.
+ */
+const generateEmbedApiClient = (
+  iframe: HTMLIFrameElement,
+  targetOrigin = new URL(iframe.src).origin
+): IEmbedApiClient => {
+  // eslint-disable-next-line no-unused-vars
+  const handlers = new Map<EmbedApiEventName, Set<(event: any) => void>>();
+  let queue: EmbedApiCommand[] = [];
+  let ready = false;
+
+  const send = (command: EmbedApiCommand) => {
+    if (!ready) {
+      queue.push(command);
+      return;
+    }
+
+    const message: EmbedApiMessage<EmbedApiCommand> = {
+      namespace: EMBED_API_NAMESPACE,
+      version: EMBED_API_VERSION,
+      ...command
+    };
+
+    iframe.contentWindow?.postMessage(message, targetOrigin);
+  };
+
+  const handleMessage = (e: MessageEvent) => {
+    const { data } = e;
+
+    if (
+      e.source !== iframe.contentWindow ||
+      e.origin !== targetOrigin ||
+      data?.namespace !== EMBED_API_NAMESPACE ||
+      !data.event
+    ) {
+      return;
+    }
+
+    if (data.event === 'ready') {
+      ready = true;
+      queue.forEach(send);
+      queue = [];
+    }
+
+    handlers.get(data.event)?.forEach((handler) => handler(data));
+  };
+
+  const sayHello = () => {
+    iframe.contentWindow?.postMessage(
+      {
+        namespace: EMBED_API_NAMESPACE,
+        version: EMBED_API_VERSION,
+        command: 'hello'
+      },
+      targetOrigin
+    );
+  };
+
+  // Embed reloads, eg. to load an episode, so queue commands until it is
+  // ready again.
+  const handleLoad = () => {
+    ready = false;
+    sayHello();
+  };
+
+  window.addEventListener('message', handleMessage);
+  iframe.addEventListener('load', handleLoad);
+
+  // Embed may have loaded before the client was created.
+  sayHello();
+
+  return {
+    play: () => send({ command: 'play' }),
+    pause: () => send({ command: 'pause' }),
+    seekTo: (time) => send({ command: 'seekTo', time }),
+    setVolume: (volume) => send({ command: 'setVolume', volume }),
+    setTrack: (index) => send({ command: 'setTrack', index }),
+    loadEpisode: (guid) => send({ command: 'loadEpisode', guid }),
+    on: (event, handler) => {
+      if (!handlers.has(event)) {
+        handlers.set(event, new Set());
+      }
+
+      handlers.get(event).add(handler);
+
+      return () => {
+        handlers.get(event)?.delete(handler);
+      };
+    },
+    destroy: () => {
+      window.removeEventListener('message', handleMessage);
+      iframe.removeEventListener('load', handleLoad);
+      handlers.clear();
+      queue = [];
+    }
+  };
+};
+
+export default generateEmbedApiClient;
@@ -0,0 +1,120 @@
+/**
+ * Name used to tell Play embed channel messages apart from other messages.
+ * Broadcast channel names add the page key to it.
+ */
+export const EMBED_CHANNEL_NAME = 'prx-play:embeds';
+
+/**
+ * Embed URL hash parameter host pages set to the same random key for every
+ * embed on the page, eg. `#page=k3y`.
+ */
+export const EMBED_PAGE_KEY_PARAM = 'page';
+
+/**
+ * Messages embeds on the same page send each other.
+ * - `announce`: Embed joined the page, or is answering another embed that did.
+ * - `leave`: Embed is unloading.
+ * - `play`: Embed started playing, so others should pause.
+ * - `continue`: Embed finished playing, and the target embed should start.
+ */
+export type EmbedChannelMessage =
+  | { type: 'announce'; id: string; frameIndex: number }
+  | { type: 'leave'; id: string }
+  | { type: 'play'; id: string }
+  | { type: 'continue'; id: string; target: string };
+
+interface IEmbedChannelEnvelope {
+  channel: typeof EMBED_CHANNEL_NAME;
+  message: EmbedChannelMessage;
+}
+
+export interface IEmbedChannel {
+  /**
+   * Send a message to the other embeds on the page.
+   */
+  // eslint-disable-next-line no-unused-vars
+  post(message: EmbedChannelMessage): void;
+
+  /**
+   * Stop listening for messages.
+   */
+  close(): void;
+}
+
+/**
+ * Generate channel to message other Play embeds on the same page. Uses a
+ * BroadcastChannel on the Play origin, named for the page key, when supported
+ * and the host page gave the embed a page key, so embeds in other tabs aren't
+ * messaged. Otherwise messages are relayed with postMessage to the parent
+ * page's other frames.
+ *
+ * @param onMessage Handler for messages from other embeds.
+ * @param pageKey Key shared by embeds on the same host page.
+ * @returns Embed channel, or `null` when not running in a browser.
+ */
+const generateEmbedChannel = (
+  // eslint-disable-next-line no-unused-vars
+  onMessage: (message: EmbedChannelMessage) => void,
+  pageKey?: string
+): IEmbedChannel => {
+  if (typeof window === 'undefined') return null;
+
+  const isEnvelope = (data: any): data is IEmbedChannelEnvelope =>
+    !!data &&
+    data.channel === EMBED_CHANNEL_NAME &&
+    typeof data.message?.type === 'string';
+  const wrap = (message: EmbedChannelMessage): IEmbedChannelEnvelope => ({
+    channel: EMBED_CHANNEL_NAME,
+    message
+  });
+
+  if (pageKey && window.BroadcastChannel) {
+    const broadcastChannel = new BroadcastChannel(
+      `${EMBED_CHANNEL_NAME}:${pageKey}`
+    );
+
+    broadcastChannel.onmessage = (e: MessageEvent) => {
+      if (isEnvelope(e.data)) {
+        onMessage(e.data.message);
+      }
+    };
+
+    return {
+      post: (message) => broadcastChannel.postMessage(wrap(message)),
+      close: () => broadcastChannel.close()
+    };
+  }
+
+  const handleMessage = (e: MessageEvent) => {
+    if (
+      e.origin === window.location.origin &&
+      e.source !== window &&
+      isEnvelope(e.data)
+    ) {
+      onMessage(e.data.message);
+    }
+  };
+
+  window.addEventListener('message', handleMessage);
+
+  return {
+    post: (message) => {
+      if (window.parent === window) return;
+
+      try {
+        const { frames } = window.parent;
+
+        for (let i = 0; i < frames.length; i += 1) {
+          if (frames[i] !== window) {
+            frames[i].postMessage(wrap(message), window.location.origin);
+          }
+        }
+      } catch (e) {
+        // Parent page frames aren't reachable, so there is no one to tell.
+      }
+    },
+    close: () => window.removeEventListener('message', handleMessage)
+  };
+};
+
+export default generateEmbedChannel;
@@ -0,0 +1,125 @@
+/* global PrxPlay */
+import generateEmbedApiClientScript from './generateEmbedApiClientScript';
+
+describe('lib/generate/html', () => {
+  describe('generateEmbedApiClient', () => {
+    const origin = 'https://play.prx.org';
+    let iframe: HTMLIFrameElement;
+
+    // eslint-disable-next-line no-new-func
+    new Function(generateEmbedApiClientScript())();
+
+    const generateEmbedApiClient: typeof PrxPlay.createClient = (elm) =>
+      (window as any).PrxPlay.createClient(elm);
+
+    const sendEvent = (data: any, eventOrigin = origin) => {
+      window.dispatchEvent(
+        new MessageEvent('message', {
+          data: { namespace: 'prx-play', version: 1, ...data },
+          origin: eventOrigin,
+          source: iframe.contentWindow
+        })
+      );
+    };
+
+    beforeEach(() => {
+      iframe = document.createElement('iframe');
+      iframe.src = `${origin}/e?uf=https://example.com/feed.xml`;
+      document.body.appendChild(iframe);
+    });
+
+    afterEach(() => {
+      iframe.remove();
+    });
+
+    test('should queue commands until embed is ready', () => {
+      const client = generateEmbedApiClient(iframe);
+      const postMessage = jest.spyOn(iframe.contentWindow, 'postMessage');
+
+      client.play();
+      client.seekTo(30);
+
+      expect(postMessage).not.toHaveBeenCalled();
+
+      sendEvent({ event: 'ready', tracks: [], currentTrackIndex: 0 });
+
+      expect(postMessage).toHaveBeenCalledTimes(2);
+      expect(postMessage).toHaveBeenNthCalledWith(
+        1,
+        { namespace: 'prx-play', version: 1, command: 'play' },
+        origin
+      );
+      expect(postMessage).toHaveBeenNthCalledWith(
+        2,
+        { namespace: 'prx-play', version: 1, command: 'seekTo', time: 30 },
+        origin
+      );
+
+      client.destroy();
+    });
+
+    test('should queue commands again while embed reloads', () => {
+      const client = generateEmbedApiClient(iframe);
+      const postMessage = jest.spyOn(iframe.contentWindow, 'postMessage');
+
+      sendEvent({ event: 'ready', tracks: [], currentTrackIndex: 0 });
+      iframe.dispatchEvent(new Event('load'));
+      postMessage.mockClear();
+      client.play();
+
+      expect(postMessage).not.toHaveBeenCalled();
+
+      sendEvent({ event: 'ready', tracks: [], currentTrackIndex: 0 });
+
+      expect(postMessage).toHaveBeenCalledWith(
+        { namespace: 'prx-play', version: 1, command: 'play' },
+        origin
+      );
+
+      client.destroy();
+    });
+
+    test('should ask embed to announce it is ready', () => {
+      const postMessage = jest.spyOn(iframe.contentWindow, 'postMessage');
+      const client = generateEmbedApiClient(iframe);
+
+      expect(postMessage).toHaveBeenCalledWith(
+        { namespace: 'prx-play', version: 1, command: 'hello' },
+        origin
+      );
+
+      client.destroy();
+    });
+
+    test('should call event handlers', () => {
+      const client = generateEmbedApiClient(iframe);
+      const handler = jest.fn();
+      const off = client.on('timeupdate', handler);
+
+      sendEvent({ event: 'timeupdate', currentTime: 5, duration: 60 });
+
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ currentTime: 5, duration: 60 })
+      );
+
+      off();
+      sendEvent({ event: 'timeupdate', currentTime: 6, duration: 60 });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      client.destroy();
+    });
+
+    test('should ignore messages from other origins', () => {
+      const client = generateEmbedApiClient(iframe);
+      const handler = jest.fn();
+
+      client.on('play', handler);
+      sendEvent({ event: 'play' }, 'https://example.com');
+
+      expect(handler).not.toHaveBeenCalled();
+
+      client.destroy();
+    });
+  });
+});
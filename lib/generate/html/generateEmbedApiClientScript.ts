@@ -0,0 +1,112 @@
+/**
+ * @file generateEmbedApiClientScript.ts
+ *
+ * Generate the script host pages can load to control and observe a Play embed
+ * iframe.
+ */
+
+import { EMBED_API_NAMESPACE, EMBED_API_VERSION } from '@interfaces/embed';
+
+/**
+ * Path the embed API client script is served from.
+ */
+export const EMBED_API_CLIENT_SCRIPT_PATH = '/prx-play-api.js';
+
+/**
+ * Name of the global the embed API client script defines.
+ */
+export const EMBED_API_CLIENT_GLOBAL = 'PrxPlay';
+
+/**
+ * Generate script defining `PrxPlay.createClient(iframe, targetOrigin)`. The
+ * client sends embed API commands to the iframe, queueing them until the embed
+ * is ready, and calls handlers added with `on(event, handler)` for its events.
+ * Target origin defaults to the iframe `src` origin.
+ *
+ * @returns Embed API client script.
+ */
+const generateEmbedApiClientScript = () => `(function () {
+  if (window.${EMBED_API_CLIENT_GLOBAL}) return;
+
+  var MESSAGE = { namespace: '${EMBED_API_NAMESPACE}', version: ${EMBED_API_VERSION} };
+
+  function createClient(iframe, targetOrigin) {
+    var origin = targetOrigin || new URL(iframe.src).origin;
+    var handlers = {};
+    var queue = [];
+    var ready = false;
+
+    function post(command) {
+      if (iframe.contentWindow) {
+        iframe.contentWindow.postMessage(Object.assign({}, MESSAGE, command), origin);
+      }
+    }
+
+    function send(command) {
+      if (!ready) {
+        queue.push(command);
+        return;
+      }
+
+      post(command);
+    }
+
+    function handleMessage(e) {
+      var message = e.data;
+
+      if (e.source !== iframe.contentWindow || e.origin !== origin) return;
+      if (!message || message.namespace !== MESSAGE.namespace || !message.event) return;
+
+      if (message.event === 'ready') {
+        ready = true;
+        queue.splice(0).forEach(post);
+      }
+
+      (handlers[message.event] || []).slice().forEach((handler) => handler(message));
+    }
+
+    function sayHello() {
+      post({ command: 'hello' });
+    }
+
+    // Embed reloads, eg. to load an episode, so queue commands until it is
+    // ready again.
+    function handleLoad() {
+      ready = false;
+      sayHello();
+    }
+
+    window.addEventListener('message', handleMessage);
+    iframe.addEventListener('load', handleLoad);
+
+    // Embed may have loaded before the client was created.
+    sayHello();
+
+    return {
+      play: () => send({ command: 'play' }),
+      pause: () => send({ command: 'pause' }),
+      seekTo: (time) => send({ command: 'seekTo', time: time }),
+      setVolume: (volume) => send({ command: 'setVolume', volume: volume }),
+      setTrack: (index) => send({ command: 'setTrack', index: index }),
+      loadEpisode: (guid) => send({ command: 'loadEpisode', guid: guid }),
+      on: (event, handler) => {
+        handlers[event] = (handlers[event] || []).concat(handler);
+
+        return () => {
+          handlers[event] = (handlers[event] || []).filter((h) => h !== handler);
+        };
+      },
+      destroy: () => {
+        window.removeEventListener('message', handleMessage);
+        iframe.removeEventListener('load', handleLoad);
+        handlers = {};
+        queue = [];
+      }
+    };
+  }
+
+  window.${EMBED_API_CLIENT_GLOBAL} = { createClient: createClient };
+})();
+`;
+
+export default generateEmbedApiClientScript;
@@ -0,0 +1,104 @@
+import generateEmbedElementScript, {
+  EmbedElementAttributesMap,
+  generateEmbedElementMarkup
+} from './generateEmbedElement';
+
+describe('lib/generate/html', () => {
+  describe('generateEmbedElement', () => {
+    test('should map kebab case attributes to embed params.', () => {
+      expect(EmbedElementAttributesMap.get('feed-url')).toBe('uf');
+      expect(EmbedElementAttributesMap.get('episode-guid')).toBe('ge');
+      expect(EmbedElementAttributesMap.get('show-playlist')).toBe('sp');
+      expect(EmbedElementAttributesMap.get('accent-color')).toBe('ac');
+      expect(EmbedElementAttributesMap.get('theme')).toBe('th');
+    });
+
+    test('should generate element markup.', () => {
+      const result = generateEmbedElementMarkup({
+        feedUrl: 'https://show.com/feed.xml?a=1&b="2"',
+        showPlaylist: 5,
+        showCoverArt: true,
+        accentColor: ['#ff0000', '#0000ff 50%']
+      });
+
+      expect(result).toMatch(/^<prx-play [^>]+><\/prx-play>$/);
+      expect(result).toMatch(
+        'feed-url="https://show.com/feed.xml?a=1&amp;b=&quot;2&quot;"'
+      );
+      expect(result).toMatch('show-playlist="5"');
+      expect(result).toMatch(/ show-cover-art[ >]/);
+      expect(result).toMatch('accent-color="ff0000,0000ff 50%"');
+    });
+
+    test('should define element that renders embed iframe.', () => {
+      // eslint-disable-next-line no-new-func
+      new Function(generateEmbedElementScript('https://play.prx.org'))();
+
+      document.body.innerHTML = generateEmbedElementMarkup({
+        feedUrl: 'https://show.com/feed.xml',
+        showCoverArt: true,
+        accentColor: ['#ff0000', '#0000ff']
+      });
+
+      const element = document.querySelector('prx-play');
+      const iframe = element.querySelector('iframe');
+      const src = new URL(iframe.src);
+
+      expect(src.origin + src.pathname).toBe('https://play.prx.org/e');
+      expect(src.searchParams.get('uf')).toBe('https://show.com/feed.xml');
+      expect(src.searchParams.get('ca')).toBe('1');
+      expect(src.searchParams.getAll('ac')).toEqual(['ff0000', '0000ff']);
+      expect(src.hash).toMatch(/^#page=\w+$/);
+
+      element.setAttribute('episode-guid', 'ABC');
+
+      expect(new URL(iframe.src).searchParams.get('ge')).toBe('ABC');
+    });
+
+    test('should only write origin of app URL to script.', () => {
+      const result = generateEmbedElementScript(
+        'https://play.prx.org/";alert(1);//'
+      );
+
+      expect(result).toMatch('var ORIGIN = "https://play.prx.org";');
+      expect(result).not.toMatch('alert');
+    });
+
+    test('should relay methods once embed is ready.', () => {
+      document.body.innerHTML =
+        '<prx-play feed-url="https://show.com/feed.xml"></prx-play>';
+
+      const element = document.querySelector('prx-play') as HTMLElement & {
+        play(): void;
+      };
+      const iframe = element.querySelector('iframe');
+      const spy = jest.spyOn(iframe.contentWindow, 'postMessage');
+      const handleReady = jest.fn();
+
+      element.addEventListener('ready', handleReady);
+      element.play();
+
+      expect(spy).not.toHaveBeenCalled();
+
+      window.dispatchEvent(
+        new MessageEvent('message', {
+          data: { namespace: 'prx-play', version: 1, event: 'ready' },
+          origin: 'https://play.prx.org',
+          source: iframe.contentWindow
+        })
+      );
+
+      expect(handleReady).toHaveBeenCalled();
+      expect(spy).toHaveBeenCalledWith(
+        { namespace: 'prx-play', version: 1, command: 'play' },
+        'https://play.prx.org'
+      );
+
+      iframe.dispatchEvent(new Event('load'));
+      spy.mockClear();
+      element.play();
+
+      expect(spy).not.toHaveBeenCalled();
+    });
+  });
+});
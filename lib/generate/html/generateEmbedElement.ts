@@ -0,0 +1,220 @@
+/**
+ * @file generateEmbedElement.ts
+ *
+ * Generate `<prx-play>` custom element markup and the script that defines it.
+ */
+
+import type { IEmbedConfig, IEmbedParams } from '@interfaces/config';
+import { EmbedConfigKeysMap } from '@interfaces/config';
+import { EMBED_API_NAMESPACE, EMBED_API_VERSION } from '@interfaces/embed';
+import { EMBED_PAGE_KEY_PARAM } from '@lib/generate/embed/generateEmbedChannel';
+import parseEmbedConfigToParams from '@lib/parse/config/parseEmbedConfigToParams';
+
+/**
+ * Tag name of the custom element.
+ */
+export const EMBED_ELEMENT_NAME = 'prx-play';
+
+/**
+ * Path the custom element script is served from.
+ */
+export const EMBED_ELEMENT_SCRIPT_PATH = '/prx-play.js';
+
+/**
+ * Get custom element attribute name for a config property, eg. `feed-url`.
+ *
+ * @param configKey Embed config property key.
+ * @returns Attribute name.
+ */
+const getAttributeName = (configKey: string) =>
+  configKey.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+
+/**
+ * Map of custom element attribute names to embed parameter keys.
+ */
+export const EmbedElementAttributesMap: Map<string, keyof IEmbedParams> =
+  new Map(
+    [...EmbedConfigKeysMap.entries()].map(([configKey, paramKey]) => [
+      getAttributeName(configKey),
+      paramKey
+    ])
+  );
+
+/**
+ * Generate custom element markup from embed config options. Flags are
+ * boolean attributes and accent colors are a comma separated list.
+ *
+ * @param config Embed config object.
+ * @returns Custom element HTML markup.
+ */
+export const generateEmbedElementMarkup = (config: IEmbedConfig) => {
+  const params = parseEmbedConfigToParams(config);
+  const attributes = [...EmbedConfigKeysMap.entries()]
+    .filter(([, paramKey]) => params[paramKey])
+    .map(([configKey, paramKey]) => {
+      const attribute = getAttributeName(configKey);
+      const value = params[paramKey];
+
+      if (typeof config[configKey] === 'boolean') return attribute;
+
+      const attributeValue = (Array.isArray(value) ? value : [value])
+        .join(',')
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;');
+
+      return `${attribute}="${attributeValue}"`;
+    });
+
+  return `<${EMBED_ELEMENT_NAME} ${attributes.join(
+    ' '
+  )}></${EMBED_ELEMENT_NAME}>`;
+};
+
+/**
+ * Generate script defining the custom element. The element renders an embed
+ * iframe for its attributes, resizes it to the reported content height, and
+ * relays `play()`, `pause()` and `seek(time)` calls with the embed API.
+ * Elements on the same page give their embeds the same page key.
+ * Embed API events are dispatched on the element, eg. `play` and `ended`.
+ *
+ * @param origin Origin of the Play app. Anything else in the URL is dropped.
+ * @returns Custom element script.
+ */
+const generateEmbedElementScript = (origin: string) => {
+  const attributesMap = JSON.stringify(
+    Object.fromEntries(EmbedElementAttributesMap)
+  );
+
+  return `(function () {
+  if (!window.customElements || window.customElements.get('${EMBED_ELEMENT_NAME}')) return;
+
+  var ORIGIN = ${JSON.stringify(new URL(origin).origin)};
+  var ATTRIBUTES = ${attributesMap};
+  var MESSAGE = { namespace: '${EMBED_API_NAMESPACE}', version: ${EMBED_API_VERSION} };
+  var PAGE_KEY = Math.random().toString(36).slice(2);
+
+  class PrxPlayElement extends HTMLElement {
+    static get observedAttributes() {
+      return Object.keys(ATTRIBUTES);
+    }
+
+    constructor() {
+      super();
+      this.queue = [];
+      this.ready = false;
+      this.handleMessage = this.handleMessage.bind(this);
+    }
+
+    connectedCallback() {
+      if (!this.iframe) {
+        this.iframe = document.createElement('iframe');
+        this.iframe.title = 'PRX Play';
+        this.iframe.setAttribute('frameborder', '0');
+        this.iframe.setAttribute('scrolling', 'no');
+        this.iframe.setAttribute('width', '100%');
+        this.iframe.setAttribute('height', '200');
+        this.iframe.style.cssText = 'display: block; min-width: 300px; border: 0;';
+        this.iframe.addEventListener('load', () => {
+          // Embed reloads, eg. to load an episode, so queue until it is ready.
+          this.ready = false;
+          this.post({ command: 'hello' });
+        });
+        this.appendChild(this.iframe);
+      }
+
+      if (!this.style.display) this.style.display = 'block';
+
+      window.addEventListener('message', this.handleMessage);
+      this.render();
+    }
+
+    disconnectedCallback() {
+      window.removeEventListener('message', this.handleMessage);
+    }
+
+    attributeChangedCallback() {
+      if (this.iframe) this.render();
+    }
+
+    get src() {
+      var params = new URLSearchParams();
+
+      Object.keys(ATTRIBUTES).forEach((attribute) => {
+        if (!this.hasAttribute(attribute)) return;
+
+        var value = this.getAttribute(attribute);
+        var values = attribute === 'accent-color'
+          ? value.split(',').map((v) => v.trim().replace(/^#/, ''))
+          : [value === '' || value === 'true' ? '1' : value];
+
+        values.forEach((v) => params.append(ATTRIBUTES[attribute], v));
+      });
+
+      params.sort();
+
+      return ORIGIN + '/e?' + params + '#${EMBED_PAGE_KEY_PARAM}=' + PAGE_KEY;
+    }
+
+    render() {
+      var src = this.src;
+
+      if (this.embedSrc === src) return;
+
+      this.embedSrc = src;
+      this.ready = false;
+      this.iframe.allow = this.hasAttribute('continue-to-next-embed')
+        ? 'autoplay; monetization'
+        : 'monetization';
+      this.iframe.src = src;
+    }
+
+    handleMessage(e) {
+      var message = e.data;
+
+      if (e.source !== this.iframe.contentWindow || e.origin !== ORIGIN) return;
+      if (!message || message.namespace !== MESSAGE.namespace) return;
+
+      if (message.event === 'ready' && !this.ready) {
+        this.ready = true;
+        this.queue.splice(0).forEach((command) => this.post(command));
+      }
+
+      if (message.event === 'resize' && message.height > 0) {
+        this.iframe.style.height = Math.ceil(message.height) + 'px';
+      }
+
+      this.dispatchEvent(new CustomEvent(message.event, { detail: message }));
+    }
+
+    post(command) {
+      this.iframe.contentWindow.postMessage(Object.assign({}, MESSAGE, command), ORIGIN);
+    }
+
+    send(command) {
+      if (!this.ready) {
+        this.queue.push(command);
+        return;
+      }
+
+      this.post(command);
+    }
+
+    play() {
+      this.send({ command: 'play' });
+    }
+
+    pause() {
+      this.send({ command: 'pause' });
+    }
+
+    seek(time) {
+      this.send({ command: 'seekTo', time: time });
+    }
+  }
+
+  window.customElements.define('${EMBED_ELEMENT_NAME}', PrxPlayElement);
+})();
+`;
+};
+
+export default generateEmbedElementScript;
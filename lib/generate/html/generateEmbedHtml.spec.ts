@@ -1,5 +1,7 @@
 import { IEmbedConfig } from '@interfaces/config';
-import generateEmbedHtml from './generateEmbedHtml';
+import generateEmbedHtml, {
+  generateEmbedResizeScript
+} from './generateEmbedHtml';
 
 describe('lib/generate/html', () => {
   describe('generateEmbedHtml', () => {
@@ -86,5 +88,84 @@ describe('lib/generate/html', () => {
       expect(result).toMatch('scrolling="no"');
       expect(result).toMatch('allow="monetization"');
     });
+
+    test('should include loader script and marked iframe for auto resizing.', () => {
+      const result = generateEmbedHtml(
+        {
+          ...mockConfig,
+          showCoverArt: true,
+          showPlaylist: 15
+        },
+        { autoResize: true }
+      );
+
+      expect(result).toMatch(
+        /^<iframe[^>]+data-prx-play-auto-resize[^>]+><\/iframe><script>.+<\/script>$/
+      );
+      expect(result).toMatch(/[?&]ca=1/);
+      expect(result).toMatch('height="881"');
+      expect(result).toMatch('style="min-width: 300px;"');
+      expect(result).not.toMatch('<div');
+    });
+
+    test('should resize marked iframe from loader script.', () => {
+      document.body.innerHTML = generateEmbedHtml(mockConfig, {
+        autoResize: true
+      });
+      const iframe = document.querySelector('iframe');
+      const script = generateEmbedResizeScript().replace(
+        /^<script>(.+)<\/script>$/,
+        '$1'
+      );
+
+      // eslint-disable-next-line no-new-func
+      new Function(script)();
+
+      window.dispatchEvent(
+        new MessageEvent('message', {
+          data: {
+            namespace: 'prx-play',
+            version: 1,
+            event: 'resize',
+            height: 421
+          },
+          origin: 'http://localhost',
+          source: iframe.contentWindow
+        })
+      );
+
+      expect(iframe.style.height).toBe('421px');
+    });
+
+    test('should output custom element and its script.', () => {
+      const result = generateEmbedHtml(
+        { ...mockConfig, showPlaylist: 5 },
+        { origin: 'https://play.prx.org', element: true }
+      );
+
+      expect(result).toBe(
+        '<prx-play feed-url="https://show.com/feed.xml" show-playlist="5"></prx-play><script async src="https://play.prx.org/prx-play.js"></script>'
+      );
+    });
+
+    test('should use short embed URL for stored embeds.', () => {
+      const result = generateEmbedHtml(
+        { ...mockConfig, showPlaylist: 5 },
+        { origin: 'https://play.prx.org', embedId: 'abc123' }
+      );
+
+      expect(result).toMatch('src="https://play.prx.org/e/abc123"');
+      expect(result).toMatch('height="562"');
+    });
+
+    test('should allow autoplay when continuing to next embed.', () => {
+      const result = generateEmbedHtml({
+        ...mockConfig,
+        continueToNextEmbed: true
+      });
+
+      expect(result).toMatch(/[?&]cn=1/);
+      expect(result).toMatch('allow="autoplay; monetization"');
+    });
   });
 });
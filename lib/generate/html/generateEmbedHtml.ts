@@ -5,7 +5,19 @@
  */
 
 import type { IEmbedConfig } from '@interfaces/config';
+import { EMBED_API_NAMESPACE } from '@interfaces/embed';
 import generateEmbedUrl from '@lib/generate/string/generateEmbedUrl';
+import generateStoredEmbedUrl from '@lib/generate/string/generateStoredEmbedUrl';
+import {
+  EMBED_ELEMENT_SCRIPT_PATH,
+  generateEmbedElementMarkup
+} from './generateEmbedElement';
+
+/**
+ * Tallest a playlist gets before its episodes scroll. Playlist header is
+ * 56px + 1px bottom border, plus 5.5 episode rows.
+ */
+export const EMBED_PLAYLIST_MAX_HEIGHT = 57 + 324;
 
 export const getEmbedHeight = (config: IEmbedConfig) => {
   const { showPlaylist } = config;
@@ -16,7 +28,7 @@ export const getEmbedHeight = (config: IEmbedConfig) => {
   // Playlist episode row height is 60px border.
   if (showPlaylist === 'all' || showPlaylist > 5) {
     // Cap height at 5.5 episode rows and header.
-    height += 57 + 324;
+    height += EMBED_PLAYLIST_MAX_HEIGHT;
   } else if (showPlaylist > 1) {
     // Set height ti number of episode rows plus header.
     height += 57 + showPlaylist * 61;
@@ -50,18 +62,90 @@ export const generateEmbedStyles = (config: IEmbedConfig) => {
   };
 };
 
-const generateEmbedHtml = (config: IEmbedConfig) => {
-  const { showCoverArt } = config;
-  const src = generateEmbedUrl(config);
+/**
+ * Attribute marking iframes the resize loader script may resize.
+ */
+export const EMBED_AUTO_RESIZE_ATTRIBUTE = 'data-prx-play-auto-resize';
+
+/**
+ * Generate loader script that resizes marked embed iframes to the content
+ * height their embeds report. Safe to include more than once on a page.
+ */
+export const generateEmbedResizeScript = () =>
+  `<script>(function(w,d){if(w.prxPlayAutoResize)return;w.prxPlayAutoResize=1;w.addEventListener('message',function(e){var m=e.data;if(!m||m.namespace!=='${EMBED_API_NAMESPACE}'||m.event!=='resize'||!(m.height>0))return;d.querySelectorAll('iframe[${EMBED_AUTO_RESIZE_ATTRIBUTE}]').forEach(function(f){if(f.contentWindow===e.source&&new URL(f.src).origin===e.origin){f.style.height=Math.ceil(m.height)+'px';}});});})(window,document);</script>`;
+
+export interface IGenerateEmbedHtmlOptions {
+  /**
+   * Origin of the Play app. Defaults to the current window origin.
+   */
+  origin?: string;
+
+  /**
+   * Include loader script that keeps the iframe height matched to the
+   * embed's content.
+   */
+  autoResize?: boolean;
+
+  /**
+   * Output `<prx-play>` custom element and its script instead of an iframe.
+   */
+  element?: boolean;
+
+  /**
+   * Use the short embed URL of the stored embed with this ID. Config is still
+   * used to size the iframe. Ignored for custom elements.
+   */
+  embedId?: string;
+}
+
+/**
+ * Generate embed HTML markup from embed config options.
+ *
+ * @param config Embed config object.
+ * @param options Markup options.
+ * @returns Embed HTML markup.
+ */
+const generateEmbedHtml = (
+  config: IEmbedConfig,
+  options: IGenerateEmbedHtmlOptions = {}
+) => {
+  const { showCoverArt, continueToNextEmbed } = config;
+  const { origin, autoResize, element, embedId } = options;
+  const src = embedId
+    ? generateStoredEmbedUrl(embedId, origin)
+    : generateEmbedUrl(config, origin);
+
+  if (element) {
+    const scriptSrc = new URL(EMBED_ELEMENT_SCRIPT_PATH, src).toString();
+
+    return `${generateEmbedElementMarkup(
+      config
+    )}<script async src="${scriptSrc}"></script>`;
+  }
+
+  // Embeds continued from another embed start playing on their own.
+  const allow = continueToNextEmbed ? 'autoplay; monetization' : 'monetization';
   const height = getEmbedHeight(config);
+
+  // Size iframe to reported content instead of reserving space for cover art.
+  // Start cover art embeds at their narrowest size until the embed reports in.
+  if (autoResize) {
+    const styles = generateEmbedStyles({ ...config, showCoverArt: false });
+    const initialHeight = height + (showCoverArt ? 300 : 0);
+
+    return `<iframe allow="${allow}" ${EMBED_AUTO_RESIZE_ATTRIBUTE} frameborder="0" height="${initialHeight}" scrolling="no" src="${src}" style="${
+      styles.iframe
+    }" width="100%"></iframe>${generateEmbedResizeScript()}`;
+  }
+
   const styles = generateEmbedStyles(config);
 
   // Add some height for cover art and responsive styling.
   if (showCoverArt) {
-    return `<div style="${styles.wrapper}"><iframe allow="monetization" frameborder="0" height="100%" scrolling="no" src="${src}" style="${styles.iframe}" width="100%"></iframe></div>`;
+    return `<div style="${styles.wrapper}"><iframe allow="${allow}" frameborder="0" height="100%" scrolling="no" src="${src}" style="${styles.iframe}" width="100%"></iframe></div>`;
   }
 
-  return `<iframe allow="monetization" frameborder="0" height="${height}" scrolling="no" src="${src}"${
+  return `<iframe allow="${allow}" frameborder="0" height="${height}" scrolling="no" src="${src}"${
     styles.iframe && ` style="${styles.iframe}"`
   } width="100%"></iframe>`;
 };
@@ -21,6 +21,12 @@ describe('lib/generate/string', () => {
       expect(result).not.toMatch(/[?&]sp=/);
     });
 
+    test('should use provided origin.', () => {
+      const result = generateEmbedUrl(mockConfig, 'https://play.prx.org');
+
+      expect(result).toMatch(/^https:\/\/play\.prx\.org\/e\?/);
+    });
+
     test('should include params in src URL for any config prop.', () => {
       const result = generateEmbedUrl({
         title: 'TT',
@@ -40,7 +46,9 @@ describe('lib/generate/string', () => {
         playlistSeason: 2,
         playlistCategory: 'CT',
         showCoverArt: true,
-        accentColor: ['#ff0000']
+        accentColor: ['#ff0000'],
+        clipStart: 90,
+        clipEnd: 210
       });
 
       expect(result).toMatch(/[?&]tt=TT/);
@@ -61,6 +69,8 @@ describe('lib/generate/string', () => {
       expect(result).toMatch(/[?&]ct=CT/);
       expect(result).toMatch(/[?&]ca=1/);
       expect(result).toMatch(/[?&]ac=ff0000/);
+      expect(result).toMatch(/[?&]cs=90/);
+      expect(result).toMatch(/[?&]ce=210/);
     });
   });
 });
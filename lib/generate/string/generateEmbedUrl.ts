@@ -7,8 +7,16 @@
 import type { IEmbedConfig } from '@interfaces/config';
 import parseEmbedConfigToParams from '@lib/parse/config/parseEmbedConfigToParams';
 
-const generateEmbedUrl = (config: IEmbedConfig) => {
-  const embedUrlHost = typeof window !== 'undefined' && window.location.origin;
+/**
+ * Generate embed URL from embed config options.
+ *
+ * @param config Embed config object.
+ * @param origin Origin of the Play app. Defaults to the current window origin.
+ * @returns Embed URL.
+ */
+const generateEmbedUrl = (config: IEmbedConfig, origin?: string) => {
+  const embedUrlHost =
+    origin || (typeof window !== 'undefined' && window.location.origin);
   const urlSearchPrams = Object.entries(
     parseEmbedConfigToParams(config)
   ).reduce(
@@ -0,0 +1,19 @@
+import generateOEmbedUrl from './generateOEmbedUrl';
+
+describe('lib/generate/string', () => {
+  describe('generateOEmbedUrl', () => {
+    test('should generate endpoint URL with encoded page URL.', () => {
+      const result = generateOEmbedUrl(
+        'https://play.prx.org/listen?uf=https%3A%2F%2Fshow.com%2Ffeed.xml&ge=ABC',
+        'https://play.prx.org'
+      );
+      const url = new URL(result);
+
+      expect(url.origin + url.pathname).toBe('https://play.prx.org/api/oembed');
+      expect(url.searchParams.get('url')).toBe(
+        'https://play.prx.org/listen?uf=https%3A%2F%2Fshow.com%2Ffeed.xml&ge=ABC'
+      );
+      expect(url.searchParams.get('format')).toBe('json');
+    });
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * @file generateOEmbedUrl.ts
+ *
+ * Generate oEmbed endpoint URL for a Play page URL.
+ */
+
+/**
+ * Generate oEmbed endpoint URL for a Play page URL.
+ *
+ * @param pageUrl Embed or listen page URL.
+ * @param origin Origin of the Play app.
+ * @returns oEmbed endpoint URL.
+ */
+const generateOEmbedUrl = (pageUrl: string, origin: string) => {
+  const oEmbedUrl = new URL('/api/oembed', origin);
+
+  oEmbedUrl.searchParams.set('url', pageUrl);
+  oEmbedUrl.searchParams.set('format', 'json');
+
+  return oEmbedUrl.toString();
+};
+
+export default generateOEmbedUrl;
@@ -0,0 +1,14 @@
+import generateStoredEmbedUrl from './generateStoredEmbedUrl';
+
+describe('lib/generate/string', () => {
+  describe('generateStoredEmbedUrl', () => {
+    test('should generate short embed URL.', () => {
+      expect(generateStoredEmbedUrl('a1B2-c_3')).toBe(
+        'http://localhost/e/a1B2-c_3'
+      );
+      expect(generateStoredEmbedUrl('a1B2-c_3', 'https://play.prx.org')).toBe(
+        'https://play.prx.org/e/a1B2-c_3'
+      );
+    });
+  });
+});
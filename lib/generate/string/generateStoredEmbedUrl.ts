@@ -0,0 +1,21 @@
+/**
+ * @file generateStoredEmbedUrl.ts
+ *
+ * Generate short embed URL for a stored embed.
+ */
+
+/**
+ * Generate short embed URL for a stored embed.
+ *
+ * @param id Stored embed ID.
+ * @param origin Origin of the Play app. Defaults to the current window origin.
+ * @returns Embed URL.
+ */
+const generateStoredEmbedUrl = (id: string, origin?: string) => {
+  const embedUrlHost =
+    origin || (typeof window !== 'undefined' && window.location.origin);
+
+  return `${embedUrlHost}/e/${encodeURIComponent(id)}`;
+};
+
+export default generateStoredEmbedUrl;
@@ -0,0 +1,32 @@
+import shuffleArray from './shuffleArray';
+
+describe('lib/math/array', () => {
+  describe('shuffleArray', () => {
+    test('should return new array with the same items', () => {
+      const items = [1, 2, 3, 4, 5];
+      const result = shuffleArray(items);
+
+      expect(result).not.toBe(items);
+      expect([...result].sort()).toStrictEqual(items);
+    });
+
+    test('should order items using random number generator', () => {
+      expect(shuffleArray(['a', 'b', 'c', 'd'], () => 0)).toStrictEqual([
+        'b',
+        'c',
+        'd',
+        'a'
+      ]);
+      expect(shuffleArray(['a', 'b', 'c', 'd'], () => 0.99)).toStrictEqual([
+        'a',
+        'b',
+        'c',
+        'd'
+      ]);
+    });
+
+    test('should return empty array when there are no items', () => {
+      expect(shuffleArray(undefined)).toStrictEqual([]);
+    });
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * Get a shuffled copy of an array using the Fisher-Yates algorithm.
+ *
+ * @param items Items to shuffle.
+ * @param random Random number generator returning values from 0 to less than 1.
+ * @returns New array with items in random order.
+ */
+const shuffleArray = <T>(items: T[], random: () => number = Math.random) => {
+  const result = [...(items || [])];
+
+  for (let i = result.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+
+  return result;
+};
+
+export default shuffleArray;
@@ -0,0 +1,30 @@
+import calculateLevelingGain from './calculateLevelingGain';
+
+describe('lib/math/audio', () => {
+  describe('calculateLevelingGain', () => {
+    const quiet = new Float32Array(100).fill(0.05);
+    const loud = new Float32Array(100).fill(0.4);
+
+    test('should raise gain of quiet audio', () => {
+      expect(calculateLevelingGain(quiet, 1)).toBeCloseTo(1.05);
+      expect(calculateLevelingGain(quiet, 1, 0.25, 4, 1)).toBeCloseTo(2);
+    });
+
+    test('should lower gain of loud audio', () => {
+      expect(calculateLevelingGain(loud, 1, 0.25, 4, 1)).toBeCloseTo(0.25);
+      expect(calculateLevelingGain(loud, 1)).toBeLessThan(1);
+    });
+
+    test('should limit gain', () => {
+      const veryQuiet = new Float32Array(100).fill(0.002);
+
+      expect(calculateLevelingGain(veryQuiet, 1, 0.25, 4, 1)).toBe(4);
+    });
+
+    test('should keep gain for silence or no samples', () => {
+      expect(calculateLevelingGain(new Float32Array(100), 1.5)).toBe(1.5);
+      expect(calculateLevelingGain(new Float32Array(0), 1.5)).toBe(1.5);
+      expect(calculateLevelingGain(null, 1.5)).toBe(1.5);
+    });
+  });
+});
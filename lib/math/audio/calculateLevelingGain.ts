@@ -0,0 +1,43 @@
+/**
+ * RMS level audio is leveled toward, about -20 dBFS.
+ */
+const TARGET_RMS = 0.1;
+
+/**
+ * RMS level below which audio is treated as silence and left alone.
+ */
+const SILENCE_RMS = 0.001;
+
+/**
+ * Calculate gain that moves audio loudness toward a common level. Gain moves
+ * a fraction of the way each call so leveling is gradual.
+ *
+ * @param samples Time domain samples of the audio, between -1 and 1.
+ * @param currentGain Gain currently applied to the audio.
+ * @param minGain Least gain allowed.
+ * @param maxGain Most gain allowed.
+ * @param smoothing Fraction of the way to move toward the target gain.
+ * @returns New gain to apply.
+ */
+const calculateLevelingGain = (
+  samples: Float32Array,
+  currentGain: number,
+  minGain = 0.25,
+  maxGain = 4,
+  smoothing = 0.05
+) => {
+  if (!samples?.length) return currentGain;
+
+  const rms = Math.sqrt(
+    samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length
+  );
+
+  // Don't boost silence between segments.
+  if (rms < SILENCE_RMS) return currentGain;
+
+  const targetGain = Math.min(Math.max(TARGET_RMS / rms, minGain), maxGain);
+
+  return currentGain + (targetGain - currentGain) * smoothing;
+};
+
+export default calculateLevelingGain;
@@ -0,0 +1,27 @@
+import clampPlaybackRate from './clampPlaybackRate';
+
+describe('lib/math/number', () => {
+  describe('clampPlaybackRate', () => {
+    test('should keep supported rates', () => {
+      expect(clampPlaybackRate(1)).toBe(1);
+      expect(clampPlaybackRate(1.25)).toBe(1.25);
+      expect(clampPlaybackRate(2.95)).toBe(2.95);
+    });
+
+    test('should snap rates to step', () => {
+      expect(clampPlaybackRate(1.33)).toBe(1.35);
+      expect(clampPlaybackRate(1.1 + 0.05)).toBe(1.15);
+      expect(clampPlaybackRate(0.92)).toBe(0.9);
+    });
+
+    test('should clamp rates to range', () => {
+      expect(clampPlaybackRate(0.1)).toBe(0.5);
+      expect(clampPlaybackRate(4)).toBe(3);
+    });
+
+    test('should default invalid rates to normal speed', () => {
+      expect(clampPlaybackRate(NaN)).toBe(1);
+      expect(clampPlaybackRate('2' as any)).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import roundToN from './roundToN';
+
+/**
+ * Slowest playback rate listeners can choose.
+ */
+export const MIN_PLAYBACK_RATE = 0.5;
+
+/**
+ * Fastest playback rate listeners can choose.
+ */
+export const MAX_PLAYBACK_RATE = 3;
+
+/**
+ * Increment playback rate controls change the rate by.
+ */
+export const PLAYBACK_RATE_STEP = 0.05;
+
+/**
+ * Clamp a playback rate to the supported range, snapped to the rate step.
+ *
+ * @param playbackRate Playback rate to clamp.
+ * @returns Supported playback rate, or `1` when the rate is not a number.
+ */
+const clampPlaybackRate = (playbackRate: number) => {
+  if (typeof playbackRate !== 'number' || Number.isNaN(playbackRate)) return 1;
+
+  const stepped =
+    Math.round(playbackRate / PLAYBACK_RATE_STEP) * PLAYBACK_RATE_STEP;
+
+  return roundToN(
+    Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, stepped)),
+    2
+  );
+};
+
+export default clampPlaybackRate;
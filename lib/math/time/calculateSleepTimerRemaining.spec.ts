@@ -0,0 +1,55 @@
+import calculateSleepTimerRemaining from './calculateSleepTimerRemaining';
+
+describe('lib/math/time', () => {
+  describe('calculateSleepTimerRemaining', () => {
+    test('should return null without a timer', () => {
+      expect(calculateSleepTimerRemaining(null, 0, 100)).toBeNull();
+    });
+
+    test('should calculate remaining seconds of minutes timer', () => {
+      const result = calculateSleepTimerRemaining(
+        { type: 'minutes', value: 15, endTime: 90000 },
+        0,
+        100,
+        1,
+        30000
+      );
+
+      expect(result).toBe(60);
+    });
+
+    test('should calculate remaining seconds of episode timer', () => {
+      expect(calculateSleepTimerRemaining({ type: 'episode' }, 40, 100)).toBe(
+        60
+      );
+      expect(
+        calculateSleepTimerRemaining({ type: 'episode' }, 40, 100, 2)
+      ).toBe(30);
+    });
+
+    test('should calculate remaining seconds of chapters timer', () => {
+      expect(
+        calculateSleepTimerRemaining(
+          { type: 'chapters', value: 2, endTrackTime: 70 },
+          40,
+          100
+        )
+      ).toBe(30);
+      expect(
+        calculateSleepTimerRemaining({ type: 'chapters', value: 2 }, 40, 100)
+      ).toBe(60);
+    });
+
+    test('should return null when track duration is unknown', () => {
+      expect(calculateSleepTimerRemaining({ type: 'episode' }, 0, NaN)).toBe(
+        null
+      );
+    });
+
+    test('should not return negative values', () => {
+      expect(calculateSleepTimerRemaining({ type: 'episode' }, 120, 100)).toBe(
+        0
+      );
+    });
+  });
+});
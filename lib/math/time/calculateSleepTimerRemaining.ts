@@ -0,0 +1,36 @@
+import type { IPlayerSleepTimer } from '@interfaces/states/player';
+
+/**
+ * Calculate seconds remaining before a sleep timer ends.
+ *
+ * @param sleepTimer Sleep timer to calculate for.
+ * @param currentTime Playback time of the current track in seconds.
+ * @param duration Duration of the current track in seconds.
+ * @param playbackRate Playback rate of the player.
+ * @param now Current timestamp.
+ * @returns Seconds remaining, or `null` when it can't be determined yet.
+ */
+const calculateSleepTimerRemaining = (
+  sleepTimer: IPlayerSleepTimer,
+  currentTime: number,
+  duration: number,
+  playbackRate = 1,
+  now = Date.now()
+) => {
+  if (!sleepTimer) return null;
+
+  const { type, endTime, endTrackTime } = sleepTimer;
+
+  if (type === 'minutes') {
+    return Math.max(0, (endTime - now) / 1000);
+  }
+
+  const end = (type === 'chapters' && endTrackTime) || duration;
+
+  if (!end) return null;
+
+  // Track time passes faster, or slower, than real time at other rates.
+  return Math.max(0, (end - (currentTime || 0)) / (playbackRate || 1));
+};
+
+export default calculateSleepTimerRemaining;
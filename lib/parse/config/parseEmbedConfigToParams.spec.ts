@@ -21,7 +21,19 @@ describe('lib/parse/config', () => {
       playlistSeason: 2,
       playlistCategory: 'CT',
       showCoverArt: true,
-      accentColor: ['#ff0000']
+      accentColor: ['#ff0000'],
+      clipStart: 90,
+      clipEnd: 210,
+      startOnSoundbite: true,
+      repeatMode: 'all',
+      shuffle: true,
+      crossfade: 4,
+      skipBack: 15,
+      skipForward: 45,
+      disablePersistence: true,
+      hotkeys: 'off',
+      continueToNextEmbed: true,
+      analyticsUrl: 'UB'
     };
 
     test('should handle expected parameters', () => {
@@ -45,6 +57,18 @@ describe('lib/parse/config', () => {
       expect(result.ct).toBe('CT');
       expect(result.ca).toBe(1);
       expect(result.ac).toStrictEqual(['ff0000']);
+      expect(result.cs).toBe(90);
+      expect(result.ce).toBe(210);
+      expect(result.hl).toBe(1);
+      expect(result.rp).toBe('all');
+      expect(result.sh).toBe(1);
+      expect(result.cf).toBe(4);
+      expect(result.sb).toBe(15);
+      expect(result.sf).toBe(45);
+      expect(result.np).toBe(1);
+      expect(result.hk).toBe('off');
+      expect(result.cn).toBe(1);
+      expect(result.ub).toBe('UB');
     });
 
     test('should not include falsy params', () => {
@@ -16,6 +16,10 @@ const parseEmbedConfigToParams = (config: IEmbedConfig): IEmbedParams => {
       if (prop && v) {
         switch (k) {
           case 'showCoverArt':
+          case 'startOnSoundbite':
+          case 'shuffle':
+          case 'disablePersistence':
+          case 'continueToNextEmbed':
             return {
               ...a,
               [prop]: 1
@@ -21,7 +21,19 @@ describe('lib/parse/config', () => {
       se: '2',
       ct: 'CT',
       ca: '1',
-      ac: 'ff0000'
+      ac: 'ff0000',
+      cs: '1:30',
+      ce: '210',
+      hl: '1',
+      rp: 'all',
+      sh: '1',
+      cf: '4',
+      sb: '15',
+      sf: '45',
+      np: '1',
+      hk: 'focus',
+      cn: '1',
+      ub: 'UB'
     };
 
     test('should handle expected parameters', () => {
@@ -45,6 +57,18 @@ describe('lib/parse/config', () => {
       expect(result.playlistCategory).toBe('CT');
       expect(result.showCoverArt).toBe(true);
       expect(result.accentColor).toStrictEqual(['#ff0000']);
+      expect(result.clipStart).toBe(90);
+      expect(result.clipEnd).toBe(210);
+      expect(result.startOnSoundbite).toBe(true);
+      expect(result.repeatMode).toBe('all');
+      expect(result.shuffle).toBe(true);
+      expect(result.crossfade).toBe(4);
+      expect(result.skipBack).toBe(15);
+      expect(result.skipForward).toBe(45);
+      expect(result.disablePersistence).toBe(true);
+      expect(result.hotkeys).toBe('focus');
+      expect(result.continueToNextEmbed).toBe(true);
+      expect(result.analyticsUrl).toBe('UB');
     });
 
     test('should process `showPlaylist` into integer', () => {
@@ -81,6 +105,20 @@ describe('lib/parse/config', () => {
       ]);
     });
 
+    test('should ignore unknown `repeatMode` values', () => {
+      const result = parseEmbedParamsToConfig({ rp: 'forever' });
+
+      expect(result).not.toHaveProperty('repeatMode');
+      expect(JSON.parse(JSON.stringify(result))).toStrictEqual(result);
+    });
+
+    test('should ignore unknown `hotkeys` values', () => {
+      const result = parseEmbedParamsToConfig({ hk: 'everywhere' });
+
+      expect(result).not.toHaveProperty('hotkeys');
+      expect(JSON.parse(JSON.stringify(result))).toStrictEqual(result);
+    });
+
     test('should handle no params', () => {
       const result = parseEmbedParamsToConfig({});
 
@@ -3,6 +3,7 @@ import { EmbedParamKeysMap } from '@interfaces/config';
 import convertStringToBoolean from '@lib/convert/string/convertStringToBoolean';
 import convertStringToInteger from '@lib/convert/string/convertStringToInteger';
 import parseAccentColorParam from './parseAccentColorParam';
+import parseTimeParam from './parseTimeParam';
 
 /**
  * Parse query parameters into player config object.
@@ -26,12 +27,19 @@ const parseEmbedParamsToConfig = (params: IEmbedParams): IEmbedConfig => {
           };
 
         case 'playlistSeason':
+        case 'crossfade':
+        case 'skipBack':
+        case 'skipForward':
           return {
             ...a,
             [prop]: convertStringToInteger(normalizeValue(v))
           };
 
         case 'showCoverArt':
+        case 'startOnSoundbite':
+        case 'shuffle':
+        case 'disablePersistence':
+        case 'continueToNextEmbed':
           return {
             ...a,
             [prop]: convertStringToBoolean(normalizeValue(v))
@@ -43,6 +51,30 @@ const parseEmbedParamsToConfig = (params: IEmbedParams): IEmbedConfig => {
             [prop]: parseAccentColorParam(v)
           };
 
+        case 'clipStart':
+        case 'clipEnd':
+          return {
+            ...a,
+            [prop]: parseTimeParam(v)
+          };
+
+        case 'repeatMode':
+          // Leave out unknown values, so config can be serialized as props.
+          return ['one', 'all'].includes(normalizeValue(v))
+            ? {
+                ...a,
+                [prop]: normalizeValue(v) as IEmbedConfig['repeatMode']
+              }
+            : a;
+
+        case 'hotkeys':
+          return ['focus', 'off'].includes(normalizeValue(v))
+            ? {
+                ...a,
+                [prop]: normalizeValue(v) as IEmbedConfig['hotkeys']
+              }
+            : a;
+
         default:
           return {
             ...a,
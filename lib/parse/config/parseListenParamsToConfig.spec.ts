@@ -10,7 +10,9 @@ describe('lib/parse/config', () => {
       sp: '42',
       se: '2',
       ct: 'CT',
-      ac: 'ff0000'
+      ac: 'ff0000',
+      sb: '15',
+      sf: '45'
     };
 
     test('should handle expected parameters', () => {
@@ -23,6 +25,8 @@ describe('lib/parse/config', () => {
       expect(result.playlistSeason).toBe(2);
       expect(result.playlistCategory).toBe('CT');
       expect(result.accentColor).toStrictEqual(['#ff0000']);
+      expect(result.skipBack).toBe(15);
+      expect(result.skipForward).toBe(45);
     });
 
     test('should process `showPlaylist` into integer', () => {
@@ -25,6 +25,8 @@ const parseListenParamsToConfig = (params: IListenParams): IListenConfig => {
           };
 
         case 'playlistSeason':
+        case 'skipBack':
+        case 'skipForward':
           return {
             ...a,
             [prop]: convertStringToInteger(normalizeValue(v))
@@ -0,0 +1,48 @@
+import parsePlayUrlToConfig from './parsePlayUrlToConfig';
+
+describe('lib/parse/config', () => {
+  describe('parsePlayUrlToConfig', () => {
+    const origin = 'https://play.prx.org';
+    const feedUrl = 'https://show.com/feed.xml';
+
+    test('should parse embed URLs.', () => {
+      const result = parsePlayUrlToConfig(
+        `${origin}/e?uf=${encodeURIComponent(
+          feedUrl
+        )}&ge=ABC&ac=ff0000&ac=0000ff`,
+        origin
+      );
+
+      expect(result).toMatchObject({
+        feedUrl,
+        episodeGuid: 'ABC',
+        accentColor: ['#ff0000', '#0000ff']
+      });
+    });
+
+    test('should parse listen URLs.', () => {
+      const episode = parsePlayUrlToConfig(
+        `${origin}/listen?uf=${encodeURIComponent(feedUrl)}&ge=ABC`,
+        origin
+      );
+      const podcast = parsePlayUrlToConfig(
+        `${origin}/listen?uf=${encodeURIComponent(feedUrl)}`,
+        origin
+      );
+
+      expect(episode).toStrictEqual({ feedUrl, episodeGuid: 'ABC' });
+      expect(podcast).toStrictEqual({ feedUrl, showPlaylist: 'all' });
+    });
+
+    test('should return null for other URLs.', () => {
+      expect(parsePlayUrlToConfig('not a url', origin)).toBeNull();
+      expect(
+        parsePlayUrlToConfig(`https://example.com/e?uf=${feedUrl}`, origin)
+      ).toBeNull();
+      expect(
+        parsePlayUrlToConfig(`${origin}/preview?uf=${feedUrl}`, origin)
+      ).toBeNull();
+      expect(parsePlayUrlToConfig(`${origin}/e?tt=Title`, origin)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import type { ParsedUrlQuery } from 'querystring';
+import type { IEmbedConfig } from '@interfaces/config';
+import parseEmbedParamsToConfig from './parseEmbedParamsToConfig';
+import parseListenParamsToConfig from './parseListenParamsToConfig';
+
+/**
+ * Parse a Play embed or listen page URL into embed config object. Listen
+ * pages without an episode are embedded as a playlist of the whole feed.
+ *
+ * @param url Embed or listen page URL.
+ * @param origin Origin of the Play app the URL must belong to.
+ * @returns Embed config object, or `null` when URL is not a Play page.
+ */
+const parsePlayUrlToConfig = (
+  url: string,
+  origin: string
+): IEmbedConfig | null => {
+  let playUrl: URL;
+
+  try {
+    playUrl = new URL(url);
+  } catch (e) {
+    return null;
+  }
+
+  if (playUrl.origin !== new URL(origin).origin) return null;
+
+  const params = [...playUrl.searchParams.entries()].reduce((a, [k, v]) => {
+    const current = a[k];
+
+    if (!current) return { ...a, [k]: v };
+
+    return {
+      ...a,
+      [k]: [...(Array.isArray(current) ? current : [current]), v]
+    };
+  }, {} as ParsedUrlQuery);
+
+  switch (playUrl.pathname.replace(/\/$/, '')) {
+    case '/e':
+    case '/embed': {
+      const config = parseEmbedParamsToConfig(params);
+
+      return config.feedUrl || config.audioUrl ? config : null;
+    }
+
+    case '/listen': {
+      const config = parseListenParamsToConfig(params);
+
+      if (!config.feedUrl) return null;
+
+      return {
+        ...config,
+        ...(!config.episodeGuid &&
+          !config.showPlaylist && { showPlaylist: 'all' })
+      };
+    }
+
+    default:
+      return null;
+  }
+};
+
+export default parsePlayUrlToConfig;
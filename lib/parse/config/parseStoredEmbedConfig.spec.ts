@@ -0,0 +1,38 @@
+import parseStoredEmbedConfig from './parseStoredEmbedConfig';
+
+describe('lib/parse/config', () => {
+  describe('parseStoredEmbedConfig', () => {
+    test('should return config without unset properties.', () => {
+      expect(
+        parseStoredEmbedConfig({
+          config: {
+            feedUrl: 'https://show.com/feed.xml',
+            episodeGuid: null,
+            showPlaylist: 5
+          }
+        })
+      ).toStrictEqual({
+        config: { feedUrl: 'https://show.com/feed.xml', showPlaylist: 5 }
+      });
+    });
+
+    test('should return validation errors.', () => {
+      expect(parseStoredEmbedConfig({}).errors).toHaveLength(1);
+      expect(
+        parseStoredEmbedConfig({
+          config: { feedUrl: 'https://show.com/feed.xml', theme: 'blue' }
+        }).errors.map(({ key }) => key)
+      ).toStrictEqual(['theme']);
+    });
+
+    test('should require an audio source.', () => {
+      expect(
+        parseStoredEmbedConfig({ config: { showCoverArt: true } })
+      ).toStrictEqual({
+        errors: [
+          { key: 'config', message: 'Must include a feedUrl or audioUrl.' }
+        ]
+      });
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import type { IEmbedConfig } from '@interfaces/config';
+import type { IEmbedConfigValidationError } from '@interfaces/error';
+import validateEmbedConfig from '@lib/validate/validateEmbedConfig';
+
+export interface IParsedStoredEmbedConfig {
+  config?: IEmbedConfig;
+  errors?: IEmbedConfigValidationError[];
+}
+
+/**
+ * Parse embeds API request body into the embed config to store.
+ *
+ * @param body Request body. JSON object with a `config` property.
+ * @returns Embed config without unset properties, or validation errors.
+ */
+const parseStoredEmbedConfig = (body: any): IParsedStoredEmbedConfig => {
+  const errors = validateEmbedConfig(body?.config);
+
+  if (errors.length) return { errors };
+
+  const config: IEmbedConfig = Object.entries(body.config)
+    .filter(([, v]) => v !== null && typeof v !== 'undefined')
+    .reduce((a, [k, v]) => ({ ...a, [k]: v }), {});
+
+  if (!config.feedUrl && !config.audioUrl) {
+    return {
+      errors: [
+        { key: 'config', message: 'Must include a feedUrl or audioUrl.' }
+      ]
+    };
+  }
+
+  return { config };
+};
+
+export default parseStoredEmbedConfig;
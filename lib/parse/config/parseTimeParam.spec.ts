@@ -0,0 +1,27 @@
+import parseTimeParam from './parseTimeParam';
+
+describe('lib/parse/config', () => {
+  describe('parseTimeParam', () => {
+    test('should parse seconds', () => {
+      expect(parseTimeParam('90')).toBe(90);
+      expect(parseTimeParam('90.5')).toBe(90.5);
+    });
+
+    test('should parse duration strings', () => {
+      expect(parseTimeParam('1:30')).toBe(90);
+      expect(parseTimeParam('01:01:30')).toBe(3690);
+    });
+
+    test('should use first value of arrays', () => {
+      expect(parseTimeParam(['30', '60'])).toBe(30);
+    });
+
+    test('should return 0 for invalid values', () => {
+      expect(parseTimeParam('')).toBe(0);
+      expect(parseTimeParam('foo')).toBe(0);
+      expect(parseTimeParam('1:foo')).toBe(0);
+      expect(parseTimeParam('-30')).toBe(0);
+      expect(parseTimeParam(undefined)).toBe(0);
+    });
+  });
+});
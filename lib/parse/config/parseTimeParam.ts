@@ -0,0 +1,16 @@
+/**
+ * Parse time param into seconds.
+ *
+ * @param param Querystring param value. Seconds, eg. `90` or `90.5`, or duration string, eg. `1:30` or `1:01:30`.
+ * @returns Time in seconds, or `0` when value is not a valid time.
+ */
+const parseTimeParam = (param: string | string[]) => {
+  const value = Array.isArray(param) ? param[0] : param;
+  const seconds = `${value ?? ''}`
+    .split(':')
+    .reduce((a, part) => a * 60 + Number(part || NaN), 0);
+
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : 0;
+};
+
+export default parseTimeParam;
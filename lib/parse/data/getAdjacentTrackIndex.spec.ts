@@ -0,0 +1,55 @@
+import type { IAudioData } from '@interfaces/data';
+import getAdjacentTrackIndex from './getAdjacentTrackIndex';
+
+describe('lib/parse/data', () => {
+  describe('getAdjacentTrackIndex', () => {
+    const mockTracks = ['a', 'b', 'c', 'd'].map((guid) => ({
+      guid,
+      url: `//foo.com/${guid}.mp3`,
+      title: guid.toUpperCase()
+    })) as IAudioData[];
+
+    test('should return index of next and previous tracks', () => {
+      expect(getAdjacentTrackIndex(mockTracks, 1, 1)).toBe(2);
+      expect(getAdjacentTrackIndex(mockTracks, 1, -1)).toBe(0);
+    });
+
+    test('should return -1 at the ends of the playlist', () => {
+      expect(getAdjacentTrackIndex(mockTracks, 3, 1)).toBe(-1);
+      expect(getAdjacentTrackIndex(mockTracks, 0, -1)).toBe(-1);
+      expect(getAdjacentTrackIndex(mockTracks, 3, 1, 'one')).toBe(-1);
+    });
+
+    test('should wrap around the ends of the playlist when repeating all', () => {
+      expect(getAdjacentTrackIndex(mockTracks, 3, 1, 'all')).toBe(0);
+      expect(getAdjacentTrackIndex(mockTracks, 0, -1, 'all')).toBe(3);
+    });
+
+    test('should follow shuffle order', () => {
+      const shuffleOrder = ['c', 'a', 'd', 'b'];
+
+      expect(getAdjacentTrackIndex(mockTracks, 2, 1, 'off', shuffleOrder)).toBe(
+        0
+      );
+      expect(getAdjacentTrackIndex(mockTracks, 0, 1, 'off', shuffleOrder)).toBe(
+        3
+      );
+      expect(
+        getAdjacentTrackIndex(mockTracks, 2, -1, 'off', shuffleOrder)
+      ).toBe(-1);
+      expect(getAdjacentTrackIndex(mockTracks, 1, 1, 'all', shuffleOrder)).toBe(
+        2
+      );
+    });
+
+    test('should ignore shuffled guids not in tracks', () => {
+      expect(
+        getAdjacentTrackIndex(mockTracks, 0, 1, 'off', ['a', 'x', 'b'])
+      ).toBe(1);
+    });
+
+    test('should return -1 when there are no tracks', () => {
+      expect(getAdjacentTrackIndex(undefined, 0, 1, 'all')).toBe(-1);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import type { IAudioData } from '@interfaces/data';
+import type { PlayerRepeatMode } from '@interfaces/states/player';
+
+/**
+ * Get index of the track played before or after the current track.
+ *
+ * @param tracks Tracks in playlist order.
+ * @param currentTrackIndex Index of the current track.
+ * @param offset `1` for the next track, `-1` for the previous track.
+ * @param repeatMode Wraps around the ends of the play order when `all`.
+ * @param shuffleOrder Guids of tracks in shuffled play order.
+ * @returns Index of the adjacent track, or `-1` when there isn't one.
+ */
+const getAdjacentTrackIndex = (
+  tracks: IAudioData[],
+  currentTrackIndex: number,
+  offset: 1 | -1,
+  repeatMode?: PlayerRepeatMode,
+  shuffleOrder?: string[]
+) => {
+  if (!tracks?.length) return -1;
+
+  const order = shuffleOrder
+    ? shuffleOrder
+        .map((guid) => tracks.findIndex((track) => track.guid === guid))
+        .filter((index) => index > -1)
+    : tracks.map((_, index) => index);
+  let position = order.indexOf(currentTrackIndex) + offset;
+
+  if (position < 0 || position >= order.length) {
+    if (repeatMode !== 'all') return -1;
+
+    position = (position + order.length) % order.length;
+  }
+
+  return order[position] ?? -1;
+};
+
+export default getAdjacentTrackIndex;
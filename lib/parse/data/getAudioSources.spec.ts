@@ -0,0 +1,39 @@
+import type { IAudioData } from '@interfaces/data';
+import getAudioSources from './getAudioSources';
+
+describe('lib/parse/data', () => {
+  describe('getAudioSources', () => {
+    const mockAudioData: IAudioData = {
+      guid: 'foo',
+      link: 'http://foo.com/foo',
+      url: 'http://foo.com/foo.mp3',
+      fileSize: 1000,
+      title: 'Foo'
+    };
+
+    test('should return enclosure source', () => {
+      expect(getAudioSources(mockAudioData)).toStrictEqual([
+        'http://foo.com/foo.mp3'
+      ]);
+    });
+
+    test('should prefer preview source and end with alternate sources', () => {
+      expect(
+        getAudioSources({
+          ...mockAudioData,
+          previewUrl: 'http://foo.com/preview.mp3',
+          alternateUrls: ['http://foo.com/foo.opus', 'http://foo.com/foo.mp3']
+        })
+      ).toStrictEqual([
+        'http://foo.com/preview.mp3',
+        'http://foo.com/foo.mp3',
+        'http://foo.com/foo.opus'
+      ]);
+    });
+
+    test('should return no sources without audio data', () => {
+      expect(getAudioSources(undefined)).toStrictEqual([]);
+      expect(getAudioSources({} as IAudioData)).toStrictEqual([]);
+    });
+  });
+});
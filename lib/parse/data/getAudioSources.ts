@@ -0,0 +1,20 @@
+import type { IAudioData } from '@interfaces/data';
+
+/**
+ * Get playable source URLs of audio in the order they should be tried.
+ * Preview audio is preferred, falling back to the enclosure and then any
+ * alternate enclosures.
+ *
+ * @param audioData Audio data to get sources of.
+ * @returns Unique source URLs.
+ */
+const getAudioSources = (audioData: IAudioData) =>
+  [
+    audioData?.previewUrl,
+    audioData?.url,
+    ...(audioData?.alternateUrls || [])
+  ].filter(
+    (source, index, sources) => !!source && sources.indexOf(source) === index
+  );
+
+export default getAudioSources;
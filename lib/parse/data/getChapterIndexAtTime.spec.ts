@@ -0,0 +1,26 @@
+import getChapterIndexAtTime from './getChapterIndexAtTime';
+
+describe('lib/parse/data', () => {
+  describe('getChapterIndexAtTime', () => {
+    const mockChapters = [
+      { startTime: 10, title: 'One' },
+      { startTime: 60, title: 'Two' },
+      { startTime: 120, title: 'Three' }
+    ];
+
+    test('should return index of chapter playing at time', () => {
+      expect(getChapterIndexAtTime(mockChapters, 10)).toBe(0);
+      expect(getChapterIndexAtTime(mockChapters, 59.9)).toBe(0);
+      expect(getChapterIndexAtTime(mockChapters, 60)).toBe(1);
+      expect(getChapterIndexAtTime(mockChapters, 500)).toBe(2);
+    });
+
+    test('should return -1 when time is before first chapter', () => {
+      expect(getChapterIndexAtTime(mockChapters, 5)).toBe(-1);
+    });
+
+    test('should return -1 when there are no chapters', () => {
+      expect(getChapterIndexAtTime(undefined, 5)).toBe(-1);
+    });
+  });
+});
@@ -0,0 +1,13 @@
+import type { IRssPodcastChapter } from '@interfaces/data';
+
+/**
+ * Get index of the chapter playing at a point in time.
+ *
+ * @param chapters Chapters sorted by start time.
+ * @param time Playback time in seconds.
+ * @returns Index of the chapter, or `-1` when time is before the first chapter.
+ */
+const getChapterIndexAtTime = (chapters: IRssPodcastChapter[], time: number) =>
+  chapters?.findLastIndex(({ startTime }) => startTime <= time) ?? -1;
+
+export default getChapterIndexAtTime;
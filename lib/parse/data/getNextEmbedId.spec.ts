@@ -0,0 +1,22 @@
+import getNextEmbedId from './getNextEmbedId';
+
+describe('lib/parse/data', () => {
+  describe('getNextEmbedId', () => {
+    const embeds = { a: 0, c: 4, b: 2 };
+
+    test('should get embed after the current frame', () => {
+      expect(getNextEmbedId(embeds, 0)).toBe('b');
+      expect(getNextEmbedId(embeds, 1)).toBe('b');
+      expect(getNextEmbedId(embeds, 2)).toBe('c');
+    });
+
+    test('should return null for the last embed', () => {
+      expect(getNextEmbedId(embeds, 4)).toBeNull();
+      expect(getNextEmbedId({}, 0)).toBeNull();
+    });
+
+    test('should return null when not framed', () => {
+      expect(getNextEmbedId(embeds, -1)).toBeNull();
+    });
+  });
+});
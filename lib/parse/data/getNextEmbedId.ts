@@ -0,0 +1,22 @@
+/**
+ * Get the embed that comes next on the page.
+ *
+ * @param embeds Frame index of other embeds on the page, keyed by embed ID.
+ * @param frameIndex Frame index of the current embed.
+ * @returns ID of the next embed, or `null` when the current embed is last.
+ */
+const getNextEmbedId = (
+  embeds: { [id: string]: number },
+  frameIndex: number
+) => {
+  if (frameIndex < 0) return null;
+
+  const [nextId] =
+    Object.entries(embeds)
+      .filter(([, index]) => index > frameIndex)
+      .sort(([, a], [, b]) => a - b)[0] || [];
+
+  return nextId || null;
+};
+
+export default getNextEmbedId;
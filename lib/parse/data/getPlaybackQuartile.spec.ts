@@ -0,0 +1,20 @@
+import getPlaybackQuartile from './getPlaybackQuartile';
+
+describe('lib/parse/data', () => {
+  describe('getPlaybackQuartile', () => {
+    test('should return last quartile reached.', () => {
+      expect(getPlaybackQuartile(0, 100)).toBe(0);
+      expect(getPlaybackQuartile(24.9, 100)).toBe(0);
+      expect(getPlaybackQuartile(25, 100)).toBe(25);
+      expect(getPlaybackQuartile(60, 100)).toBe(50);
+      expect(getPlaybackQuartile(99, 100)).toBe(75);
+      expect(getPlaybackQuartile(100, 100)).toBe(100);
+      expect(getPlaybackQuartile(120, 100)).toBe(100);
+    });
+
+    test('should return 0 when duration is unknown.', () => {
+      expect(getPlaybackQuartile(10, null)).toBe(0);
+      expect(getPlaybackQuartile(10, Infinity)).toBe(0);
+    });
+  });
+});
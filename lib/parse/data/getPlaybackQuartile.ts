@@ -0,0 +1,16 @@
+/**
+ * Get the last quartile of a track playback has reached.
+ *
+ * @param position Playback position in seconds.
+ * @param duration Track duration in seconds.
+ * @returns Percent of the last quartile reached, from `0` to `100`.
+ */
+const getPlaybackQuartile = (position: number, duration: number) => {
+  if (!duration || !Number.isFinite(duration)) return 0;
+
+  const progress = Math.max(0, Math.min(position / duration, 1));
+
+  return Math.floor(progress * 4) * 25;
+};
+
+export default getPlaybackQuartile;
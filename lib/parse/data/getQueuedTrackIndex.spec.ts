@@ -0,0 +1,27 @@
+import type { IAudioData } from '@interfaces/data';
+import getQueuedTrackIndex from './getQueuedTrackIndex';
+
+describe('lib/parse/data', () => {
+  describe('getQueuedTrackIndex', () => {
+    const mockTracks = ['a', 'b', 'c'].map((guid) => ({
+      guid,
+      url: `//foo.com/${guid}.mp3`,
+      title: guid.toUpperCase()
+    })) as IAudioData[];
+
+    test('should return index of first queued track', () => {
+      expect(getQueuedTrackIndex(mockTracks, ['c', 'a'])).toBe(2);
+    });
+
+    test('should skip queued guids not in tracks', () => {
+      expect(getQueuedTrackIndex(mockTracks, ['x', 'b'])).toBe(1);
+    });
+
+    test('should return -1 when nothing is queued', () => {
+      expect(getQueuedTrackIndex(mockTracks, [])).toBe(-1);
+      expect(getQueuedTrackIndex(mockTracks, null)).toBe(-1);
+      expect(getQueuedTrackIndex(mockTracks, ['x'])).toBe(-1);
+      expect(getQueuedTrackIndex(undefined, ['a'])).toBe(-1);
+    });
+  });
+});
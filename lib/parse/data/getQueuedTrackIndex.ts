@@ -0,0 +1,15 @@
+import type { IAudioData } from '@interfaces/data';
+
+/**
+ * Get index of the first queued track that is still in the tracks list.
+ *
+ * @param tracks Tracks in playlist order.
+ * @param queue Guids of queued tracks in play order.
+ * @returns Index of the queued track, or `-1` when nothing is queued.
+ */
+const getQueuedTrackIndex = (tracks: IAudioData[], queue: string[]) =>
+  (queue || [])
+    .map((queuedGuid) => tracks?.findIndex(({ guid }) => guid === queuedGuid))
+    .find((index) => index > -1) ?? -1;
+
+export default getQueuedTrackIndex;
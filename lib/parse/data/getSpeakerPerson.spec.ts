@@ -0,0 +1,22 @@
+import type { IPersonData } from '@interfaces/data';
+import getSpeakerPerson from './getSpeakerPerson';
+
+describe('lib/parse/data', () => {
+  describe('getSpeakerPerson', () => {
+    const people: IPersonData[] = [
+      { name: 'Alice Smith', role: 'host', group: 'cast' },
+      { name: 'Bob Jones', role: 'guest', group: 'cast' }
+    ];
+
+    test('should match speaker name to person', () => {
+      expect(getSpeakerPerson('Bob Jones', people)).toBe(people[1]);
+      expect(getSpeakerPerson('  alice   SMITH ', people)).toBe(people[0]);
+    });
+
+    test('should return undefined when nothing matches', () => {
+      expect(getSpeakerPerson('Carol', people)).toBeUndefined();
+      expect(getSpeakerPerson(null, people)).toBeUndefined();
+      expect(getSpeakerPerson('Alice Smith', undefined)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import type { IPersonData } from '@interfaces/data';
+
+const normalizeName = (name: string) =>
+  name?.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Get the person whose name matches a transcript speaker label.
+ *
+ * @param speaker Speaker name from a transcript cue.
+ * @param people People credited in the episode.
+ * @returns Matching person, or `undefined` when no names match.
+ */
+const getSpeakerPerson = (speaker: string, people: IPersonData[]) => {
+  const speakerName = normalizeName(speaker);
+
+  if (!speakerName) return undefined;
+
+  return people?.find(({ name }) => normalizeName(name) === speakerName);
+};
+
+export default getSpeakerPerson;
@@ -90,5 +90,52 @@ describe('lib/parse/data', () => {
         explicit: true
       });
     });
+
+    test('should map playable alternate enclosure sources', () => {
+      const result = parseAudioData({
+        ...mockRssItem,
+        podcast: {
+          alternateEnclosure: [
+            {
+              type: 'audio/opus',
+              sources: ['http://foo.com/audio.opus', 'ipfs://foo']
+            },
+            {
+              type: 'video/mp4',
+              sources: ['http://foo.com/video.mp4']
+            }
+          ]
+        }
+      });
+
+      expect(result.alternateUrls).toStrictEqual([
+        'http://foo.com/audio.opus?_from=play.prx.org'
+      ]);
+    });
+
+    test('should map soundbites', () => {
+      const soundbites = [{ startTime: 73, duration: 60.5, title: 'Best Bit' }];
+      const result = parseAudioData({
+        ...mockRssItem,
+        podcast: {
+          soundbite: soundbites
+        }
+      });
+
+      expect(result.soundbites).toStrictEqual(soundbites);
+    });
+
+    test('should map people', () => {
+      const result = parseAudioData({
+        ...mockRssItem,
+        podcast: {
+          person: [{ name: 'Alice Smith', role: 'Guest' }]
+        }
+      });
+
+      expect(result.people).toStrictEqual([
+        { name: 'Alice Smith', role: 'guest', group: 'cast' }
+      ]);
+    });
   });
 });
@@ -2,6 +2,7 @@ import type { IAudioData, IRssItem } from '@interfaces/data';
 import convertStringToBoolean from '@lib/convert/string/convertStringToBoolean';
 import convertStringToInteger from '@lib/convert/string/convertStringToInteger';
 import generateAudioUrl from '@lib/generate/string/generateAudioUrl';
+import parsePeopleData from './parsePeopleData';
 
 /**
  * Parse RSS item into audio data object.
@@ -38,6 +39,22 @@ const parseAudioData = ({
   }),
   ...(podcast?.transcript && {
     transcripts: podcast.transcript
+  }),
+  ...(podcast?.chapters && {
+    chapters: podcast.chapters
+  }),
+  ...(podcast?.alternateEnclosure && {
+    alternateUrls: podcast.alternateEnclosure
+      .filter(({ type }) => /^audio\//.test(type))
+      .flatMap(({ sources }) => sources)
+      .filter((source) => /^(https?:)?\/\//.test(source))
+      .map((source) => generateAudioUrl(source))
+  }),
+  ...(podcast?.soundbite && {
+    soundbites: podcast.soundbite
+  }),
+  ...(podcast?.person && {
+    people: parsePeopleData(podcast.person)
   })
 });
 
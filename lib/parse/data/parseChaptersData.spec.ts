@@ -0,0 +1,37 @@
+import parseChaptersData from './parseChaptersData';
+
+describe('lib/parse/data', () => {
+  describe('parseChaptersData', () => {
+    const mockChaptersJson = {
+      version: '1.2.0',
+      chapters: [
+        { startTime: 120, title: 'Second' },
+        { startTime: 0, title: 'Intro' },
+        { startTime: 60, title: 'Silent', toc: false },
+        { startTime: 300, endTime: 400, title: 'Last' }
+      ]
+    };
+
+    test('should sort chapters and fill in missing end times', () => {
+      const result = parseChaptersData(mockChaptersJson);
+
+      expect(result).toStrictEqual([
+        { startTime: 0, endTime: 120, title: 'Intro' },
+        { startTime: 120, endTime: 300, title: 'Second' },
+        { startTime: 300, endTime: 400, title: 'Last' }
+      ]);
+    });
+
+    test('should parse JSON strings', () => {
+      const result = parseChaptersData(JSON.stringify(mockChaptersJson));
+
+      expect(result.length).toBe(3);
+      expect(result[0].title).toBe('Intro');
+    });
+
+    test('should return null when there are no chapters', () => {
+      expect(parseChaptersData({ version: '1.2.0', chapters: [] })).toBeNull();
+      expect(parseChaptersData('{}')).toBeNull();
+    });
+  });
+});
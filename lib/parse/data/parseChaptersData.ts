@@ -0,0 +1,42 @@
+import type {
+  IRssPodcastChapter,
+  IRssPodcastChaptersJson
+} from '@interfaces/data';
+
+/**
+ * Parse chapters JSON into chapters sorted by start time. Chapters flagged to
+ * be left out of the table of contents are removed, and missing end times are
+ * filled in with the start time of the following chapter.
+ *
+ * See: https://github.com/Podcastindex-org/podcast-namespace/blob/main/chapters/jsonChapters.md
+ *
+ * @param json Chapters JSON string or object.
+ * @returns Array of chapters, or `null` when JSON has no chapters.
+ */
+const parseChaptersData = (
+  json: string | IRssPodcastChaptersJson
+): IRssPodcastChapter[] => {
+  const data: IRssPodcastChaptersJson =
+    typeof json === 'string' ? JSON.parse(json) : json;
+  const chapters = (data?.chapters || [])
+    .filter(
+      (chapter) =>
+        chapter.toc !== false &&
+        typeof chapter.startTime === 'number' &&
+        chapter.startTime >= 0
+    )
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((chapter, index, all) => {
+      const nextChapter = all[index + 1];
+
+      return {
+        ...chapter,
+        ...(!chapter.endTime &&
+          nextChapter && { endTime: nextChapter.startTime })
+      };
+    });
+
+  return chapters.length ? chapters : null;
+};
+
+export default parseChaptersData;
@@ -0,0 +1,58 @@
+import type { IEmbedAnalyticsEvent } from '@interfaces/embed';
+import parseEmbedAnalyticsEvent from './parseEmbedAnalyticsEvent';
+
+describe('lib/parse/data', () => {
+  describe('parseEmbedAnalyticsEvent', () => {
+    test('should only keep known properties.', () => {
+      const result = parseEmbedAnalyticsEvent({
+        event: 'quartile',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        sessionId: 'abc',
+        config: {
+          feedUrl: 'https://show.com/feed.xml',
+          showPlaylist: 5,
+          junk: 'x'.repeat(100)
+        },
+        feedUrl: 'https://show.com/feed.xml',
+        guid: 'ABC',
+        currentTime: 30,
+        duration: 120,
+        quartile: 25,
+        extra: { nested: true }
+      } as unknown as IEmbedAnalyticsEvent);
+
+      expect(result).toStrictEqual({
+        event: 'quartile',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        sessionId: 'abc',
+        config: {
+          feedUrl: 'https://show.com/feed.xml',
+          showPlaylist: 5
+        },
+        feedUrl: 'https://show.com/feed.xml',
+        guid: 'ABC',
+        currentTime: 30,
+        duration: 120,
+        quartile: 25
+      });
+    });
+
+    test('should drop invalid values.', () => {
+      const result = parseEmbedAnalyticsEvent({
+        event: 'seek',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        sessionId: 'abc',
+        config: { showPlaylist: 'lots', toString: 'x' },
+        guid: { id: 'ABC' },
+        seekFrom: 'start'
+      } as unknown as IEmbedAnalyticsEvent);
+
+      expect(result).toStrictEqual({
+        event: 'seek',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        sessionId: 'abc',
+        config: {}
+      });
+    });
+  });
+});
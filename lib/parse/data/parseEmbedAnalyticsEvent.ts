@@ -0,0 +1,54 @@
+/**
+ * @file parseEmbedAnalyticsEvent.ts
+ * Pick the known properties of an analytics event received by a collector.
+ */
+
+import type { IEmbedConfig } from '@interfaces/config';
+import type { IEmbedAnalyticsEvent } from '@interfaces/embed';
+import { EmbedConfigValidators } from '@lib/validate/validateEmbedConfig';
+
+const EventStringKeys = ['feedUrl', 'guid', 'shareMethod'] as const;
+const EventNumberKeys = [
+  'currentTime',
+  'duration',
+  'quartile',
+  'seekFrom'
+] as const;
+
+/**
+ * Parse an analytics event into a copy with only known event properties and
+ * valid config properties, so clients can't write anything else to the logs.
+ *
+ * @param event Analytics event received by a collector.
+ * @returns Analytics event with known properties.
+ */
+const parseEmbedAnalyticsEvent = (
+  event: IEmbedAnalyticsEvent
+): IEmbedAnalyticsEvent => {
+  const config = Object.fromEntries(
+    Object.entries(event.config).filter(
+      ([key, value]) =>
+        Object.prototype.hasOwnProperty.call(EmbedConfigValidators, key) &&
+        EmbedConfigValidators[key as keyof IEmbedConfig](value) === null
+    )
+  ) as IEmbedConfig;
+
+  return {
+    event: event.event,
+    timestamp: event.timestamp,
+    sessionId: event.sessionId,
+    config,
+    ...Object.fromEntries(
+      EventStringKeys.filter((key) => typeof event[key] === 'string').map(
+        (key) => [key, event[key]]
+      )
+    ),
+    ...Object.fromEntries(
+      EventNumberKeys.filter((key) => Number.isFinite(event[key])).map(
+        (key) => [key, event[key]]
+      )
+    )
+  };
+};
+
+export default parseEmbedAnalyticsEvent;
@@ -0,0 +1,67 @@
+import parseEmbedApiCommand from './parseEmbedApiCommand';
+
+describe('lib/parse/data', () => {
+  describe('parseEmbedApiCommand', () => {
+    const envelope = { namespace: 'prx-play', version: 1 };
+
+    test('should parse commands', () => {
+      expect(
+        parseEmbedApiCommand({ ...envelope, command: 'play' })
+      ).toStrictEqual({ command: { command: 'play' } });
+      expect(
+        parseEmbedApiCommand({ ...envelope, command: 'hello' })
+      ).toStrictEqual({ command: { command: 'hello' } });
+      expect(
+        parseEmbedApiCommand({ ...envelope, command: 'seekTo', time: 42 })
+      ).toStrictEqual({ command: { command: 'seekTo', time: 42 } });
+      expect(
+        parseEmbedApiCommand({ ...envelope, command: 'setVolume', volume: 0.5 })
+      ).toStrictEqual({ command: { command: 'setVolume', volume: 0.5 } });
+      expect(
+        parseEmbedApiCommand({ ...envelope, command: 'setTrack', index: 2 })
+      ).toStrictEqual({ command: { command: 'setTrack', index: 2 } });
+      expect(
+        parseEmbedApiCommand({
+          ...envelope,
+          command: 'loadEpisode',
+          guid: 'abc',
+          foo: 'bar'
+        })
+      ).toStrictEqual({ command: { command: 'loadEpisode', guid: 'abc' } });
+    });
+
+    test('should ignore messages for other APIs', () => {
+      expect(parseEmbedApiCommand(null)).toBeNull();
+      expect(parseEmbedApiCommand('play')).toBeNull();
+      expect(parseEmbedApiCommand({ command: 'play' })).toBeNull();
+      expect(parseEmbedApiCommand({ ...envelope, event: 'play' })).toBeNull();
+    });
+
+    test('should reject unsupported versions', () => {
+      expect(
+        parseEmbedApiCommand({ ...envelope, version: 2, command: 'play' })
+      ).toStrictEqual({ error: 'unsupportedVersion' });
+      expect(
+        parseEmbedApiCommand({ ...envelope, version: null, command: 'play' })
+      ).toStrictEqual({ error: 'unsupportedVersion' });
+    });
+
+    test('should reject invalid commands', () => {
+      expect(
+        parseEmbedApiCommand({ ...envelope, command: 'stop' })
+      ).toStrictEqual({ error: 'invalidCommand' });
+      expect(
+        parseEmbedApiCommand({ ...envelope, command: 'seekTo', time: '42' })
+      ).toStrictEqual({ error: 'invalidCommand' });
+      expect(
+        parseEmbedApiCommand({ ...envelope, command: 'setVolume', volume: 2 })
+      ).toStrictEqual({ error: 'invalidCommand' });
+      expect(
+        parseEmbedApiCommand({ ...envelope, command: 'setTrack', index: 1.5 })
+      ).toStrictEqual({ error: 'invalidCommand' });
+      expect(
+        parseEmbedApiCommand({ ...envelope, command: 'loadEpisode' })
+      ).toStrictEqual({ error: 'invalidCommand' });
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import type { EmbedApiCommand, EmbedApiErrorReason } from '@interfaces/embed';
+import { EMBED_API_NAMESPACE, EMBED_API_VERSION } from '@interfaces/embed';
+
+export interface IParsedEmbedApiCommand {
+  command?: EmbedApiCommand;
+  error?: EmbedApiErrorReason;
+}
+
+const isFiniteNumber = (value: any) =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Parse message data sent to an embed into an embed API command.
+ *
+ * @param data Message event data.
+ * @returns Parsed command, or error when the message is a malformed embed API
+ * message. `null` when the message isn't for the embed API.
+ */
+const parseEmbedApiCommand = (data: any): IParsedEmbedApiCommand => {
+  if (!data || data.namespace !== EMBED_API_NAMESPACE || !data.command) {
+    return null;
+  }
+
+  if (data.version > EMBED_API_VERSION || !(data.version >= 1)) {
+    return { error: 'unsupportedVersion' };
+  }
+
+  switch (data.command) {
+    case 'hello':
+    case 'play':
+    case 'pause':
+      return { command: { command: data.command } };
+
+    case 'seekTo':
+      return isFiniteNumber(data.time) && data.time >= 0
+        ? { command: { command: 'seekTo', time: data.time } }
+        : { error: 'invalidCommand' };
+
+    case 'setVolume':
+      return isFiniteNumber(data.volume) && data.volume >= 0 && data.volume <= 1
+        ? { command: { command: 'setVolume', volume: data.volume } }
+        : { error: 'invalidCommand' };
+
+    case 'setTrack':
+      return Number.isInteger(data.index) && data.index >= 0
+        ? { command: { command: 'setTrack', index: data.index } }
+        : { error: 'invalidCommand' };
+
+    case 'loadEpisode':
+      return typeof data.guid === 'string' && data.guid
+        ? { command: { command: 'loadEpisode', guid: data.guid } }
+        : { error: 'invalidCommand' };
+
+    default:
+      return { error: 'invalidCommand' };
+  }
+};
+
+export default parseEmbedApiCommand;
@@ -0,0 +1,64 @@
+import type { IRss } from '@interfaces/data';
+import parseEmbedBuilderOptions from './parseEmbedBuilderOptions';
+
+describe('lib/parse/data', () => {
+  describe('parseEmbedBuilderOptions', () => {
+    const enclosure = { url: 'https://example.com/audio.mp3' };
+    const rssData = {
+      itunes: { categories: ['News'] },
+      items: [
+        {
+          guid: 'guid-3',
+          title: 'Episode 3',
+          enclosure,
+          categories: ['Science ', 'Politics'],
+          itunes: { season: '2' }
+        },
+        {
+          guid: 'guid-2',
+          title: 'Episode 2',
+          enclosure,
+          itunes: { season: '1', categories: ['science'] }
+        },
+        {
+          guid: 'guid-1',
+          enclosure,
+          itunes: { season: '1' }
+        },
+        {
+          guid: 'guid-0',
+          title: 'Text Post',
+          categories: ['Blog']
+        }
+      ]
+    } as IRss;
+
+    test('should return empty options without RSS data.', () => {
+      expect(parseEmbedBuilderOptions()).toStrictEqual({
+        episodes: [],
+        seasons: [],
+        categories: []
+      });
+    });
+
+    test('should return episodes with audio.', () => {
+      expect(parseEmbedBuilderOptions(rssData).episodes).toStrictEqual([
+        { guid: 'guid-3', title: 'Episode 3' },
+        { guid: 'guid-2', title: 'Episode 2' },
+        { guid: 'guid-1', title: 'guid-1' }
+      ]);
+    });
+
+    test('should return sorted unique seasons.', () => {
+      expect(parseEmbedBuilderOptions(rssData).seasons).toStrictEqual([1, 2]);
+    });
+
+    test('should return sorted unique categories.', () => {
+      expect(parseEmbedBuilderOptions(rssData).categories).toStrictEqual([
+        'News',
+        'Politics',
+        'Science'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import type { IRss } from '@interfaces/data';
+
+export interface IEmbedBuilderEpisodeOption {
+  guid: string;
+  title: string;
+}
+
+export interface IEmbedBuilderOptions {
+  episodes: IEmbedBuilderEpisodeOption[];
+  seasons: number[];
+  categories: string[];
+}
+
+/**
+ * Parse RSS data into the episode, season and category choices offered by
+ * the embed builder. Only items with audio are considered.
+ *
+ * @param rssData RSS data object.
+ * @returns Embed builder options.
+ */
+const parseEmbedBuilderOptions = (rssData?: IRss): IEmbedBuilderOptions => {
+  const items = (rssData?.items || []).filter((item) => !!item.enclosure);
+  const channelCategories: string[] = rssData?.itunes?.categories || [];
+  const episodes = items
+    .filter((item) => !!item.guid)
+    .map(({ guid, title }) => ({ guid, title: title || guid }));
+  const seasons = items
+    .map((item) => parseInt(item.itunes?.season, 10))
+    .filter((season) => season > 0)
+    .reduce((a, c) => (a.indexOf(c) === -1 ? [...a, c] : a), [] as number[])
+    .sort((a, b) => a - b);
+  const categories = items
+    .flatMap((item) => {
+      const itemCategories = [
+        ...(item.categories || []),
+        ...((item.itunes?.categories as string[]) || [])
+      ];
+
+      // Items without categories inherit the channel's.
+      return itemCategories.length ? itemCategories : channelCategories;
+    })
+    .map((category) => category.trim())
+    .filter((category) => !!category)
+    .reduce(
+      (a, c) =>
+        a.some((category) => category.toLowerCase() === c.toLowerCase())
+          ? a
+          : [...a, c],
+      [] as string[]
+    )
+    .sort((a, b) => a.localeCompare(b));
+
+  return { episodes, seasons, categories };
+};
+
+export default parseEmbedBuilderOptions;
@@ -150,6 +150,84 @@ describe('lib/parse/data', () => {
       expect(result.audio.guid).toBe('foo-baz');
     });
 
+    test('should bound audio data to clip', () => {
+      const result = parseEmbedData(
+        {
+          feedUrl: 'http://foo.com/feed.rss',
+          episodeGuid: 'foo-baz',
+          showPlaylist: 'all',
+          clipStart: 90,
+          clipEnd: 210
+        },
+        mockRssData
+      );
+      const clippedItems = result.playlist.filter(
+        ({ clipStart, clipEnd }) => clipStart || clipEnd
+      );
+
+      expect(result.audio.clipStart).toBe(90);
+      expect(result.audio.clipEnd).toBe(210);
+      expect(clippedItems.length).toBe(1);
+      expect(clippedItems[0].guid).toBe('foo-baz');
+    });
+
+    test('should ignore clip end before clip start', () => {
+      const result = parseEmbedData(
+        { feedUrl: 'http://foo.com/feed.rss', clipStart: 90, clipEnd: 30 },
+        mockRssData
+      );
+
+      expect(result.audio.clipStart).toBe(90);
+      expect(result.audio.clipEnd).toBeUndefined();
+    });
+
+    test('should bound audio data to first soundbite', () => {
+      const rssData: IRss = {
+        ...mockRssData,
+        items: mockRssData.items.map((item) =>
+          item.guid === 'foo-baz'
+            ? {
+                ...item,
+                podcast: {
+                  soundbite: [
+                    { startTime: 73, duration: 60.5 },
+                    { startTime: 300, duration: 30 }
+                  ]
+                }
+              }
+            : item
+        )
+      };
+      const result = parseEmbedData(
+        {
+          feedUrl: 'http://foo.com/feed.rss',
+          episodeGuid: 'foo-baz',
+          startOnSoundbite: true
+        },
+        rssData
+      );
+      const resultWithClip = parseEmbedData(
+        {
+          feedUrl: 'http://foo.com/feed.rss',
+          episodeGuid: 'foo-baz',
+          startOnSoundbite: true,
+          clipStart: 90
+        },
+        rssData
+      );
+      const resultWithoutSoundbites = parseEmbedData(
+        { feedUrl: 'http://foo.com/feed.rss', startOnSoundbite: true },
+        rssData
+      );
+
+      expect(result.audio.clipStart).toBe(73);
+      expect(result.audio.clipEnd).toBe(133.5);
+      expect(resultWithClip.audio.clipStart).toBe(90);
+      expect(resultWithClip.audio.clipEnd).toBeUndefined();
+      expect(resultWithoutSoundbites.audio.clipStart).toBeUndefined();
+      expect(resultWithoutSoundbites.audio.clipEnd).toBeUndefined();
+    });
+
     test('should include a full playlist', () => {
       const result = parseEmbedData(
         { feedUrl: 'http://foo.com/feed.rss', showPlaylist: 'all' },
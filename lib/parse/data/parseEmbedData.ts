@@ -20,7 +20,10 @@ const parseEmbedData = (config: IEmbedConfig, rssData?: IRss): IEmbedData => {
     audioUrlPreview: configAudioUrlPreview,
     episodeGuid: configEpisodeGuid,
     episodeImageUrl: configImageUrl,
-    showPlaylist
+    showPlaylist,
+    clipStart,
+    clipEnd,
+    startOnSoundbite
   } = config;
   const {
     title: rssTitle,
@@ -55,6 +58,22 @@ const parseEmbedData = (config: IEmbedConfig, rssData?: IRss): IEmbedData => {
           audioItems.findIndex((item) => item.guid === configEpisodeGuid)
         )
       : 0);
+  const [soundbite] =
+    (startOnSoundbite &&
+      !clipStart &&
+      !clipEnd &&
+      audioItems?.[initialAudioIndex]?.soundbites) ||
+    [];
+  const clip = soundbite
+    ? {
+        clipStart: soundbite.startTime,
+        clipEnd: soundbite.startTime + soundbite.duration
+      }
+    : {
+        ...(clipStart && { clipStart }),
+        ...(clipEnd > (clipStart || 0) && { clipEnd })
+      };
+  const hasClip = !!(clip.clipStart || clip.clipEnd);
   const audio: IAudioData = {
     // Establish defaults from feed props.
     ...((rssImageUrl || rssItunesImage) && {
@@ -73,10 +92,16 @@ const parseEmbedData = (config: IEmbedConfig, rssData?: IRss): IEmbedData => {
     ...(configAudioUrlPreview && {
       previewUrl: generateAudioUrl(configAudioUrlPreview)
     }),
-    ...(configImageUrl && { imageUrl: configImageUrl })
+    ...(configImageUrl && { imageUrl: configImageUrl }),
+    ...clip
   };
   const audioHasProps = Object.keys(audio).length > 0 && !!audio.url;
-  const playlist = !!showPlaylist && audioItems;
+  const playlist =
+    !!showPlaylist &&
+    audioItems?.map((item, index) =>
+      // Only bound the initial audio item to the clip.
+      hasClip && index === initialAudioIndex ? { ...item, ...clip } : item
+    );
   const bgImageUrl =
     configBgImageUrl || rssItunesImage || rssImageUrl || audio.imageUrl;
   const followUrls = {
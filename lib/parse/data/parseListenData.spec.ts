@@ -75,6 +75,35 @@ describe('lib/parse/data', () => {
       expect(result.episodes.length).toBe(2);
     });
 
+    test('should parse people and inherit them on episodes', () => {
+      const result = parseListenData(
+        { feedUrl: 'http://test.com/feed.rss' },
+        {
+          ...mockRssData,
+          podcast: {
+            person: [{ name: 'John Doe' }]
+          },
+          items: [
+            {
+              ...mockRssData.items[0],
+              podcast: {
+                person: [{ name: 'Jane Doe', role: 'guest' }]
+              }
+            },
+            mockRssData.items[1]
+          ]
+        }
+      );
+
+      expect(result.people).toStrictEqual([
+        { name: 'John Doe', role: 'host', group: 'cast' }
+      ]);
+      expect(result.episodes[0].people).toStrictEqual([
+        { name: 'Jane Doe', role: 'guest', group: 'cast' }
+      ]);
+      expect(result.episodes[1].people).toStrictEqual(result.people);
+    });
+
     test('should handle no rss data', () => {
       const result = parseListenData({});
 
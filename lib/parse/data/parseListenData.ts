@@ -2,6 +2,7 @@ import type { IListenData, IListenEpisodeData, IRss } from '@interfaces/data';
 import type { IListenConfig } from '@interfaces/config';
 import generateHtmlString from '@lib/generate/html/generateHtmlString';
 import parseListenEpisodeData from './parseListenEpisodeData';
+import parsePeopleData from './parsePeopleData';
 import parseRssItems from './parseRssItems';
 
 /**
@@ -21,7 +22,8 @@ const parseListenData = (
     image: rssImage,
     itunes,
     copyright,
-    description
+    description,
+    podcast
   } = rssData || {};
   const { url: rssImageUrl } = rssImage || {};
   const {
@@ -30,15 +32,22 @@ const parseListenData = (
     owner: rssItunesOwner,
     summary: rssItunesSummary
   } = itunes || {};
-  const episodes = parseRssItems(
-    rssData,
-    {
-      // Default to showing all items in feed. Allow config to override.
-      showPlaylist: 'all',
-      ...config
-    },
-    parseListenEpisodeData
-  ) as IListenEpisodeData[];
+  const people = parsePeopleData(podcast?.person);
+  const episodes = (
+    parseRssItems(
+      rssData,
+      {
+        // Default to showing all items in feed. Allow config to override.
+        showPlaylist: 'all',
+        ...config
+      },
+      parseListenEpisodeData
+    ) as IListenEpisodeData[]
+  )?.map((episode) => ({
+    ...episode,
+    // Episodes without their own people inherit the podcast's people.
+    ...(!episode.people && people && { people })
+  }));
   const hasRssData = !!(feedUrl && rssData);
   const bgImageUrl = rssItunesImage || rssImageUrl;
   const content = generateHtmlString(rssItunesSummary || description);
@@ -55,6 +64,7 @@ const parseListenData = (
       ...(copyright && { copyright }),
       ...(rssItunesAuthor && { author: rssItunesAuthor }),
       ...(rssItunesOwner && { owner: rssItunesOwner }),
+      ...(people && { people }),
       ...(episodes && episodes.length && { episodes })
     }),
     followUrls
@@ -0,0 +1,32 @@
+import parseMediaPositionState from './parseMediaPositionState';
+
+describe('lib/parse/data', () => {
+  describe('parseMediaPositionState', () => {
+    test('should return position state', () => {
+      expect(parseMediaPositionState(30, 600, 1.5)).toStrictEqual({
+        duration: 600,
+        playbackRate: 1.5,
+        position: 30
+      });
+    });
+
+    test('should return position within clip', () => {
+      expect(parseMediaPositionState(90, 600, 1, 60, 180)).toStrictEqual({
+        duration: 120,
+        playbackRate: 1,
+        position: 30
+      });
+    });
+
+    test('should keep position within duration', () => {
+      expect(parseMediaPositionState(700, 600).position).toBe(600);
+      expect(parseMediaPositionState(30, 600, 1, 60).position).toBe(0);
+    });
+
+    test('should return null when duration is unknown', () => {
+      expect(parseMediaPositionState(0, NaN)).toBeNull();
+      expect(parseMediaPositionState(0, Infinity)).toBeNull();
+      expect(parseMediaPositionState(0, 0)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Parse player progress into a media session position state. Clips are
+ * reported as though the clip were the whole track.
+ *
+ * @param currentTime Playback time of the current track in seconds.
+ * @param duration Duration of the current track in seconds.
+ * @param playbackRate Playback rate of the player.
+ * @param clipStart Clip start time in seconds.
+ * @param clipEnd Clip end time in seconds.
+ * @returns Position state, or `null` when duration isn't known yet.
+ */
+const parseMediaPositionState = (
+  currentTime: number,
+  duration: number,
+  playbackRate?: number,
+  clipStart?: number,
+  clipEnd?: number
+): Parameters<Navigator['mediaSession']['setPositionState']>[0] => {
+  if (!duration || !Number.isFinite(duration)) return null;
+
+  const start = clipStart || 0;
+  const rangeDuration = Math.max(
+    0,
+    Math.min(clipEnd || duration, duration) - start
+  );
+
+  return {
+    duration: rangeDuration,
+    playbackRate: playbackRate || 1,
+    position: Math.max(0, Math.min((currentTime || 0) - start, rangeDuration))
+  };
+};
+
+export default parseMediaPositionState;
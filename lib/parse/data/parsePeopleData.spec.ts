@@ -0,0 +1,35 @@
+import parsePeopleData from './parsePeopleData';
+
+describe('lib/parse/data', () => {
+  describe('parsePeopleData', () => {
+    test('should parse people with default role and group', () => {
+      const result = parsePeopleData([
+        {
+          name: 'Alice Smith',
+          role: 'Guest',
+          group: 'Cast',
+          img: 'http://foo.com/alice.jpg',
+          href: 'http://foo.com/alice'
+        },
+        { name: 'Bob Jones' }
+      ]);
+
+      expect(result).toStrictEqual([
+        {
+          name: 'Alice Smith',
+          role: 'guest',
+          group: 'cast',
+          imageUrl: 'http://foo.com/alice.jpg',
+          href: 'http://foo.com/alice'
+        },
+        { name: 'Bob Jones', role: 'host', group: 'cast' }
+      ]);
+    });
+
+    test('should return undefined when there are no people', () => {
+      expect(parsePeopleData(undefined)).toBeUndefined();
+      expect(parsePeopleData([])).toBeUndefined();
+      expect(parsePeopleData([{ name: '' }])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import type { IPersonData, IRssPodcastPerson } from '@interfaces/data';
+
+/**
+ * Parse `podcast:person` elements into people data. Role and group are
+ * lowercased, defaulting to `host` in the `cast` group.
+ *
+ * See: https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md#person
+ *
+ * @param persons Person elements from the RSS feed or item.
+ * @returns Array of people, or `undefined` when there are none.
+ */
+const parsePeopleData = (persons: IRssPodcastPerson[]): IPersonData[] => {
+  const people = (persons || [])
+    .filter(({ name }) => !!name)
+    .map(({ name, role, group, img, href }) => ({
+      name,
+      role: role?.trim().toLowerCase() || 'host',
+      group: group?.trim().toLowerCase() || 'cast',
+      ...(img && { imageUrl: img }),
+      ...(href && { href })
+    }));
+
+  return people.length ? people : undefined;
+};
+
+export default parsePeopleData;
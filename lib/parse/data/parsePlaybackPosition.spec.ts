@@ -0,0 +1,28 @@
+import parsePlaybackPosition from './parsePlaybackPosition';
+
+describe('lib/parse/data', () => {
+  describe('parsePlaybackPosition', () => {
+    test('should return position for time', () => {
+      const result = parsePlaybackPosition(120, 3600);
+
+      expect(result.currentTime).toBe(120);
+      expect(result.duration).toBe(3600);
+      expect(result.finished).toBe(false);
+      expect(typeof result.updated).toBe('number');
+    });
+
+    test('should be finished near the end of long audio', () => {
+      expect(parsePlaybackPosition(3571, 3600).finished).toBe(true);
+      expect(parsePlaybackPosition(3560, 3600).finished).toBe(false);
+    });
+
+    test('should be finished near the end of short audio', () => {
+      expect(parsePlaybackPosition(96, 100).finished).toBe(true);
+      expect(parsePlaybackPosition(90, 100).finished).toBe(false);
+    });
+
+    test('should not be finished without a duration', () => {
+      expect(parsePlaybackPosition(0, NaN).finished).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import type { IPlaybackPosition } from '@interfaces/data';
+
+/**
+ * Seconds from the end of the audio after which it is considered finished.
+ */
+const FINISHED_THRESHOLD = 30;
+
+/**
+ * Parse playback time into a playback position to persist.
+ *
+ * @param currentTime Current playback time in seconds.
+ * @param duration Duration of the audio in seconds.
+ * @returns Playback position.
+ */
+const parsePlaybackPosition = (
+  currentTime: number,
+  duration: number
+): IPlaybackPosition => ({
+  currentTime,
+  duration,
+  // Outros and credits shouldn't keep an episode from being finished.
+  finished:
+    !!duration &&
+    duration - currentTime <= Math.min(FINISHED_THRESHOLD, duration * 0.05),
+  updated: Date.now()
+});
+
+export default parsePlaybackPosition;
@@ -0,0 +1,26 @@
+import parsePlayerErrorReason from './parsePlayerErrorReason';
+
+describe('lib/parse/data', () => {
+  describe('parsePlayerErrorReason', () => {
+    test('should parse media error codes', () => {
+      expect(parsePlayerErrorReason({ code: 2 })).toBe('network');
+      expect(parsePlayerErrorReason({ code: 3 })).toBe('decode');
+      expect(parsePlayerErrorReason({ code: 4 })).toBe('unsupported');
+    });
+
+    test('should parse rejected play errors', () => {
+      expect(parsePlayerErrorReason({ name: 'NotAllowedError' })).toBe(
+        'autoplay'
+      );
+      expect(parsePlayerErrorReason({ name: 'NotSupportedError' })).toBe(
+        'unsupported'
+      );
+    });
+
+    test('should return null for aborted playback', () => {
+      expect(parsePlayerErrorReason({ code: 1 })).toBeNull();
+      expect(parsePlayerErrorReason({ name: 'AbortError' })).toBeNull();
+      expect(parsePlayerErrorReason(null)).toBeNull();
+    });
+  });
+});
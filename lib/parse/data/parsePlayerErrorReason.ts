@@ -0,0 +1,39 @@
+import type { PlayerErrorReason } from '@interfaces/states/player';
+
+/**
+ * Parse why playback failed from a media element error or a rejected play
+ * request.
+ *
+ * @param error Media element error, or error `play()` was rejected with.
+ * @returns Reason playback failed, or `null` when playback was aborted.
+ */
+const parsePlayerErrorReason = (
+  error: Pick<MediaError, 'code'> | Pick<Error, 'name'>
+): PlayerErrorReason => {
+  if (!error) return null;
+
+  if ('name' in error) {
+    switch (error.name) {
+      case 'NotAllowedError':
+        return 'autoplay';
+      case 'NotSupportedError':
+        return 'unsupported';
+      default:
+        return null;
+    }
+  }
+
+  // Match `MediaError` code constants, ignoring aborted loads.
+  switch (error.code) {
+    case 2:
+      return 'network';
+    case 3:
+      return 'decode';
+    case 4:
+      return 'unsupported';
+    default:
+      return null;
+  }
+};
+
+export default parsePlayerErrorReason;
@@ -0,0 +1,63 @@
+import parsePreviewRequest from './parsePreviewRequest';
+
+describe('lib/parse/data', () => {
+  describe('parsePreviewRequest', () => {
+    const envelope = { namespace: 'prx-play:preview', version: 1 };
+
+    test('should parse requests', () => {
+      expect(
+        parsePreviewRequest({
+          ...envelope,
+          type: 'updateConfig',
+          id: '1',
+          config: { showCoverArt: true }
+        })
+      ).toStrictEqual({
+        id: '1',
+        request: {
+          type: 'updateConfig',
+          id: '1',
+          config: { showCoverArt: true }
+        }
+      });
+      expect(
+        parsePreviewRequest({ ...envelope, type: 'getEmbed' })
+      ).toStrictEqual({ request: { type: 'getEmbed' } });
+    });
+
+    test('should treat plain config objects as config updates', () => {
+      expect(parsePreviewRequest({ theme: 'dark' })).toStrictEqual({
+        request: { type: 'updateConfig', config: { theme: 'dark' } }
+      });
+    });
+
+    test('should return errors with request id', () => {
+      expect(
+        parsePreviewRequest({
+          ...envelope,
+          type: 'updateConfig',
+          id: '2',
+          config: { theme: 'blue' }
+        })
+      ).toStrictEqual({
+        id: '2',
+        errors: [
+          { key: 'theme', message: 'Must be one of "light", "dark", "auto".' }
+        ]
+      });
+      expect(
+        parsePreviewRequest({ ...envelope, type: 'reload', id: '3' })
+      ).toStrictEqual({
+        id: '3',
+        errors: [{ key: 'type', message: 'Unknown message type.' }]
+      });
+      expect(
+        parsePreviewRequest({ ...envelope, version: 2, type: 'getEmbed' })
+          .errors
+      ).toStrictEqual([
+        { key: 'version', message: 'Unsupported protocol version.' }
+      ]);
+      expect(parsePreviewRequest({ notAConfigProp: 1 }).errors).toHaveLength(1);
+    });
+  });
+});
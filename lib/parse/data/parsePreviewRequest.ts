@@ -0,0 +1,71 @@
+import type { IEmbedConfigValidationError } from '@interfaces/error';
+import type { PreviewRequest } from '@interfaces/embed';
+import {
+  PREVIEW_MESSAGE_NAMESPACE,
+  PREVIEW_MESSAGE_VERSION
+} from '@interfaces/embed';
+import validateEmbedConfig from '@lib/validate/validateEmbedConfig';
+
+export interface IParsedPreviewRequest {
+  request?: PreviewRequest;
+  id?: string;
+  errors?: IEmbedConfigValidationError[];
+}
+
+/**
+ * Parse message data sent to the preview page into a preview request. Plain
+ * config objects from builders predating the protocol are treated as
+ * `updateConfig` requests.
+ *
+ * @param data Message event data.
+ * @returns Parsed request, or errors with the request `id` when the message
+ * is invalid.
+ */
+const parsePreviewRequest = (data: any): IParsedPreviewRequest => {
+  if (data?.namespace !== PREVIEW_MESSAGE_NAMESPACE) {
+    const errors = validateEmbedConfig(data);
+
+    return errors.length
+      ? { errors }
+      : { request: { type: 'updateConfig', config: data } };
+  }
+
+  const id = typeof data.id === 'string' ? data.id : undefined;
+  const withId = <T>(result: T) => ({ ...result, ...(id && { id }) });
+
+  if (data.version > PREVIEW_MESSAGE_VERSION || !(data.version >= 1)) {
+    return withId({
+      errors: [{ key: 'version', message: 'Unsupported protocol version.' }]
+    });
+  }
+
+  switch (data.type) {
+    case 'updateConfig': {
+      const errors = validateEmbedConfig(data.config);
+
+      return withId(
+        errors.length
+          ? { errors }
+          : {
+              request: {
+                type: 'updateConfig',
+                ...(id && { id }),
+                config: data.config
+              } as PreviewRequest
+            }
+      );
+    }
+
+    case 'getEmbed':
+      return withId({
+        request: { type: 'getEmbed', ...(id && { id }) } as PreviewRequest
+      });
+
+    default:
+      return withId({
+        errors: [{ key: 'type', message: 'Unknown message type.' }]
+      });
+  }
+};
+
+export default parsePreviewRequest;
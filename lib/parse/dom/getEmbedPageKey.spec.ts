@@ -0,0 +1,23 @@
+import getEmbedPageKey from './getEmbedPageKey';
+
+describe('lib/parse/dom', () => {
+  describe('getEmbedPageKey', () => {
+    afterEach(() => {
+      window.location.hash = '';
+    });
+
+    test('should get page key from hash.', () => {
+      window.location.hash = '#page=abc123';
+
+      expect(getEmbedPageKey()).toBe('abc123');
+    });
+
+    test('should ignore missing or invalid page keys.', () => {
+      expect(getEmbedPageKey()).toBeNull();
+
+      window.location.hash = '#page=a%20b';
+
+      expect(getEmbedPageKey()).toBeNull();
+    });
+  });
+});
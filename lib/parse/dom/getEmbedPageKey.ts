@@ -0,0 +1,18 @@
+import { EMBED_PAGE_KEY_PARAM } from '@lib/generate/embed/generateEmbedChannel';
+
+/**
+ * Get the page key the host page set in the embed URL hash.
+ *
+ * @returns Page key, or `null` when the embed URL doesn't have a valid one.
+ */
+const getEmbedPageKey = () => {
+  if (typeof window === 'undefined') return null;
+
+  const pageKey = new URLSearchParams(window.location.hash.slice(1)).get(
+    EMBED_PAGE_KEY_PARAM
+  );
+
+  return pageKey && /^[\w-]{1,64}$/.test(pageKey) ? pageKey : null;
+};
+
+export default getEmbedPageKey;
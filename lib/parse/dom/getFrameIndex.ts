@@ -0,0 +1,24 @@
+/**
+ * Get the index of the current window among its parent page's frames.
+ * Frames are in document order, so this is also the order embeds appear on
+ * the page.
+ *
+ * @returns Frame index, or `-1` when the window isn't framed.
+ */
+const getFrameIndex = () => {
+  if (typeof window === 'undefined' || window.parent === window) return -1;
+
+  try {
+    const { frames } = window.parent;
+
+    for (let i = 0; i < frames.length; i += 1) {
+      if (frames[i] === window) return i;
+    }
+  } catch (e) {
+    return -1;
+  }
+
+  return -1;
+};
+
+export default getFrameIndex;
@@ -0,0 +1,86 @@
+import type { IPlayerHotkey } from '@interfaces/player';
+import { PlayerKeymap } from '@interfaces/player';
+import getPlayerHotkey from './getPlayerHotkey';
+
+describe('lib/parse/dom', () => {
+  describe('getPlayerHotkey', () => {
+    const keymap: IPlayerHotkey[] = [
+      {
+        action: 'togglePlayPause',
+        codes: ['Space'],
+        labels: ['Space'],
+        description: 'Play or pause',
+        ignoreTargets: ['BUTTON']
+      },
+      {
+        action: 'previousFrame',
+        codes: ['Comma'],
+        labels: [','],
+        description: 'Step back',
+        pausedOnly: true
+      },
+      {
+        action: 'playbackRateDown',
+        codes: ['Comma'],
+        labels: ['<'],
+        description: 'Slow down',
+        shiftKey: true
+      }
+    ];
+
+    test('should match keyboard event code', () => {
+      const event = new KeyboardEvent('keydown', { code: 'Space' });
+
+      expect(getPlayerHotkey(event, keymap).action).toBe('togglePlayPause');
+    });
+
+    test('should match on shift key', () => {
+      const event = new KeyboardEvent('keydown', {
+        code: 'Comma',
+        shiftKey: true
+      });
+
+      expect(getPlayerHotkey(event, keymap).action).toBe('playbackRateDown');
+      expect(
+        getPlayerHotkey(new KeyboardEvent('keydown', { code: 'Comma' }), keymap)
+          .action
+      ).toBe('previousFrame');
+    });
+
+    test('should not match with other modifier keys', () => {
+      const event = new KeyboardEvent('keydown', {
+        code: 'Space',
+        ctrlKey: true
+      });
+
+      expect(getPlayerHotkey(event, keymap)).toBeNull();
+    });
+
+    test('should not match ignored targets', () => {
+      const button = document.createElement('button');
+      let result: IPlayerHotkey;
+
+      button.addEventListener('keydown', (e) => {
+        result = getPlayerHotkey(e, keymap);
+      });
+      button.dispatchEvent(new KeyboardEvent('keydown', { code: 'Space' }));
+
+      expect(result).toBeNull();
+    });
+
+    test('should not match paused only shortcuts while playing', () => {
+      const event = new KeyboardEvent('keydown', { code: 'Comma' });
+
+      expect(getPlayerHotkey(event, keymap, true)).toBeNull();
+    });
+
+    test('should match player keymap', () => {
+      const event = new KeyboardEvent('keydown', {
+        code: 'Slash',
+        shiftKey: true
+      });
+
+      expect(getPlayerHotkey(event, PlayerKeymap).action).toBe('showHotkeys');
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import type { IPlayerHotkey } from '@interfaces/player';
+
+/**
+ * Get the keyboard shortcut a keydown event triggers.
+ *
+ * @param event Keydown event.
+ * @param keymap Keyboard shortcuts to match against.
+ * @param playing Player is currently playing.
+ * @returns Matching keyboard shortcut, or `null` when the event doesn't
+ * trigger one.
+ */
+const getPlayerHotkey = (
+  event: KeyboardEvent,
+  keymap: IPlayerHotkey[],
+  playing?: boolean
+) => {
+  const key = event.code || event.key;
+  const { nodeName } = (event.target as HTMLElement) || {};
+
+  // Leave other modifier key combinations to browser shortcuts.
+  if (event.altKey || event.ctrlKey || event.metaKey) return null;
+
+  return (
+    keymap.find(
+      ({ codes, shiftKey, ignoreTargets, pausedOnly }) =>
+        codes.includes(key) &&
+        !!shiftKey === event.shiftKey &&
+        !ignoreTargets?.includes(nodeName) &&
+        !(pausedOnly && playing)
+    ) || null
+  );
+};
+
+export default getPlayerHotkey;
@@ -0,0 +1,57 @@
+import type { IncomingMessage } from 'http';
+import getRequestOrigin from './getRequestOrigin';
+
+describe('lib/parse/http', () => {
+  describe('getRequestOrigin', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    test('should use app URL when set.', () => {
+      process.env.APP_URL = 'https://play.example.com/some/path';
+
+      const result = getRequestOrigin({
+        headers: { host: 'localhost:4300' }
+      } as unknown as IncomingMessage);
+
+      expect(result).toBe('https://play.example.com');
+    });
+
+    test('should use local host header outside of production.', () => {
+      delete process.env.APP_URL;
+
+      const result = getRequestOrigin({
+        headers: { host: 'localhost:4300' }
+      } as unknown as IncomingMessage);
+
+      expect(result).toBe('http://localhost:4300');
+    });
+
+    test('should not trust other hosts or proxy headers.', () => {
+      delete process.env.APP_URL;
+
+      const result = getRequestOrigin({
+        headers: {
+          host: 'evil.com',
+          'x-forwarded-host': 'evil.com',
+          'x-forwarded-proto': 'http'
+        }
+      } as unknown as IncomingMessage);
+
+      expect(result).toBe('https://play.prx.org');
+    });
+
+    test('should not trust host header in production.', () => {
+      delete process.env.APP_URL;
+      (process.env as any).NODE_ENV = 'production';
+
+      const result = getRequestOrigin({
+        headers: { host: 'localhost:4300' }
+      } as unknown as IncomingMessage);
+
+      expect(result).toBe('https://play.prx.org');
+    });
+  });
+});
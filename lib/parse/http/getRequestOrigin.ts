@@ -0,0 +1,41 @@
+/**
+ * @file getRequestOrigin.ts
+ * Get origin of the Play app from a server request.
+ */
+
+import type { IncomingMessage } from 'http';
+
+/**
+ * Origin used when no app URL is configured.
+ */
+const DEFAULT_APP_ORIGIN = 'https://play.prx.org';
+
+/**
+ * Hosts trusted from the request outside of production, so local servers
+ * link to themselves.
+ */
+const LOCAL_HOST_REGEX = /^(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+/**
+ * Get origin of the Play app. Uses the `APP_URL` environment variable when
+ * set. Request headers can be spoofed and responses using the origin are
+ * cached, so headers are only trusted for local hosts outside of production.
+ *
+ * @param req Server request.
+ * @returns Origin URL string.
+ */
+const getRequestOrigin = (req: IncomingMessage) => {
+  const appUrl = process.env.APP_URL;
+
+  if (appUrl) return new URL(appUrl).origin;
+
+  const { host } = req.headers;
+
+  if (process.env.NODE_ENV !== 'production' && LOCAL_HOST_REGEX.test(host)) {
+    return `http://${host}`;
+  }
+
+  return DEFAULT_APP_ORIGIN;
+};
+
+export default getRequestOrigin;
@@ -0,0 +1,24 @@
+import parseAnalyticsUrl from './parseAnalyticsUrl';
+
+describe('lib/parse/string', () => {
+  describe('parseAnalyticsUrl', () => {
+    const origin = 'https://play.prx.org';
+
+    test('should allow absolute HTTP(S) URLs.', () => {
+      expect(parseAnalyticsUrl('https://example.com/collect', origin)).toBe(
+        'https://example.com/collect'
+      );
+    });
+
+    test('should resolve paths against the origin.', () => {
+      expect(parseAnalyticsUrl('/api/analytics', origin)).toBe(
+        'https://play.prx.org/api/analytics'
+      );
+    });
+
+    test('should not allow other protocols.', () => {
+      expect(parseAnalyticsUrl('data:text/plain,hi', origin)).toBeNull();
+      expect(parseAnalyticsUrl('ftp://example.com/collect', origin)).toBeNull();
+    });
+  });
+});
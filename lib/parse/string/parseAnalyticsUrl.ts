@@ -0,0 +1,20 @@
+/**
+ * Resolve an analytics collector URL against the Play origin, so the
+ * reference collector can be used with a relative URL. Only HTTP(S)
+ * collectors are allowed.
+ *
+ * @param analyticsUrl Collector URL or path.
+ * @param origin Origin of the Play app.
+ * @returns Absolute collector URL, or `null` when URL is not allowed.
+ */
+const parseAnalyticsUrl = (analyticsUrl: string, origin: string) => {
+  try {
+    const url = new URL(analyticsUrl, origin);
+
+    return /^https?:$/.test(url.protocol) ? url.toString() : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export default parseAnalyticsUrl;
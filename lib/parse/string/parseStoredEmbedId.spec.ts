@@ -0,0 +1,23 @@
+import parseStoredEmbedId from './parseStoredEmbedId';
+
+describe('lib/parse/string', () => {
+  describe('parseStoredEmbedId', () => {
+    const origin = 'https://play.prx.org';
+
+    test('should parse ID from short embed URLs.', () => {
+      expect(parseStoredEmbedId(`${origin}/e/a1B2-c_3`, origin)).toBe(
+        'a1B2-c_3'
+      );
+      expect(parseStoredEmbedId(`${origin}/e/abc/?ge=1`, origin)).toBe('abc');
+    });
+
+    test('should return null for other URLs.', () => {
+      expect(parseStoredEmbedId(`${origin}/e?uf=abc`, origin)).toBeNull();
+      expect(parseStoredEmbedId(`${origin}/e/abc/def`, origin)).toBeNull();
+      expect(
+        parseStoredEmbedId('https://example.com/e/abc', origin)
+      ).toBeNull();
+      expect(parseStoredEmbedId('not a url', origin)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Parse the stored embed ID from a short embed URL.
+ *
+ * @param url Short embed URL.
+ * @param origin Origin of the Play app the URL must belong to.
+ * @returns Stored embed ID, or `null` when URL is not a short embed URL.
+ */
+const parseStoredEmbedId = (url: string, origin: string) => {
+  let embedUrl: URL;
+
+  try {
+    embedUrl = new URL(url);
+  } catch (e) {
+    return null;
+  }
+
+  if (embedUrl.origin !== new URL(origin).origin) return null;
+
+  const [, id] = embedUrl.pathname.match(/^\/e\/([\w-]+)\/?$/) || [];
+
+  return id || null;
+};
+
+export default parseStoredEmbedId;
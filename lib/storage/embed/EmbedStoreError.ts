@@ -0,0 +1,12 @@
+class EmbedStoreError extends Error {
+  public path: string;
+
+  constructor(message: string, path?: string) {
+    super(message);
+    this.name = 'EmbedStoreError';
+    this.message = message;
+    this.path = path;
+  }
+}
+
+export default EmbedStoreError;
@@ -0,0 +1,178 @@
+/**
+ * @file embedStore.ts
+ * Read and write the JSON file stored embeds are kept in.
+ */
+
+import type { IStoredEmbed } from '@interfaces/embed';
+import { promises as fs } from 'fs';
+import path from 'path';
+import EmbedStoreError from './EmbedStoreError';
+
+export type EmbedStore = Record<string, IStoredEmbed>;
+
+/**
+ * Milliseconds to wait between attempts to lock the store.
+ */
+const LOCK_RETRY_MS = 50;
+
+/**
+ * Milliseconds to keep trying to lock the store before giving up.
+ */
+const LOCK_TIMEOUT_MS = 5000;
+
+/**
+ * Age in milliseconds after which a lock is assumed to be left behind by a
+ * crashed server, and is removed.
+ */
+const LOCK_STALE_MS = 30000;
+
+/**
+ * Get path of the embed store file from `EMBED_STORE_PATH`. It has to be set
+ * to a writable file on storage that persists between deploys, and is shared
+ * by every server instance.
+ */
+export const getEmbedStorePath = () => {
+  const storePath = process.env.EMBED_STORE_PATH;
+
+  if (!storePath) {
+    throw new EmbedStoreError(
+      'EMBED_STORE_PATH must be set to use stored embeds.'
+    );
+  }
+
+  return storePath;
+};
+
+/**
+ * Read all stored embeds.
+ *
+ * @returns Stored embeds keyed by ID. Empty when nothing has been stored.
+ */
+export const readEmbedStore = async (): Promise<EmbedStore> => {
+  const storePath = getEmbedStorePath();
+
+  try {
+    const json = await fs.readFile(storePath, 'utf8');
+    const store = JSON.parse(json);
+
+    return store && typeof store === 'object' ? store : {};
+  } catch (e) {
+    if (e.code === 'ENOENT') return {};
+    throw new EmbedStoreError(
+      `Unable to read embed store: ${e.message}`,
+      storePath
+    );
+  }
+};
+
+/**
+ * Write all stored embeds. Writes to a temporary file first so readers
+ * never see a partially written store.
+ *
+ * @param store Stored embeds keyed by ID.
+ */
+const writeEmbedStore = async (store: EmbedStore) => {
+  const storePath = getEmbedStorePath();
+  const tempPath = `${storePath}.${process.pid}.tmp`;
+
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(store, null, 2), 'utf8');
+    await fs.rename(tempPath, storePath);
+  } catch (e) {
+    throw new EmbedStoreError(
+      `Unable to write embed store: ${e.message}`,
+      storePath
+    );
+  }
+};
+
+/**
+ * Lock the store with a lock file, so updates from other server instances
+ * using the same store file wait their turn.
+ *
+ * @param lockPath Path of the lock file.
+ * @param startTime Time the first attempt was made.
+ */
+const lockEmbedStore = async (
+  lockPath: string,
+  startTime = Date.now()
+): Promise<void> => {
+  try {
+    await fs.writeFile(lockPath, `${process.pid}`, { flag: 'wx' });
+    return;
+  } catch (e) {
+    if (e.code !== 'EEXIST') {
+      throw new EmbedStoreError(
+        `Unable to lock embed store: ${e.message}`,
+        lockPath
+      );
+    }
+  }
+
+  const lockAge = await fs.stat(lockPath).then(
+    ({ mtimeMs }) => Date.now() - mtimeMs,
+    () => 0
+  );
+
+  if (lockAge > LOCK_STALE_MS) {
+    await fs.rm(lockPath, { force: true });
+  } else if (Date.now() - startTime > LOCK_TIMEOUT_MS) {
+    throw new EmbedStoreError(
+      'Timed out waiting for embed store lock.',
+      lockPath
+    );
+  } else {
+    await new Promise((resolve) => {
+      setTimeout(resolve, LOCK_RETRY_MS);
+    });
+  }
+
+  await lockEmbedStore(lockPath, startTime);
+};
+
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+/**
+ * Update stored embeds. Updates run one at a time, across server instances
+ * sharing the store file, so concurrent requests don't overwrite each
+ * other's changes.
+ *
+ * @param update Function that changes the store in place and returns a result.
+ * @returns Result of the update.
+ */
+export const updateEmbedStore = <T>(
+  // eslint-disable-next-line no-unused-vars
+  update: (store: EmbedStore) => T
+): Promise<T> => {
+  const result = pendingUpdate
+    .catch(() => {})
+    .then(async () => {
+      const storePath = getEmbedStorePath();
+      const lockPath = `${storePath}.lock`;
+
+      await fs
+        .mkdir(path.dirname(storePath), { recursive: true })
+        .catch((e) => {
+          throw new EmbedStoreError(
+            `Unable to create embed store directory: ${e.message}`,
+            storePath
+          );
+        });
+      await lockEmbedStore(lockPath);
+
+      try {
+        const store = await readEmbedStore();
+        const updateResult = update(store);
+
+        await writeEmbedStore(store);
+
+        return updateResult;
+      } finally {
+        await fs.rm(lockPath, { force: true });
+      }
+    });
+
+  pendingUpdate = result;
+
+  return result;
+};
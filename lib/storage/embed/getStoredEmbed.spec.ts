@@ -0,0 +1,56 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import getStoredEmbed from './getStoredEmbed';
+
+describe('lib/storage/embed', () => {
+  describe('getStoredEmbed', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prx-play-'));
+      process.env.EMBED_STORE_PATH = path.join(tempDir, 'embeds.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      delete process.env.EMBED_STORE_PATH;
+    });
+
+    test('should return null when nothing is stored', async () => {
+      expect(await getStoredEmbed('abc')).toBeNull();
+    });
+
+    test('should return stored embed', async () => {
+      const embed = {
+        id: 'abc',
+        config: { feedUrl: 'https://example.com/feed.xml' },
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z'
+      };
+
+      fs.writeFileSync(
+        process.env.EMBED_STORE_PATH,
+        JSON.stringify({ abc: embed })
+      );
+
+      expect(await getStoredEmbed('abc')).toStrictEqual(embed);
+      expect(await getStoredEmbed('toString')).toBeNull();
+    });
+
+    test('should throw store errors', async () => {
+      fs.writeFileSync(process.env.EMBED_STORE_PATH, '{');
+
+      await expect(getStoredEmbed('abc')).rejects.toMatchObject({
+        name: 'EmbedStoreError',
+        path: process.env.EMBED_STORE_PATH
+      });
+
+      delete process.env.EMBED_STORE_PATH;
+
+      await expect(getStoredEmbed('abc')).rejects.toMatchObject({
+        name: 'EmbedStoreError'
+      });
+    });
+  });
+});
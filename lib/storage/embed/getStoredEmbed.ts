@@ -0,0 +1,16 @@
+import type { IStoredEmbed } from '@interfaces/embed';
+import { readEmbedStore } from './embedStore';
+
+/**
+ * Get a stored embed.
+ *
+ * @param id Stored embed ID.
+ * @returns Stored embed, or `null` when there is no embed with the ID.
+ */
+const getStoredEmbed = async (id: string): Promise<IStoredEmbed | null> => {
+  const store = await readEmbedStore();
+
+  return Object.prototype.hasOwnProperty.call(store, id) ? store[id] : null;
+};
+
+export default getStoredEmbed;
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import getStoredEmbed from './getStoredEmbed';
+import setStoredEmbed from './setStoredEmbed';
+
+describe('lib/storage/embed', () => {
+  describe('setStoredEmbed', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prx-play-'));
+      process.env.EMBED_STORE_PATH = path.join(tempDir, 'embeds.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      delete process.env.EMBED_STORE_PATH;
+    });
+
+    test('should create stored embeds with short ID', async () => {
+      const config = { feedUrl: 'https://example.com/feed.xml' };
+      const result = await setStoredEmbed(config);
+
+      expect(result.id).toMatch(/^[\w-]{8}$/);
+      expect(result.config).toStrictEqual(config);
+      expect(result.createdAt).toBe(result.updatedAt);
+      expect(await getStoredEmbed(result.id)).toStrictEqual(result);
+    });
+
+    test('should update stored embed config', async () => {
+      const { id, createdAt } = await setStoredEmbed({
+        feedUrl: 'https://example.com/feed.xml'
+      });
+      const result = await setStoredEmbed({ audioUrl: 'https://a.mp3' }, id);
+
+      expect(result).toMatchObject({
+        id,
+        createdAt,
+        config: { audioUrl: 'https://a.mp3' }
+      });
+      expect((await getStoredEmbed(id)).config).toStrictEqual({
+        audioUrl: 'https://a.mp3'
+      });
+    });
+
+    test('should not update unknown embeds', async () => {
+      expect(await setStoredEmbed({}, 'missing')).toBeNull();
+      expect(await getStoredEmbed('missing')).toBeNull();
+    });
+
+    test('should keep concurrent changes', async () => {
+      const results = await Promise.all(
+        [1, 2, 3].map((n) => setStoredEmbed({ title: `${n}` }))
+      );
+      const stored = await Promise.all(
+        results.map(({ id }) => getStoredEmbed(id))
+      );
+
+      expect(stored.map(({ config }) => config.title)).toStrictEqual([
+        '1',
+        '2',
+        '3'
+      ]);
+    });
+
+    test('should remove stale locks', async () => {
+      const lockPath = `${process.env.EMBED_STORE_PATH}.lock`;
+      const staleTime = new Date(Date.now() - 60000);
+
+      fs.writeFileSync(lockPath, '1');
+      fs.utimesSync(lockPath, staleTime, staleTime);
+
+      const result = await setStoredEmbed({ title: 'Stale' });
+
+      expect((await getStoredEmbed(result.id)).config.title).toBe('Stale');
+      expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    test('should throw when store path is not set', async () => {
+      delete process.env.EMBED_STORE_PATH;
+
+      await expect(setStoredEmbed({})).rejects.toThrow(
+        'EMBED_STORE_PATH must be set'
+      );
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import type { IEmbedConfig } from '@interfaces/config';
+import type { IStoredEmbed } from '@interfaces/embed';
+import { randomBytes } from 'crypto';
+import { updateEmbedStore } from './embedStore';
+
+/**
+ * Generate a short, URL safe, embed ID.
+ */
+const generateEmbedId = () => randomBytes(6).toString('base64url');
+
+/**
+ * Store an embed config. Creates a new stored embed, or replaces the config
+ * of an existing one when an ID is provided.
+ *
+ * @param config Embed config object.
+ * @param id ID of stored embed to update.
+ * @returns Stored embed, or `null` when there is no embed with the ID.
+ */
+const setStoredEmbed = (
+  config: IEmbedConfig,
+  id?: string
+): Promise<IStoredEmbed | null> =>
+  updateEmbedStore((store) => {
+    const now = new Date().toISOString();
+
+    if (typeof id !== 'undefined') {
+      if (!Object.prototype.hasOwnProperty.call(store, id)) return null;
+
+      // eslint-disable-next-line no-param-reassign
+      store[id] = { ...store[id], config, updatedAt: now };
+
+      return store[id];
+    }
+
+    let newId = generateEmbedId();
+    while (Object.prototype.hasOwnProperty.call(store, newId)) {
+      newId = generateEmbedId();
+    }
+
+    // eslint-disable-next-line no-param-reassign
+    store[newId] = { id: newId, config, createdAt: now, updatedAt: now };
+
+    return store[newId];
+  });
+
+export default setStoredEmbed;
@@ -0,0 +1,22 @@
+import getLocalStorageItem from './getLocalStorageItem';
+
+describe('lib/storage/local', () => {
+  describe('getLocalStorageItem', () => {
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    test('should return parsed value', () => {
+      window.localStorage.setItem('foo', '{"bar":1}');
+
+      expect(getLocalStorageItem('foo')).toStrictEqual({ bar: 1 });
+    });
+
+    test('should return null for missing or invalid values', () => {
+      window.localStorage.setItem('bad', '{bar');
+
+      expect(getLocalStorageItem('missing')).toBeNull();
+      expect(getLocalStorageItem('bad')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Get parsed JSON value from local storage.
+ *
+ * Storage can be unavailable, eg. in private browsing or when third-party
+ * storage is blocked inside an iframe, so failures are treated as no value.
+ *
+ * @param key Storage key.
+ * @returns Parsed value, or `null` when no value exists or storage is unavailable.
+ */
+const getLocalStorageItem = <T = any>(key: string): T => {
+  try {
+    const value = window.localStorage.getItem(key);
+
+    return value ? (JSON.parse(value) as T) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export default getLocalStorageItem;
@@ -0,0 +1,21 @@
+import setLocalStorageItem from './setLocalStorageItem';
+
+describe('lib/storage/local', () => {
+  describe('setLocalStorageItem', () => {
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    test('should store value as JSON', () => {
+      expect(setLocalStorageItem('foo', { bar: 1 })).toBe(true);
+      expect(window.localStorage.getItem('foo')).toBe('{"bar":1}');
+    });
+
+    test('should remove key for null values', () => {
+      setLocalStorageItem('foo', { bar: 1 });
+      setLocalStorageItem('foo', null);
+
+      expect(window.localStorage.getItem('foo')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Set value in local storage as JSON.
+ *
+ * @param key Storage key.
+ * @param value Value to store. Passing `null` or `undefined` removes the key.
+ * @returns Boolean indicating the value was stored.
+ */
+const setLocalStorageItem = (key: string, value: any) => {
+  try {
+    if (value === null || typeof value === 'undefined') {
+      window.localStorage.removeItem(key);
+    } else {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    }
+
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+export default setLocalStorageItem;
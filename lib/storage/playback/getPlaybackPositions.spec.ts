@@ -0,0 +1,33 @@
+import getPlaybackPositions from './getPlaybackPositions';
+
+describe('lib/storage/playback', () => {
+  describe('getPlaybackPositions', () => {
+    const feedUrl = 'https://foo.com/feed.xml';
+
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    test('should return empty object when nothing is stored', () => {
+      expect(getPlaybackPositions(feedUrl)).toStrictEqual({});
+    });
+
+    test('should return stored positions of feed', () => {
+      const mockPositions = {
+        'guid-1': {
+          currentTime: 30,
+          duration: 600,
+          finished: false,
+          updated: 1
+        }
+      };
+
+      window.localStorage.setItem(
+        `prx-play:playback-positions:${feedUrl}`,
+        JSON.stringify(mockPositions)
+      );
+
+      expect(getPlaybackPositions(feedUrl)).toStrictEqual(mockPositions);
+    });
+  });
+});
@@ -0,0 +1,23 @@
+import type { IPlaybackPositions } from '@interfaces/data';
+import getLocalStorageItem from '@lib/storage/local/getLocalStorageItem';
+
+/**
+ * Get local storage key for a feed's playback positions.
+ *
+ * @param feedUrl URL of the feed episodes belong to.
+ * @returns Storage key.
+ */
+export const getPlaybackPositionsKey = (feedUrl: string) =>
+  `prx-play:playback-positions:${feedUrl || ''}`;
+
+/**
+ * Get persisted playback positions of a feed's episodes.
+ *
+ * @param feedUrl URL of the feed episodes belong to.
+ * @returns Playback positions keyed by episode guid.
+ */
+const getPlaybackPositions = (feedUrl: string): IPlaybackPositions =>
+  getLocalStorageItem<IPlaybackPositions>(getPlaybackPositionsKey(feedUrl)) ||
+  {};
+
+export default getPlaybackPositions;
@@ -0,0 +1,33 @@
+import getPlaybackQueue from './getPlaybackQueue';
+
+describe('lib/storage/playback', () => {
+  describe('getPlaybackQueue', () => {
+    const feedUrl = 'https://foo.com/feed.xml';
+
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    test('should return empty array when nothing is stored', () => {
+      expect(getPlaybackQueue(feedUrl)).toStrictEqual([]);
+    });
+
+    test('should return stored queue of feed', () => {
+      window.localStorage.setItem(
+        `prx-play:playback-queue:${feedUrl}`,
+        JSON.stringify(['guid-2', 'guid-1'])
+      );
+
+      expect(getPlaybackQueue(feedUrl)).toStrictEqual(['guid-2', 'guid-1']);
+    });
+
+    test('should ignore malformed stored queue', () => {
+      window.localStorage.setItem(
+        `prx-play:playback-queue:${feedUrl}`,
+        JSON.stringify({ foo: 'bar' })
+      );
+
+      expect(getPlaybackQueue(feedUrl)).toStrictEqual([]);
+    });
+  });
+});
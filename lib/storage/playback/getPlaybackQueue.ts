@@ -0,0 +1,24 @@
+import getLocalStorageItem from '@lib/storage/local/getLocalStorageItem';
+
+/**
+ * Get local storage key for a feed's play queue.
+ *
+ * @param feedUrl URL of the feed queued episodes belong to.
+ * @returns Storage key.
+ */
+export const getPlaybackQueueKey = (feedUrl: string) =>
+  `prx-play:playback-queue:${feedUrl || ''}`;
+
+/**
+ * Get persisted play queue of a feed's episodes.
+ *
+ * @param feedUrl URL of the feed queued episodes belong to.
+ * @returns Guids of queued episodes in play order.
+ */
+const getPlaybackQueue = (feedUrl: string): string[] => {
+  const queue = getLocalStorageItem<string[]>(getPlaybackQueueKey(feedUrl));
+
+  return Array.isArray(queue) ? queue : [];
+};
+
+export default getPlaybackQueue;
@@ -0,0 +1,44 @@
+import getPlaybackPositions from './getPlaybackPositions';
+import setPlaybackPosition from './setPlaybackPosition';
+
+describe('lib/storage/playback', () => {
+  describe('setPlaybackPosition', () => {
+    const feedUrl = 'https://foo.com/feed.xml';
+    const mockPosition = {
+      currentTime: 30,
+      duration: 600,
+      finished: false,
+      updated: 1000
+    };
+
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    test('should store position by feed and guid', () => {
+      setPlaybackPosition(feedUrl, 'guid-1', mockPosition);
+
+      expect(getPlaybackPositions(feedUrl)).toStrictEqual({
+        'guid-1': mockPosition
+      });
+      expect(getPlaybackPositions('https://bar.com/feed.xml')).toStrictEqual(
+        {}
+      );
+    });
+
+    test('should keep positions of other episodes', () => {
+      setPlaybackPosition(feedUrl, 'guid-1', mockPosition);
+      setPlaybackPosition(feedUrl, 'guid-2', { ...mockPosition, updated: 2 });
+
+      expect(Object.keys(getPlaybackPositions(feedUrl))).toStrictEqual([
+        'guid-1',
+        'guid-2'
+      ]);
+    });
+
+    test('should not store position without a guid', () => {
+      expect(setPlaybackPosition(feedUrl, undefined, mockPosition)).toBe(false);
+      expect(getPlaybackPositions(feedUrl)).toStrictEqual({});
+    });
+  });
+});
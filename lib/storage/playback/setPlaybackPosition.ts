@@ -0,0 +1,41 @@
+import type { IPlaybackPosition } from '@interfaces/data';
+import setLocalStorageItem from '@lib/storage/local/setLocalStorageItem';
+import getPlaybackPositions, {
+  getPlaybackPositionsKey
+} from './getPlaybackPositions';
+
+/**
+ * Maximum number of episode positions kept per feed.
+ */
+const MAX_POSITIONS = 200;
+
+/**
+ * Persist playback position of an episode.
+ *
+ * @param feedUrl URL of the feed the episode belongs to.
+ * @param guid Episode guid.
+ * @param position Playback position to store.
+ * @returns Boolean indicating the position was stored.
+ */
+const setPlaybackPosition = (
+  feedUrl: string,
+  guid: string,
+  position: IPlaybackPosition
+) => {
+  if (!guid) return false;
+
+  const positions = Object.entries({
+    ...getPlaybackPositions(feedUrl),
+    [guid]: position
+  })
+    // Keep the most recently updated positions.
+    .sort(([, a], [, b]) => b.updated - a.updated)
+    .slice(0, MAX_POSITIONS);
+
+  return setLocalStorageItem(
+    getPlaybackPositionsKey(feedUrl),
+    Object.fromEntries(positions)
+  );
+};
+
+export default setPlaybackPosition;
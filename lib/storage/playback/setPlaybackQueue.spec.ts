@@ -0,0 +1,25 @@
+import getPlaybackQueue from './getPlaybackQueue';
+import setPlaybackQueue from './setPlaybackQueue';
+
+describe('lib/storage/playback', () => {
+  describe('setPlaybackQueue', () => {
+    const feedUrl = 'https://foo.com/feed.xml';
+
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    test('should store queue by feed', () => {
+      expect(setPlaybackQueue(feedUrl, ['guid-1', 'guid-2'])).toBe(true);
+      expect(getPlaybackQueue(feedUrl)).toStrictEqual(['guid-1', 'guid-2']);
+      expect(getPlaybackQueue('https://bar.com/feed.xml')).toStrictEqual([]);
+    });
+
+    test('should replace stored queue', () => {
+      setPlaybackQueue(feedUrl, ['guid-1', 'guid-2']);
+      setPlaybackQueue(feedUrl, ['guid-2']);
+
+      expect(getPlaybackQueue(feedUrl)).toStrictEqual(['guid-2']);
+    });
+  });
+});
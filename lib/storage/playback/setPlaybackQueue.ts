@@ -0,0 +1,14 @@
+import setLocalStorageItem from '@lib/storage/local/setLocalStorageItem';
+import { getPlaybackQueueKey } from './getPlaybackQueue';
+
+/**
+ * Persist play queue of a feed's episodes.
+ *
+ * @param feedUrl URL of the feed queued episodes belong to.
+ * @param queue Guids of queued episodes in play order.
+ * @returns Boolean indicating the queue was stored.
+ */
+const setPlaybackQueue = (feedUrl: string, queue: string[]) =>
+  setLocalStorageItem(getPlaybackQueueKey(feedUrl), queue || []);
+
+export default setPlaybackQueue;
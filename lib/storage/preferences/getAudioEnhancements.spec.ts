@@ -0,0 +1,38 @@
+import getAudioEnhancements from './getAudioEnhancements';
+
+describe('lib/storage/preferences', () => {
+  describe('getAudioEnhancements', () => {
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    test('should return empty object when nothing is stored', () => {
+      expect(getAudioEnhancements()).toStrictEqual({});
+    });
+
+    test('should return stored enhancements', () => {
+      window.localStorage.setItem(
+        'prx-play:audio-enhancements',
+        JSON.stringify({ voiceBoost: true, mono: false })
+      );
+
+      expect(getAudioEnhancements()).toStrictEqual({
+        voiceBoost: true,
+        mono: false
+      });
+    });
+
+    test('should ignore malformed stored enhancements', () => {
+      window.localStorage.setItem(
+        'prx-play:audio-enhancements',
+        JSON.stringify({ voiceBoost: 'yes', leveling: true, foo: true })
+      );
+
+      expect(getAudioEnhancements()).toStrictEqual({ leveling: true });
+
+      window.localStorage.setItem('prx-play:audio-enhancements', '"foo"');
+
+      expect(getAudioEnhancements()).toStrictEqual({});
+    });
+  });
+});
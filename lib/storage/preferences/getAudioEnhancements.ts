@@ -0,0 +1,25 @@
+import type { IPlayerAudioEnhancements } from '@interfaces/states/player';
+import getLocalStorageItem from '@lib/storage/local/getLocalStorageItem';
+
+/**
+ * Local storage key for the listener's audio enhancements.
+ */
+export const AUDIO_ENHANCEMENTS_KEY = 'prx-play:audio-enhancements';
+
+/**
+ * Get persisted audio enhancements the listener has turned on.
+ *
+ * @returns Enhancements stored as turned on or off. Unknown or malformed
+ * values are left out.
+ */
+const getAudioEnhancements = (): Partial<IPlayerAudioEnhancements> => {
+  const enhancements = getLocalStorageItem(AUDIO_ENHANCEMENTS_KEY);
+
+  if (!enhancements || typeof enhancements !== 'object') return {};
+
+  return ['voiceBoost', 'leveling', 'mono']
+    .filter((name) => typeof enhancements[name] === 'boolean')
+    .reduce((a, name) => ({ ...a, [name]: enhancements[name] }), {});
+};
+
+export default getAudioEnhancements;
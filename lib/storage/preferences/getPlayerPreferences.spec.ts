@@ -0,0 +1,51 @@
+import getPlayerPreferences from './getPlayerPreferences';
+
+describe('lib/storage/preferences', () => {
+  describe('getPlayerPreferences', () => {
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    test('should return empty object when nothing is stored', () => {
+      expect(getPlayerPreferences()).toStrictEqual({});
+    });
+
+    test('should return stored preferences', () => {
+      window.localStorage.setItem(
+        'prx-play:player-preferences',
+        JSON.stringify({ volume: 0.35, muted: true, playbackRate: 1.35 })
+      );
+
+      expect(getPlayerPreferences()).toStrictEqual({
+        volume: 0.35,
+        muted: true,
+        playbackRate: 1.35
+      });
+    });
+
+    test('should clamp stored values', () => {
+      window.localStorage.setItem(
+        'prx-play:player-preferences',
+        JSON.stringify({ volume: 2, playbackRate: 10 })
+      );
+
+      expect(getPlayerPreferences()).toStrictEqual({
+        volume: 1,
+        playbackRate: 3
+      });
+    });
+
+    test('should ignore malformed stored preferences', () => {
+      window.localStorage.setItem(
+        'prx-play:player-preferences',
+        JSON.stringify({ volume: 'loud', muted: 1, playbackRate: 1.5 })
+      );
+
+      expect(getPlayerPreferences()).toStrictEqual({ playbackRate: 1.5 });
+
+      window.localStorage.setItem('prx-play:player-preferences', '"foo"');
+
+      expect(getPlayerPreferences()).toStrictEqual({});
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import type { IPlayerPreferences } from '@interfaces/states/player';
+import clampPlaybackRate from '@lib/math/number/clampPlaybackRate';
+import getLocalStorageItem from '@lib/storage/local/getLocalStorageItem';
+
+/**
+ * Local storage key for the listener's player preferences.
+ *
+ * Storage is scoped to the Play origin, so preferences are shared by the
+ * Listen page and every embed iframe, wherever it is embedded. Browsers that
+ * partition third-party storage will keep separate preferences per site.
+ */
+export const PLAYER_PREFERENCES_KEY = 'prx-play:player-preferences';
+
+/**
+ * Get persisted volume, mute and playback rate preferences.
+ *
+ * @returns Preferences stored by the listener. Unknown or malformed values
+ * are left out.
+ */
+const getPlayerPreferences = (): Partial<IPlayerPreferences> => {
+  const preferences = getLocalStorageItem(PLAYER_PREFERENCES_KEY);
+
+  if (!preferences || typeof preferences !== 'object') return {};
+
+  const { volume, muted, playbackRate } = preferences;
+
+  return {
+    ...(typeof volume === 'number' &&
+      !Number.isNaN(volume) && { volume: Math.min(1, Math.max(0, volume)) }),
+    ...(typeof muted === 'boolean' && { muted }),
+    ...(typeof playbackRate === 'number' && {
+      playbackRate: clampPlaybackRate(playbackRate)
+    })
+  };
+};
+
+export default getPlayerPreferences;
@@ -0,0 +1,21 @@
+import getAudioEnhancements from './getAudioEnhancements';
+import setAudioEnhancements from './setAudioEnhancements';
+
+describe('lib/storage/preferences', () => {
+  describe('setAudioEnhancements', () => {
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    test('should store enhancements', () => {
+      expect(
+        setAudioEnhancements({ voiceBoost: true, leveling: false, mono: true })
+      ).toBe(true);
+      expect(getAudioEnhancements()).toStrictEqual({
+        voiceBoost: true,
+        leveling: false,
+        mono: true
+      });
+    });
+  });
+});
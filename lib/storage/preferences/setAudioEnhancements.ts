@@ -0,0 +1,14 @@
+import type { IPlayerAudioEnhancements } from '@interfaces/states/player';
+import setLocalStorageItem from '@lib/storage/local/setLocalStorageItem';
+import { AUDIO_ENHANCEMENTS_KEY } from './getAudioEnhancements';
+
+/**
+ * Persist audio enhancements the listener has turned on.
+ *
+ * @param enhancements Audio enhancements to store.
+ * @returns Boolean indicating the enhancements were stored.
+ */
+const setAudioEnhancements = (enhancements: IPlayerAudioEnhancements) =>
+  setLocalStorageItem(AUDIO_ENHANCEMENTS_KEY, enhancements);
+
+export default setAudioEnhancements;
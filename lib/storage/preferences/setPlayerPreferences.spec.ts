@@ -0,0 +1,21 @@
+import getPlayerPreferences from './getPlayerPreferences';
+import setPlayerPreferences from './setPlayerPreferences';
+
+describe('lib/storage/preferences', () => {
+  describe('setPlayerPreferences', () => {
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    test('should store preferences', () => {
+      expect(
+        setPlayerPreferences({ volume: 0.5, muted: false, playbackRate: 1.75 })
+      ).toBe(true);
+      expect(getPlayerPreferences()).toStrictEqual({
+        volume: 0.5,
+        muted: false,
+        playbackRate: 1.75
+      });
+    });
+  });
+});
@@ -0,0 +1,14 @@
+import type { IPlayerPreferences } from '@interfaces/states/player';
+import setLocalStorageItem from '@lib/storage/local/setLocalStorageItem';
+import { PLAYER_PREFERENCES_KEY } from './getPlayerPreferences';
+
+/**
+ * Persist volume, mute and playback rate preferences.
+ *
+ * @param preferences Preferences to store.
+ * @returns Boolean indicating the preferences were stored.
+ */
+const setPlayerPreferences = (preferences: IPlayerPreferences) =>
+  setLocalStorageItem(PLAYER_PREFERENCES_KEY, preferences);
+
+export default setPlayerPreferences;
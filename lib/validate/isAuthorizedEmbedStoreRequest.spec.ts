@@ -0,0 +1,34 @@
+import type { IncomingMessage } from 'http';
+import isAuthorizedEmbedStoreRequest from './isAuthorizedEmbedStoreRequest';
+
+describe('lib/validate', () => {
+  describe('isAuthorizedEmbedStoreRequest', () => {
+    const mockRequest = (authorization?: string) =>
+      ({
+        headers: { ...(authorization && { authorization }) }
+      } as unknown as IncomingMessage);
+
+    afterEach(() => {
+      delete process.env.EMBED_STORE_API_TOKEN;
+    });
+
+    test('should require matching bearer token when configured.', () => {
+      process.env.EMBED_STORE_API_TOKEN = 'secret';
+
+      expect(isAuthorizedEmbedStoreRequest(mockRequest('Bearer secret'))).toBe(
+        true
+      );
+      expect(isAuthorizedEmbedStoreRequest(mockRequest('Bearer secrets'))).toBe(
+        false
+      );
+      expect(isAuthorizedEmbedStoreRequest(mockRequest('Basic secret'))).toBe(
+        false
+      );
+      expect(isAuthorizedEmbedStoreRequest(mockRequest())).toBe(false);
+    });
+
+    test('should allow requests outside of production when no token is configured.', () => {
+      expect(isAuthorizedEmbedStoreRequest(mockRequest())).toBe(true);
+    });
+  });
+});
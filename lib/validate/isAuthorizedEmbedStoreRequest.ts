@@ -0,0 +1,34 @@
+/**
+ * @file isAuthorizedEmbedStoreRequest.ts
+ * Check a request is allowed to change stored embeds.
+ */
+
+import type { IncomingMessage } from 'http';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Check a request is allowed to change stored embeds. Requests must send the
+ * `EMBED_STORE_API_TOKEN` as a bearer token. Without a token configured,
+ * changes are only allowed outside of production.
+ *
+ * @param req Server request.
+ * @returns Whether request is authorized.
+ */
+const isAuthorizedEmbedStoreRequest = (req: IncomingMessage) => {
+  const token = process.env.EMBED_STORE_API_TOKEN;
+
+  if (!token) return process.env.NODE_ENV !== 'production';
+
+  const [scheme, credentials] = (req.headers.authorization || '').split(' ');
+
+  if (scheme !== 'Bearer' || !credentials) return false;
+
+  const expected = Buffer.from(token);
+  const received = Buffer.from(credentials);
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+};
+
+export default isAuthorizedEmbedStoreRequest;
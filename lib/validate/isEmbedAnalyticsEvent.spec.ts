@@ -0,0 +1,29 @@
+import isEmbedAnalyticsEvent from './isEmbedAnalyticsEvent';
+
+describe('lib/validate', () => {
+  describe('isEmbedAnalyticsEvent', () => {
+    const event = {
+      event: 'quartile',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      sessionId: 'abc123',
+      config: { feedUrl: 'https://show.com/feed.xml' },
+      guid: 'ABC',
+      quartile: 50
+    };
+
+    test('should accept analytics events.', () => {
+      expect(isEmbedAnalyticsEvent(event)).toBe(true);
+    });
+
+    test('should reject other data.', () => {
+      expect(isEmbedAnalyticsEvent(null)).toBe(false);
+      expect(isEmbedAnalyticsEvent('quartile')).toBe(false);
+      expect(isEmbedAnalyticsEvent({ ...event, event: 'unknown' })).toBe(false);
+      expect(isEmbedAnalyticsEvent({ ...event, timestamp: 'nope' })).toBe(
+        false
+      );
+      expect(isEmbedAnalyticsEvent({ ...event, sessionId: 1 })).toBe(false);
+      expect(isEmbedAnalyticsEvent({ ...event, config: [] })).toBe(false);
+    });
+  });
+});
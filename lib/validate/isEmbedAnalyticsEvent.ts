@@ -0,0 +1,31 @@
+/**
+ * @file isEmbedAnalyticsEvent.ts
+ * Check data received by a collector is an embed analytics event.
+ */
+
+import type {
+  EmbedAnalyticsEventName,
+  IEmbedAnalyticsEvent
+} from '@interfaces/embed';
+
+export const EmbedAnalyticsEventNames: EmbedAnalyticsEventName[] = [
+  'load',
+  'firstPlay',
+  'quartile',
+  'complete',
+  'seek',
+  'share'
+];
+
+const isEmbedAnalyticsEvent = (data: any): data is IEmbedAnalyticsEvent =>
+  !!data &&
+  typeof data === 'object' &&
+  EmbedAnalyticsEventNames.includes(data.event) &&
+  typeof data.timestamp === 'string' &&
+  !Number.isNaN(Date.parse(data.timestamp)) &&
+  typeof data.sessionId === 'string' &&
+  !!data.config &&
+  typeof data.config === 'object' &&
+  !Array.isArray(data.config);
+
+export default isEmbedAnalyticsEvent;
@@ -0,0 +1,23 @@
+import isTrustedPreviewOrigin from './isTrustedPreviewOrigin';
+
+describe('lib/validate', () => {
+  describe('isTrustedPreviewOrigin', () => {
+    test('should trust PRX apps and the Play app.', () => {
+      expect(isTrustedPreviewOrigin('https://publish.prx.org')).toBe(true);
+      expect(isTrustedPreviewOrigin('https://feeder.staging.prx.tech')).toBe(
+        true
+      );
+      expect(isTrustedPreviewOrigin('http://publish.prx.test:4200')).toBe(true);
+      expect(
+        isTrustedPreviewOrigin('http://localhost:4300', 'http://localhost:4300')
+      ).toBe(true);
+    });
+
+    test('should not trust other origins.', () => {
+      expect(isTrustedPreviewOrigin('https://example.com')).toBe(false);
+      expect(isTrustedPreviewOrigin('https://prx.org.example.com')).toBe(false);
+      expect(isTrustedPreviewOrigin('null')).toBe(false);
+      expect(isTrustedPreviewOrigin(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * @file isTrustedPreviewOrigin.ts
+ * Check an origin is allowed to drive the preview page.
+ */
+
+/**
+ * Check an origin is a PRX app, or the Play app itself, allowed to drive the
+ * preview page.
+ *
+ * @param origin Origin to check.
+ * @param appOrigin Origin of the Play app.
+ * @returns Whether origin is trusted.
+ */
+const isTrustedPreviewOrigin = (origin: string, appOrigin?: string) => {
+  if (!origin || origin === 'null') return false;
+  if (origin === appOrigin) return true;
+
+  try {
+    return /\.prx\.(org|tech|test)$/.test(new URL(origin).hostname);
+  } catch (e) {
+    return false;
+  }
+};
+
+export default isTrustedPreviewOrigin;
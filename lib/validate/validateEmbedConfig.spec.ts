@@ -0,0 +1,56 @@
+import validateEmbedConfig from './validateEmbedConfig';
+
+describe('lib/validate', () => {
+  describe('validateEmbedConfig', () => {
+    test('should accept valid config.', () => {
+      expect(
+        validateEmbedConfig({
+          feedUrl: 'https://show.com/feed.xml',
+          episodeGuid: 'ABC',
+          showPlaylist: 'all',
+          playlistSeason: 2,
+          showCoverArt: true,
+          accentColor: ['#ff0000', '#00f 50%'],
+          theme: 'dark',
+          clipStart: 1.5,
+          hotkeys: 'focus',
+          analyticsUrl: '/api/analytics'
+        })
+      ).toStrictEqual([]);
+    });
+
+    test('should allow unsetting properties.', () => {
+      expect(
+        validateEmbedConfig({ episodeGuid: null, theme: undefined })
+      ).toStrictEqual([]);
+    });
+
+    test('should return errors for invalid properties.', () => {
+      const result = validateEmbedConfig({
+        feedUrl: 'ftp://example.com/feed.xml',
+        showPlaylist: -1,
+        showCoverArt: 'yes',
+        accentColor: ['red'],
+        theme: 'blue',
+        notAConfigProp: 1
+      });
+
+      expect(result.map(({ key }) => key)).toStrictEqual([
+        'feedUrl',
+        'showPlaylist',
+        'showCoverArt',
+        'accentColor',
+        'theme',
+        'notAConfigProp'
+      ]);
+      expect(result[4].message).toBe('Must be one of "light", "dark", "auto".');
+    });
+
+    test('should reject non-objects.', () => {
+      expect(validateEmbedConfig(null)).toStrictEqual([
+        { key: 'config', message: 'Must be an object.' }
+      ]);
+      expect(validateEmbedConfig(['feedUrl'])).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * @file validateEmbedConfig.ts
+ * Validate embed config objects received from outside the app.
+ */
+
+import type { IEmbedConfig } from '@interfaces/config';
+import type { IEmbedConfigValidationError } from '@interfaces/error';
+import parseAnalyticsUrl from '@lib/parse/string/parseAnalyticsUrl';
+
+/**
+ * Validate a config value.
+ *
+ * @returns Error message, or `null` when value is valid.
+ */
+// eslint-disable-next-line no-unused-vars
+type EmbedConfigValidator = (value: any) => string | null;
+
+const isString: EmbedConfigValidator = (value) =>
+  typeof value === 'string' ? null : 'Must be a string.';
+
+const isUrl: EmbedConfigValidator = (value) => {
+  if (typeof value !== 'string') return 'Must be a URL string.';
+
+  try {
+    return /^https?:$/.test(new URL(value).protocol)
+      ? null
+      : 'Must be an HTTP(S) URL.';
+  } catch (e) {
+    return 'Must be a URL string.';
+  }
+};
+
+const isAnalyticsUrl: EmbedConfigValidator = (value) => {
+  if (typeof value !== 'string') return 'Must be a URL string.';
+
+  // Paths are resolved against the embed's origin, so any origin will do.
+  return parseAnalyticsUrl(value, 'https://play.prx.org')
+    ? null
+    : 'Must be an HTTP(S) URL or path.';
+};
+
+const isBoolean: EmbedConfigValidator = (value) =>
+  typeof value === 'boolean' ? null : 'Must be a boolean.';
+
+const isWholeNumber: EmbedConfigValidator = (value) =>
+  Number.isInteger(value) && value >= 0 ? null : 'Must be a whole number.';
+
+const isSeconds: EmbedConfigValidator = (value) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0
+    ? null
+    : 'Must be a number of seconds.';
+
+const isOneOf =
+  (...values: string[]): EmbedConfigValidator =>
+  (value) =>
+    values.includes(value)
+      ? null
+      : `Must be one of ${values.map((v) => `"${v}"`).join(', ')}.`;
+
+const isPlaylistSize: EmbedConfigValidator = (value) =>
+  value === 'all' || (Number.isInteger(value) && value >= 0)
+    ? null
+    : 'Must be "all" or a whole number.';
+
+const isAccentColor: EmbedConfigValidator = (value) =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((color) =>
+    /^#(?:[a-f0-9]{6}(?:[a-f0-9]{2})?|[a-f0-9]{3})(?:\s1?\d?\d%)?$/i.test(color)
+  )
+    ? null
+    : 'Must be a list of hex colors, eg. ["#ff0000", "#0000ff 50%"].';
+
+/**
+ * Validators for every embed config property.
+ */
+export const EmbedConfigValidators: Record<
+  keyof IEmbedConfig,
+  EmbedConfigValidator
+> = {
+  title: isString,
+  subtitle: isString,
+  ctaTitle: isString,
+  audioUrl: isUrl,
+  audioUrlPreview: isUrl,
+  imageUrl: isUrl,
+  episodeImageUrl: isUrl,
+  feedUrl: isUrl,
+  feedId: isString,
+  episodeGuid: isString,
+  ctaUrl: isUrl,
+  subscribeUrl: isUrl,
+  subscribeTarget: isString,
+  ctaTarget: isString,
+  showPlaylist: isPlaylistSize,
+  playlistSeason: isWholeNumber,
+  playlistCategory: isString,
+  showCoverArt: isBoolean,
+  accentColor: isAccentColor,
+  theme: isOneOf('light', 'dark', 'auto'),
+  maxWidth: isWholeNumber,
+  clipStart: isSeconds,
+  clipEnd: isSeconds,
+  startOnSoundbite: isBoolean,
+  repeatMode: isOneOf('one', 'all'),
+  shuffle: isBoolean,
+  crossfade: isSeconds,
+  skipBack: isWholeNumber,
+  skipForward: isWholeNumber,
+  disablePersistence: isBoolean,
+  hotkeys: isOneOf('focus', 'off'),
+  continueToNextEmbed: isBoolean,
+  analyticsUrl: isAnalyticsUrl
+};
+
+/**
+ * Validate a partial embed config, eg. a patch to merge into the current
+ * config. `null` and `undefined` values are allowed to unset a property.
+ *
+ * @param config Data to validate.
+ * @returns List of validation errors. Empty when config is valid.
+ */
+const validateEmbedConfig = (config: any): IEmbedConfigValidationError[] => {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return [{ key: 'config', message: 'Must be an object.' }];
+  }
+
+  return Object.entries(config).reduce((errors, [key, value]) => {
+    if (!Object.prototype.hasOwnProperty.call(EmbedConfigValidators, key)) {
+      return [...errors, { key, message: 'Unknown config property.' }];
+    }
+
+    if (value === null || value === undefined) return errors;
+
+    const message = EmbedConfigValidators[key as keyof IEmbedConfig](value);
+
+    return message ? [...errors, { key, message }] : errors;
+  }, [] as IEmbedConfigValidationError[]);
+};
+
+export default validateEmbedConfig;
@@ -37,6 +37,43 @@ const nextConfig = {
           }
         ]
       },
+      {
+        // Stored embeds can be changed, so don't cache them for long.
+        source: '/e/:id',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=60'
+          }
+        ]
+      },
+      {
+        source: '/prx-play.js',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=3600'
+          }
+        ]
+      },
+      {
+        source: '/prx-play-api.js',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=3600'
+          }
+        ]
+      },
+      {
+        source: '/api/oembed',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=300'
+          }
+        ]
+      },
       {
         source: '/api/proxy/rss',
         headers: [
@@ -53,6 +90,18 @@ const nextConfig = {
       {
         source: '/e',
         destination: '/embed'
+      },
+      {
+        source: '/e/:id',
+        destination: '/embed'
+      },
+      {
+        source: '/prx-play.js',
+        destination: '/api/element'
+      },
+      {
+        source: '/prx-play-api.js',
+        destination: '/api/client'
       }
     ];
   },
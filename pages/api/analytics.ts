@@ -0,0 +1,54 @@
+/**
+ * Reference collector for embed listening analytics events. Known event
+ * properties are written to the structured server logs.
+ *
+ * Request Body: JSON analytics event, sent as plain text by beacons.
+ */
+
+// Next.js API route support: https://nextjs.org/docs/api-routes/introduction
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { IPageError } from '@interfaces/error';
+import parseEmbedAnalyticsEvent from '@lib/parse/data/parseEmbedAnalyticsEvent';
+import isEmbedAnalyticsEvent from '@lib/validate/isEmbedAnalyticsEvent';
+
+export const config = {
+  api: {
+    bodyParser: {
+      // Events are small. Larger bodies are rejected before they are parsed.
+      sizeLimit: '8kb'
+    }
+  }
+};
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<void | { error: IPageError }>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({
+      error: { statusCode: 405, message: 'Method Not Allowed' }
+    });
+    return;
+  }
+
+  let event: unknown;
+  try {
+    event = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+  } catch (e) {
+    event = null;
+  }
+
+  if (!isEmbedAnalyticsEvent(event)) {
+    res.status(400).json({
+      error: { statusCode: 400, message: 'Bad Analytics Event Provided' }
+    });
+    return;
+  }
+
+  // eslint-disable-next-line no-console
+  console.info({ analytics: parseEmbedAnalyticsEvent(event) }, 'Analytics');
+
+  res.status(204).end();
+}
@@ -0,0 +1,17 @@
+/**
+ * Script defining the embed API client, served as `/prx-play-api.js`.
+ *
+ * Response Type: JavaScript
+ */
+
+// Next.js API route support: https://nextjs.org/docs/api-routes/introduction
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import generateEmbedApiClientScript from '@lib/generate/html/generateEmbedApiClientScript';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  res
+    .status(200)
+    .setHeader('Content-Type', 'text/javascript; charset=utf-8')
+    .send(generateEmbedApiClientScript());
+}
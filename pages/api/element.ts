@@ -0,0 +1,18 @@
+/**
+ * Script defining the `<prx-play>` custom element, served as `/prx-play.js`.
+ *
+ * Response Type: JavaScript
+ */
+
+// Next.js API route support: https://nextjs.org/docs/api-routes/introduction
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import generateEmbedElementScript from '@lib/generate/html/generateEmbedElement';
+import getRequestOrigin from '@lib/parse/http/getRequestOrigin';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  res
+    .status(200)
+    .setHeader('Content-Type', 'text/javascript; charset=utf-8')
+    .send(generateEmbedElementScript(getRequestOrigin(req)));
+}
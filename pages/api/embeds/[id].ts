@@ -0,0 +1,107 @@
+/**
+ * Get or update a stored embed. Updating a stored embed changes every page
+ * its short embed URL is used on.
+ *
+ * Request Body: JSON object with the embed `config` to replace the stored
+ * config with.
+ * Response Type: JSON stored embed, with its embed URL and HTML.
+ */
+
+// Next.js API route support: https://nextjs.org/docs/api-routes/introduction
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { IStoredEmbed, IStoredEmbedResponse } from '@interfaces/embed';
+import type {
+  IEmbedConfigValidationError,
+  IPageError
+} from '@interfaces/error';
+import generateStoredEmbedResponse from '@lib/generate/data/generateStoredEmbedResponse';
+import parseStoredEmbedConfig from '@lib/parse/config/parseStoredEmbedConfig';
+import getRequestOrigin from '@lib/parse/http/getRequestOrigin';
+import getStoredEmbed from '@lib/storage/embed/getStoredEmbed';
+import setStoredEmbed from '@lib/storage/embed/setStoredEmbed';
+import isAuthorizedEmbedStoreRequest from '@lib/validate/isAuthorizedEmbedStoreRequest';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<
+    | IStoredEmbedResponse
+    | { error: IPageError; errors?: IEmbedConfigValidationError[] }
+  >
+) {
+  const { id: i } = req.query;
+  const id = Array.isArray(i) ? i[0] : i;
+  const origin = getRequestOrigin(req);
+  const sendError = (statusCode: number, message: string) => {
+    res.status(statusCode).json({ error: { statusCode, message } });
+  };
+  const sendStoreError = (e: Error) => {
+    if (e.name !== 'EmbedStoreError') throw e;
+
+    // eslint-disable-next-line no-console
+    console.error({ err: e }, 'Embed Store Error');
+
+    sendError(503, 'Embed Store Unavailable');
+  };
+
+  switch (req.method) {
+    case 'GET': {
+      let embed: IStoredEmbed;
+      try {
+        embed = await getStoredEmbed(id);
+      } catch (e) {
+        sendStoreError(e);
+        return;
+      }
+
+      if (!embed) {
+        sendError(404, 'Embed Not Found');
+        return;
+      }
+
+      res.status(200).json(generateStoredEmbedResponse(embed, origin));
+      break;
+    }
+
+    case 'PUT': {
+      if (!isAuthorizedEmbedStoreRequest(req)) {
+        sendError(401, 'Unauthorized');
+        return;
+      }
+
+      const { config, errors } = parseStoredEmbedConfig(req.body);
+
+      if (errors) {
+        res.status(400).json({
+          error: { statusCode: 400, message: 'Bad Embed Config Provided' },
+          errors
+        });
+        return;
+      }
+
+      let embed: IStoredEmbed;
+      try {
+        embed = await setStoredEmbed(config, id);
+      } catch (e) {
+        sendStoreError(e);
+        return;
+      }
+
+      if (!embed) {
+        sendError(404, 'Embed Not Found');
+        return;
+      }
+
+      // eslint-disable-next-line no-console
+      console.info({ embed }, 'Embed Updated');
+
+      res.status(200).json(generateStoredEmbedResponse(embed, origin));
+      break;
+    }
+
+    default:
+      res.setHeader('Allow', 'GET, PUT');
+      sendError(405, 'Method Not Allowed');
+      break;
+  }
+}
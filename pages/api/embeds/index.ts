@@ -0,0 +1,75 @@
+/**
+ * Create stored embeds with short embed URL's.
+ *
+ * Request Body: JSON object with the embed `config` to store.
+ * Response Type: JSON stored embed, with its embed URL and HTML.
+ */
+
+// Next.js API route support: https://nextjs.org/docs/api-routes/introduction
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { IStoredEmbed, IStoredEmbedResponse } from '@interfaces/embed';
+import type {
+  IEmbedConfigValidationError,
+  IPageError
+} from '@interfaces/error';
+import generateStoredEmbedResponse from '@lib/generate/data/generateStoredEmbedResponse';
+import parseStoredEmbedConfig from '@lib/parse/config/parseStoredEmbedConfig';
+import getRequestOrigin from '@lib/parse/http/getRequestOrigin';
+import setStoredEmbed from '@lib/storage/embed/setStoredEmbed';
+import isAuthorizedEmbedStoreRequest from '@lib/validate/isAuthorizedEmbedStoreRequest';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<
+    | IStoredEmbedResponse
+    | { error: IPageError; errors?: IEmbedConfigValidationError[] }
+  >
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({
+      error: { statusCode: 405, message: 'Method Not Allowed' }
+    });
+    return;
+  }
+
+  if (!isAuthorizedEmbedStoreRequest(req)) {
+    res.status(401).json({
+      error: { statusCode: 401, message: 'Unauthorized' }
+    });
+    return;
+  }
+
+  const { config, errors } = parseStoredEmbedConfig(req.body);
+
+  if (errors) {
+    res.status(400).json({
+      error: { statusCode: 400, message: 'Bad Embed Config Provided' },
+      errors
+    });
+    return;
+  }
+
+  let embed: IStoredEmbed;
+  try {
+    embed = await setStoredEmbed(config);
+  } catch (e) {
+    if (e.name !== 'EmbedStoreError') throw e;
+
+    // eslint-disable-next-line no-console
+    console.error({ err: e }, 'Embed Store Error');
+
+    res.status(503).json({
+      error: { statusCode: 503, message: 'Embed Store Unavailable' }
+    });
+    return;
+  }
+
+  // eslint-disable-next-line no-console
+  console.info({ embed }, 'Embed Created');
+
+  res
+    .status(201)
+    .json(generateStoredEmbedResponse(embed, getRequestOrigin(req)));
+}
@@ -0,0 +1,97 @@
+/**
+ * oEmbed provider for Play embed, short embed and listen page URL's, so CMSes
+ * can turn pasted links into embeds.
+ *
+ * See oEmbed specification: https://oembed.com/
+ *
+ * Response Type: JSON
+ */
+
+// Next.js API route support: https://nextjs.org/docs/api-routes/introduction
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { IRss } from '@interfaces/data';
+import type { IOEmbedResponse, IStoredEmbed } from '@interfaces/embed';
+import type { IPageError } from '@interfaces/error';
+import convertStringToInteger from '@lib/convert/string/convertStringToInteger';
+import fetchRssProxy from '@lib/fetch/rss/fetchRssProxy';
+import generateOEmbedResponse from '@lib/generate/data/generateOEmbedResponse';
+import parsePlayUrlToConfig from '@lib/parse/config/parsePlayUrlToConfig';
+import parseEmbedData from '@lib/parse/data/parseEmbedData';
+import getRequestOrigin from '@lib/parse/http/getRequestOrigin';
+import parseStoredEmbedId from '@lib/parse/string/parseStoredEmbedId';
+import getStoredEmbed from '@lib/storage/embed/getStoredEmbed';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<IOEmbedResponse | { error: IPageError }>
+) {
+  const { url: u, format: f, maxwidth, maxheight } = req.query;
+  const url = Array.isArray(u) ? u[0] : u;
+  const format = Array.isArray(f) ? f[0] : f;
+  const maxWidth = convertStringToInteger(
+    Array.isArray(maxwidth) ? maxwidth[0] : maxwidth
+  );
+  const maxHeight = convertStringToInteger(
+    Array.isArray(maxheight) ? maxheight[0] : maxheight
+  );
+  const origin = getRequestOrigin(req);
+  const sendError = (statusCode: number, message: string) => {
+    res.status(statusCode).json({ error: { statusCode, message } });
+  };
+
+  if (format && format !== 'json') {
+    sendError(501, `Format "${format}" is not supported.`);
+    return;
+  }
+
+  const embedId = url && parseStoredEmbedId(url, origin);
+  let storedEmbed: IStoredEmbed;
+  try {
+    storedEmbed = embedId && (await getStoredEmbed(embedId));
+  } catch (e) {
+    if (e.name !== 'EmbedStoreError') throw e;
+
+    sendError(503, 'Embed Store Unavailable');
+    return;
+  }
+  const config = storedEmbed
+    ? storedEmbed.config
+    : url && parsePlayUrlToConfig(url, origin);
+
+  if (!config) {
+    sendError(404, 'URL is not a Play embed or listen page.');
+    return;
+  }
+
+  let rssData: IRss;
+  try {
+    rssData = config.feedUrl && (await fetchRssProxy(config.feedUrl));
+  } catch (e) {
+    if (e.name !== 'RssProxyError') throw e;
+
+    sendError(404, 'Bad Feed URL Provided');
+    return;
+  }
+
+  const data = parseEmbedData(config, rssData);
+
+  if (!data.audio) {
+    sendError(404, 'No audio found for URL.');
+    return;
+  }
+
+  const oEmbed = generateOEmbedResponse(config, data, {
+    origin,
+    ...(maxWidth > 0 && { maxWidth }),
+    ...(maxHeight > 0 && { maxHeight }),
+    ...(storedEmbed && { embedId })
+  });
+
+  if (!oEmbed) {
+    sendError(404, 'No embed fits the requested dimensions.');
+    return;
+  }
+
+  res.status(200).json(oEmbed);
+}
@@ -0,0 +1,59 @@
+/**
+ * Proxy for JSON chapters file URL's for use in Player component.
+ *
+ * See Podcast Namespace Chapters documentation: https://github.com/Podcastindex-org/podcast-namespace/blob/main/chapters/jsonChapters.md
+ *
+ * Response Type: JSON
+ */
+
+// Next.js API route support: https://nextjs.org/docs/api-routes/introduction
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { IRssPodcastChaptersJson } from '@interfaces/data';
+import type { IRssProxyError } from '@interfaces/error';
+import parseChaptersData from '@lib/parse/data/parseChaptersData';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<string | { error: IRssProxyError }>
+) {
+  const { u, cb } = req.query;
+  const chaptersUrl = Array.isArray(u) ? u[0] : u;
+  const cacheBuster = Array.isArray(cb) ? cb[0] : cb;
+
+  try {
+    const fetchUrl = new URL(chaptersUrl);
+
+    if (cacheBuster) {
+      fetchUrl.searchParams.set('cb', cacheBuster);
+    }
+
+    const chaptersResponse = await fetch(fetchUrl.toString());
+
+    if (!chaptersResponse?.ok) {
+      throw new Error(
+        `URL provided return status "${chaptersResponse.statusText}"`
+      );
+    }
+
+    const chaptersAsText = await chaptersResponse.text();
+    const data: IRssPodcastChaptersJson = JSON.parse(chaptersAsText);
+    const chapters = parseChaptersData(data);
+    const processed = chapters && {
+      version: data.version,
+      chapters
+    };
+
+    res
+      .status(200)
+      .setHeader('Content-Type', 'text/json')
+      .send(JSON.stringify(processed || null));
+  } catch (error) {
+    res.status(400).json({
+      error: {
+        ...error,
+        message: `Bad URL Provided. Reason: ${error.message}`
+      }
+    });
+  }
+}
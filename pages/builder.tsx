@@ -0,0 +1,72 @@
+/**
+ * @file builder.tsx
+ * Exports the Embed Builder page component.
+ */
+
+import type { GetServerSideProps } from 'next';
+import type { IRss } from '@interfaces/data';
+import type { IPageError } from '@interfaces/error';
+import type { IBuilderPageProps } from '@interfaces/page';
+import Head from 'next/head';
+import Link from 'next/link';
+import parseEmbedParamsToConfig from '@lib/parse/config/parseEmbedParamsToConfig';
+import fetchRssFeed from '@lib/fetch/rss/fetchRssFeed';
+import EmbedBuilder from '@components/EmbedBuilder';
+import styles from '@styles/Builder.module.scss';
+
+const BuilderPage = ({ config, rssData, error }: IBuilderPageProps) => (
+  <div className={styles.container}>
+    <Head>
+      <title>PRX Play - Embed Builder</title>
+    </Head>
+
+    <main className={styles.main}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>Embed Builder</h1>
+        <p>
+          Configure your player, preview it, then copy the embed code into your
+          site. See the <Link href="/">documentation</Link> for details on every
+          option.
+        </p>
+      </header>
+      {error && <p className={styles.error}>{error.message}</p>}
+      <EmbedBuilder config={config} rssData={rssData} />
+    </main>
+  </div>
+);
+
+export const getServerSideProps: GetServerSideProps<
+  IBuilderPageProps
+> = async ({ query }) => {
+  // 1. Convert query params into embed config, so existing embeds can be edited.
+  const config = parseEmbedParamsToConfig(query);
+
+  // 2. If RSS feed URL is provided, fetch it for the episode pickers.
+  let rssData: IRss = null;
+  let error: IPageError;
+  try {
+    rssData = config.feedUrl ? await fetchRssFeed(config.feedUrl) : null;
+  } catch (e) {
+    switch (e.name) {
+      case 'RssProxyError':
+        // Still show the builder so the feed URL can be fixed.
+        error = {
+          statusCode: 400,
+          message: 'Bad Feed URL Provided'
+        };
+        break;
+      default:
+        throw e;
+    }
+  }
+
+  return {
+    props: {
+      config,
+      rssData,
+      ...(error && { error })
+    }
+  };
+};
+
+export default BuilderPage;
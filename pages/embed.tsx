@@ -5,6 +5,7 @@
 
 import type { GetServerSideProps } from 'next';
 import type { IRss } from '@interfaces/data';
+import type { IStoredEmbed } from '@interfaces/embed';
 import type { IPageError } from '@interfaces/error';
 import type { IEmbedPageProps, IPageProps } from '@interfaces/page';
 import Head from 'next/head';
@@ -12,10 +13,15 @@ import NextError from 'next/error';
 import parseEmbedParamsToConfig from '@lib/parse/config/parseEmbedParamsToConfig';
 import fetchRssProxy from '@lib/fetch/rss/fetchRssProxy';
 import parseEmbedData from '@lib/parse/data/parseEmbedData';
+import getRequestOrigin from '@lib/parse/http/getRequestOrigin';
+import parseStoredEmbedId from '@lib/parse/string/parseStoredEmbedId';
+import generateOEmbedUrl from '@lib/generate/string/generateOEmbedUrl';
+import generateStoredEmbedUrl from '@lib/generate/string/generateStoredEmbedUrl';
+import getStoredEmbed from '@lib/storage/embed/getStoredEmbed';
 import Embed from '@components/Embed/Embed';
 import ReqError from '@lib/error/ReqError';
 
-const EmbedPage = ({ config, data, error }: IEmbedPageProps) => {
+const EmbedPage = ({ config, data, error, oEmbedUrl }: IEmbedPageProps) => {
   if (error) {
     return <NextError statusCode={error.statusCode} title={error.message} />;
   }
@@ -24,6 +30,14 @@ const EmbedPage = ({ config, data, error }: IEmbedPageProps) => {
     <>
       <Head>
         <title>PRX Play - Embeddable Player</title>
+        {oEmbedUrl && (
+          <link
+            rel="alternate"
+            type="application/json+oembed"
+            href={oEmbedUrl}
+            title={data.audio?.title || data.rssTitle}
+          />
+        )}
       </Head>
       <Embed config={config} data={data} />
     </>
@@ -33,12 +47,45 @@ const EmbedPage = ({ config, data, error }: IEmbedPageProps) => {
 export const getServerSideProps: GetServerSideProps<IPageProps> = async ({
   query,
   req,
-  res
+  res,
+  resolvedUrl
 }) => {
   // console.info({ req }, 'Embed Request');
 
-  // 1. Convert query params into embed config.
-  const config = parseEmbedParamsToConfig(query);
+  // 1. Convert query params into embed config. Short embed URL's start from
+  // their stored config, which query params can still override. Only look up
+  // IDs from short embed URL paths, not `id` query params.
+  const origin = getRequestOrigin(req);
+  const embedId = parseStoredEmbedId(`${origin}${req.url}`, origin);
+  let storedEmbed: IStoredEmbed;
+  try {
+    storedEmbed = embedId && (await getStoredEmbed(embedId));
+  } catch (e) {
+    if (e.name !== 'EmbedStoreError') throw new ReqError(e, req);
+
+    // ...and show embed store errors as a 503.
+    res.statusCode = 503;
+    res.setHeader(
+      'Cache-Control',
+      'no-cache, no-store, max-age=0, must-revalidate'
+    );
+
+    return {
+      props: {
+        config: {},
+        error: { statusCode: 503, message: 'Embed Store Unavailable' }
+      }
+    };
+  }
+
+  if (embedId && !storedEmbed) {
+    return { notFound: true };
+  }
+
+  const config = {
+    ...(storedEmbed && storedEmbed.config),
+    ...parseEmbedParamsToConfig(query)
+  };
 
   // 2. If RSS feed URL is provided...
   let rssData: IRss;
@@ -69,11 +116,21 @@ export const getServerSideProps: GetServerSideProps<IPageProps> = async ({
   // 3. Parse config and RSS data into embed data.
   const data = parseEmbedData(config, rssData);
 
+  // 4. Point oEmbed consumers at this page.
+  const pageUrl = storedEmbed
+    ? generateStoredEmbedUrl(storedEmbed.id, origin)
+    : `${origin}${resolvedUrl}`;
+
   // eslint-disable-next-line no-console
   console.info({ req, res }, 'Embed');
 
   return {
-    props: { config, data, ...(error && { error }) }
+    props: {
+      config,
+      data,
+      ...(error && { error }),
+      ...(!error && { oEmbedUrl: generateOEmbedUrl(pageUrl, origin) })
+    }
   };
 };
 
@@ -1,5 +1,6 @@
 import type { NextPage } from 'next';
 import Head from 'next/head';
+import Link from 'next/link';
 import Prism from 'prismjs';
 import styles from '@styles/Home.module.scss';
 import PrxLogo from '@svg/logos/PRX-Logo-Horizontal-Color.svg';
@@ -50,6 +51,15 @@ const Home: NextPage = () => {
                   </li>
                 </ul>
               </li>
+              <li>
+                <a href="#javascript-api">JavaScript API</a>
+              </li>
+              <li>
+                <a href="#short-embed-urls">Short Embed URLs</a>
+              </li>
+              <li>
+                <a href="#oembed">oEmbed</a>
+              </li>
               <li>
                 <a href="#embed-examples">Embed Examples</a>
               </li>
@@ -94,6 +104,11 @@ const Home: NextPage = () => {
             200px.
           </p>
           <p>That is all you need to add the player to your page.</p>
+          <p>
+            Prefer to point and click? The{' '}
+            <Link href="/builder">Embed Builder</Link> lets you choose every
+            option below with a live preview, then copy the embed code.
+          </p>
           <h2>
             <a href="#configuration-parameters" id="configuration-parameters">
               Configuration Parameters
@@ -365,6 +380,393 @@ const Home: NextPage = () => {
               <b>auto</b> - Use the system color scheme of the user.
             </li>
           </ul>
+          <h3>
+            <a href="#playback-parameters" id="playback-parameters">
+              Playback Parameters
+            </a>
+          </h3>
+          <p>
+            These parameters are supported by both the RSS Feed and Audio File
+            embed players. All parameters are optional.
+          </p>
+          <h4>cs</h4>
+          <p>
+            Start time of a clip of the initial audio. The player will start
+            playback at this time, and the progress bar will only show the
+            clipped segment. Value can be seconds or a{' '}
+            <code className="language-markup">[HH:]MM:SS</code> duration.
+          </p>
+          <h6>Examples:</h6>
+          <ul>
+            <li>
+              <code className="language-markup">cs=90</code>
+            </li>
+            <li>
+              <code className="language-markup">cs=1:30</code>
+            </li>
+          </ul>
+          <h4>ce</h4>
+          <p>
+            End time of a clip of the initial audio. The player will stop
+            playback at this time. Value can be seconds or a{' '}
+            <code className="language-markup">[HH:]MM:SS</code> duration, and
+            must be after the <code className="language-markup">cs</code> time.
+          </p>
+          <h6>Example:</h6>
+          <pre>
+            <code className="language-markup">cs=1:30&ce=3:30</code>
+          </pre>
+          <h4>hl</h4>
+          <p>
+            Set to <code className="language-markup">1</code> to play only the
+            first soundbite of the initial episode, as set by the episode&apos;s{' '}
+            <code className="language-markup">podcast:soundbite</code> tags.
+            Useful for promoting an episode with its best moment. Ignored when{' '}
+            <code className="language-markup">cs</code> or{' '}
+            <code className="language-markup">ce</code> are set, or when the
+            episode has no soundbites. Requires RSS feed URL be provided with{' '}
+            <code className="language-markup">uf</code>.
+          </p>
+          <h6>Example:</h6>
+          <pre>
+            <code className="language-markup">ge=EPISODE_GUID&hl=1</code>
+          </pre>
+          <h4>rp</h4>
+          <p>
+            Repeat mode to start the player with. Use{' '}
+            <code className="language-markup">one</code> to repeat the current
+            episode, or <code className="language-markup">all</code> to start
+            the playlist over after its last episode.
+          </p>
+          <h6>Example:</h6>
+          <pre>
+            <code className="language-markup">rp=all</code>
+          </pre>
+          <h4>sh</h4>
+          <p>
+            Set to <code className="language-markup">1</code> to play the
+            playlist in shuffled order. Listeners can still turn shuffle off
+            from the playlist controls.
+          </p>
+          <h6>Example:</h6>
+          <pre>
+            <code className="language-markup">sp=10&sh=1</code>
+          </pre>
+          <h4>cf</h4>
+          <p>
+            Number of seconds to crossfade from the end of one playlist episode
+            into the next, up to 12 seconds. Without it, the next episode is
+            preloaded and starts as soon as the current one ends.
+          </p>
+          <h6>Example:</h6>
+          <pre>
+            <code className="language-markup">sp=10&cf=3</code>
+          </pre>
+          <h4>sb</h4>
+          <p>
+            Number of seconds the replay button skips back. Defaults to 5
+            seconds. Common values are 10, 15, 30, 45 or 60.
+          </p>
+          <h6>Example:</h6>
+          <pre>
+            <code className="language-markup">sb=15</code>
+          </pre>
+          <h4>sf</h4>
+          <p>
+            Number of seconds the forward button skips ahead. Defaults to 30
+            seconds. Both skip parameters also work on the listen page.
+          </p>
+          <h6>Example:</h6>
+          <pre>
+            <code className="language-markup">sb=10&sf=45</code>
+          </pre>
+          <h4>np</h4>
+          <p>
+            Set to <code className="language-markup">1</code> to stop the player
+            from remembering volume, mute, playback speed and audio enhancement
+            choices. Useful for kiosks and other shared devices. Otherwise these
+            preferences carry across every Play embed a listener uses.
+          </p>
+          <h6>Example:</h6>
+          <pre>
+            <code className="language-markup">np=1</code>
+          </pre>
+          <h4>hk</h4>
+          <p>
+            Limits keyboard shortcuts. Use{' '}
+            <code className="language-markup">focus</code> to only handle keys
+            while focus is within the player, or{' '}
+            <code className="language-markup">off</code> to turn them off. Press{' '}
+            <code className="language-markup">?</code> in the player to list
+            every shortcut.
+          </p>
+          <h6>Example:</h6>
+          <pre>
+            <code className="language-markup">hk=focus</code>
+          </pre>
+          <h4>cn</h4>
+          <p>
+            Set to <code className="language-markup">1</code> to start the next
+            Play embed on the page when this one finishes. Only one Play embed
+            on a page plays at a time, so starting one pauses the others. The
+            generated embed code allows autoplay so the next embed can start on
+            its own.
+          </p>
+          <p>
+            Embeds find each other through their parent page. Embeds in nested
+            frames can still find each other when their URLs end with the same{' '}
+            <code className="language-markup">#page=</code> key, made new for
+            each page view. The{' '}
+            <code className="language-markup">&lt;prx-play&gt;</code> element
+            adds one for you.
+          </p>
+          <h6>Example:</h6>
+          <pre>
+            <code className="language-markup">cn=1</code>
+          </pre>
+          <h4>ub</h4>
+          <p>
+            URL of a collector to send listening analytics to. Nothing is sent
+            without it. Events are sent with{' '}
+            <code className="language-markup">navigator.sendBeacon</code> as
+            JSON for loading, the first play, reaching 25, 50 and 75 percent of
+            an episode, finishing an episode, seeking and sharing. Each event
+            includes the embed options, feed URL and episode GUID. Play includes
+            a reference collector at{' '}
+            <code className="language-markup">/api/analytics</code> that writes
+            events to its logs. Paths, like{' '}
+            <code className="language-markup">/api/analytics</code>, are
+            relative to the embed URL.
+          </p>
+          <h6>Example:</h6>
+          <pre>
+            <code className="language-markup">
+              ub=https://example.com/collect
+            </code>
+          </pre>
+          <h2>
+            <a href="#javascript-api" id="javascript-api">
+              JavaScript API
+            </a>
+          </h2>
+          <p>
+            Pages hosting an embed iframe can control it and listen for its
+            events using <code className="language-markup">postMessage</code>.
+            Every message is an object with a{' '}
+            <code className="language-markup">namespace</code> of{' '}
+            <code className="language-markup">prx-play</code> and a{' '}
+            <code className="language-markup">version</code> of{' '}
+            <code className="language-markup">1</code>.
+          </p>
+          <h3>Commands</h3>
+          <p>
+            Send commands to the iframe window with a{' '}
+            <code className="language-markup">command</code> property. The embed
+            answers a <code className="language-markup">hello</code> command
+            with a <code className="language-markup">ready</code> event.
+          </p>
+          <ul>
+            <li>
+              <code className="language-markup">hello</code>
+            </li>
+            <li>
+              <code className="language-markup">play</code>
+            </li>
+            <li>
+              <code className="language-markup">pause</code>
+            </li>
+            <li>
+              <code className="language-markup">seekTo</code> - Seconds in{' '}
+              <code className="language-markup">time</code>.
+            </li>
+            <li>
+              <code className="language-markup">setVolume</code> - Value from 0
+              to 1 in <code className="language-markup">volume</code>.
+            </li>
+            <li>
+              <code className="language-markup">setTrack</code> - Playlist
+              position in <code className="language-markup">index</code>.
+            </li>
+            <li>
+              <code className="language-markup">loadEpisode</code> - Episode
+              GUID in <code className="language-markup">guid</code>.
+            </li>
+          </ul>
+          <h3>Events</h3>
+          <p>
+            The embed posts messages to its parent window with an{' '}
+            <code className="language-markup">event</code> property.
+          </p>
+          <ul>
+            <li>
+              <code className="language-markup">ready</code> - Includes{' '}
+              <code className="language-markup">tracks</code> and{' '}
+              <code className="language-markup">currentTrackIndex</code>.
+            </li>
+            <li>
+              <code className="language-markup">play</code>
+            </li>
+            <li>
+              <code className="language-markup">pause</code>
+            </li>
+            <li>
+              <code className="language-markup">timeupdate</code> - Sent at most
+              once a second with{' '}
+              <code className="language-markup">currentTime</code> and{' '}
+              <code className="language-markup">duration</code>.
+            </li>
+            <li>
+              <code className="language-markup">ended</code>
+            </li>
+            <li>
+              <code className="language-markup">trackchange</code> - Includes{' '}
+              <code className="language-markup">index</code> and{' '}
+              <code className="language-markup">track</code>.
+            </li>
+            <li>
+              <code className="language-markup">error</code> - Includes a{' '}
+              <code className="language-markup">reason</code>.
+            </li>
+            <li>
+              <code className="language-markup">resize</code> - Sent when the
+              content changes size, with the{' '}
+              <code className="language-markup">height</code> needed to show it
+              all.
+            </li>
+          </ul>
+          <h3>Client Script</h3>
+          <p>
+            Load the client script to send commands and listen for events
+            without handling messages yourself. It defines{' '}
+            <code className="language-markup">
+              PrxPlay.createClient(iframe)
+            </code>
+            , which returns a client with{' '}
+            <code className="language-markup">play()</code>,{' '}
+            <code className="language-markup">pause()</code>,{' '}
+            <code className="language-markup">seekTo(time)</code>,{' '}
+            <code className="language-markup">setVolume(volume)</code>,{' '}
+            <code className="language-markup">setTrack(index)</code>,{' '}
+            <code className="language-markup">loadEpisode(guid)</code>,{' '}
+            <code className="language-markup">on(event, handler)</code> and{' '}
+            <code className="language-markup">destroy()</code> methods. Commands
+            sent before the embed is ready, or while it reloads, are sent once
+            it is. <code className="language-markup">on</code> returns a
+            function that removes the handler.
+          </p>
+          <p>
+            TypeScript pages can add the client types from{' '}
+            <code className="language-markup">
+              https://play.prx.org/prx-play-api.d.ts
+            </code>{' '}
+            to their project, which declare the{' '}
+            <code className="language-markup">PrxPlay</code> global.
+          </p>
+          <h6>Example:</h6>
+          <pre>
+            <code className="language-markup">
+              {`<iframe
+  src="https://play.prx.org/e?uf=https://example.com/rss/feed.xml"
+  width="100%"
+  height="200"
+></iframe>
+<script src="https://play.prx.org/prx-play-api.js"></script>
+<script>
+  const client = PrxPlay.createClient(document.querySelector('iframe'));
+
+  client.on('timeupdate', ({ currentTime, duration }) => {
+    console.log(currentTime, duration);
+  });
+  client.seekTo(90);
+  client.play();
+</script>`}
+            </code>
+          </pre>
+          <h6>Message Example:</h6>
+          <pre>
+            <code className="language-javascript">
+              {`const iframe = document.querySelector('iframe');
+
+window.addEventListener('message', (e) => {
+  if (e.source !== iframe.contentWindow) return;
+  if (e.data?.namespace !== 'prx-play') return;
+
+  if (e.data.event === 'ready') {
+    iframe.contentWindow.postMessage(
+      { namespace: 'prx-play', version: 1, command: 'seekTo', time: 90 },
+      'https://play.prx.org'
+    );
+  }
+});`}
+            </code>
+          </pre>
+          <h2>
+            <a href="#short-embed-urls" id="short-embed-urls">
+              Short Embed URLs
+            </a>
+          </h2>
+          <p>
+            Embed configs can be stored to get a short embed URL, like{' '}
+            <code className="language-markup">
+              https://play.prx.org/e/Ab3dE_9x
+            </code>
+            . Changing a stored config changes the embed everywhere its URL has
+            been used, without editing those pages. Query parameters added to a
+            short embed URL override the stored config.
+          </p>
+          <p>
+            Send the config as JSON to the embeds API. Creating and updating
+            stored embeds requires an API token, sent as a bearer token in the{' '}
+            <code className="language-markup">Authorization</code> header.
+            Responses include the stored embed, its{' '}
+            <code className="language-markup">embedUrl</code>, and{' '}
+            <code className="language-markup">embedHtml</code> that resizes
+            itself to fit any config changes.
+          </p>
+          <h6>Create Stored Embed:</h6>
+          <pre>
+            <code className="language-markup">
+              {`POST https://play.prx.org/api/embeds
+Authorization: Bearer <token>
+Content-Type: application/json
+
+{ "config": { "feedUrl": "https://example.com/rss/feed.xml", "showPlaylist": 5 } }`}
+            </code>
+          </pre>
+          <h6>Update Stored Embed:</h6>
+          <pre>
+            <code className="language-markup">
+              {`PUT https://play.prx.org/api/embeds/Ab3dE_9x
+Authorization: Bearer <token>
+Content-Type: application/json
+
+{ "config": { "feedUrl": "https://example.com/rss/feed.xml", "showCoverArt": true } }`}
+            </code>
+          </pre>
+          <p>
+            Use <code className="language-markup">GET</code> with the same URL
+            to get a stored embed. Updates replace the whole stored config.
+          </p>
+          <h2>
+            <a href="#oembed" id="oembed">
+              oEmbed
+            </a>
+          </h2>
+          <p>
+            Embed and listen page URLs can be turned into embed code by sites
+            that support <a href="https://oembed.com/">oEmbed</a>. Both pages
+            link to the endpoint, so many sites only need the page URL. Listen
+            page URLs without an episode embed a playlist of the whole feed. Use{' '}
+            <code className="language-markup">maxwidth</code> and{' '}
+            <code className="language-markup">maxheight</code> to limit the size
+            of the embed.
+          </p>
+          <h6>Example:</h6>
+          <pre>
+            <code className="language-markup">
+              https://play.prx.org/api/oembed?url=https%3A%2F%2Fplay.prx.org%2Flisten%3Fuf%3Dhttps%3A%2F%2Fexample.com%2Frss%2Ffeed.xml&maxheight=400
+            </code>
+          </pre>
           <h2>
             <a href="#embed-examples" id="embed-examples">
               Embed Examples
@@ -422,6 +824,65 @@ const Home: NextPage = () => {
 />`}
             </code>
           </pre>
+          <h3>Custom Element Player</h3>
+          <p>
+            Pages that can include scripts can use the{' '}
+            <code className="language-markup">prx-play</code> element instead of
+            an iframe. Its attributes are the kebab case names of the embed
+            options, like <code className="language-markup">feed-url</code>,{' '}
+            <code className="language-markup">episode-guid</code>,{' '}
+            <code className="language-markup">show-playlist</code> and{' '}
+            <code className="language-markup">theme</code>. Options that are
+            turned on with <code className="language-markup">1</code> are
+            boolean attributes, and{' '}
+            <code className="language-markup">accent-color</code> takes a comma
+            separated list of colors. The element resizes to fit the player, has{' '}
+            <code className="language-markup">play()</code>,{' '}
+            <code className="language-markup">pause()</code> and{' '}
+            <code className="language-markup">seek(time)</code> methods, and
+            dispatches the JavaScript API events.
+          </p>
+          <pre>
+            <code className="language-markup">
+              {`<prx-play
+  feed-url="https://example.com/rss/feed.xml"
+  show-playlist="5"
+  show-cover-art
+  accent-color="ff0000,0000ff"
+></prx-play>
+<script async src="https://play.prx.org/prx-play.js"></script>`}
+            </code>
+          </pre>
+          <h3>Auto-Resizing Player</h3>
+          <p>
+            Include the loader script after the iframe to keep its height
+            matched to the player content, such as cover art and playlists. The
+            script only resizes iframes marked with the{' '}
+            <code className="language-markup">data-prx-play-auto-resize</code>{' '}
+            attribute.
+          </p>
+          <pre>
+            <code className="language-markup">
+              {`<iframe
+  src="https://play.prx.org/e?uf=https://example.com/rss/feed.xml&ca=1&sp=5"
+  data-prx-play-auto-resize
+  width="100%"
+  height="500"
+  style="min-width: 300px;"
+></iframe>
+<script>
+  window.addEventListener('message', (e) => {
+    if (e.data?.namespace !== 'prx-play' || e.data.event !== 'resize') return;
+    document
+      .querySelectorAll('iframe[data-prx-play-auto-resize]')
+      .forEach((iframe) => {
+        if (iframe.contentWindow !== e.source) return;
+        iframe.style.height = \`\${e.data.height}px\`;
+      });
+  });
+</script>`}
+            </code>
+          </pre>
         </div>
       </main>
     </div>
@@ -6,18 +6,21 @@
 import type { GetServerSideProps } from 'next';
 import type { IRss } from '@interfaces/data';
 import type { IListenPageProps, IPageProps } from '@interfaces/page';
+import Head from 'next/head';
 import Error from 'next/error';
 import parseListenParamsToConfig from '@lib/parse/config/parseListenParamsToConfig';
 import fetchRssProxy from '@lib/fetch/rss/fetchRssProxy';
 import parseListenData from '@lib/parse/data/parseListenData';
+import getRequestOrigin from '@lib/parse/http/getRequestOrigin';
+import generateOEmbedUrl from '@lib/generate/string/generateOEmbedUrl';
 import Listen from '@components/Listen';
 import Player from '@components/Player';
 import { IPageError } from '@interfaces/error';
 import ReqError from '@lib/error/ReqError';
 
-const ListenPage = ({ data, config, error }: IListenPageProps) => {
-  const { episodeGuid } = config;
-  const { episodes } = data;
+const ListenPage = ({ data, config, error, oEmbedUrl }: IListenPageProps) => {
+  const { episodeGuid, feedUrl, skipBack, skipForward } = config;
+  const { title, episodes } = data;
   const episodeIndex =
     episodeGuid && episodes?.findIndex(({ guid }) => guid === episodeGuid);
 
@@ -26,7 +29,24 @@ const ListenPage = ({ data, config, error }: IListenPageProps) => {
   }
 
   return (
-    <Player audio={episodes} startIndex={episodeIndex}>
+    <Player
+      audio={episodes}
+      startIndex={episodeIndex}
+      feedUrl={feedUrl}
+      skipBack={skipBack}
+      skipForward={skipForward}
+      feedTitle={title}
+    >
+      {oEmbedUrl && (
+        <Head>
+          <link
+            rel="alternate"
+            type="application/json+oembed"
+            href={oEmbedUrl}
+            title={title}
+          />
+        </Head>
+      )}
       <Listen data={data} config={config} />
     </Player>
   );
@@ -35,7 +55,8 @@ const ListenPage = ({ data, config, error }: IListenPageProps) => {
 export const getServerSideProps: GetServerSideProps<IPageProps> = async ({
   query,
   req,
-  res
+  res,
+  resolvedUrl
 }) => {
   // 1. Convert query params into embed config.
   const config = parseListenParamsToConfig(query);
@@ -65,11 +86,20 @@ export const getServerSideProps: GetServerSideProps<IPageProps> = async ({
   // 3. Parse config and RSS data into embed
   const data = parseListenData(config, rssData);
 
+  // 4. Point oEmbed consumers at this page.
+  const origin = getRequestOrigin(req);
+  const pageUrl = `${origin}${resolvedUrl}`;
+
   // eslint-disable-next-line no-console
   console.info({ req, res }, 'Listen');
 
   return {
-    props: { config, data, ...(error && { error }) }
+    props: {
+      config,
+      data,
+      ...(error && { error }),
+      ...(!error && { oEmbedUrl: generateOEmbedUrl(pageUrl, origin) })
+    }
   };
 };
 
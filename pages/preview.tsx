@@ -4,15 +4,27 @@
  */
 
 import type { GetServerSideProps } from 'next';
+import type { IEmbedConfig } from '@interfaces/config';
 import type { IEmbedData, IRss } from '@interfaces/data';
+import type {
+  IPreviewEmbedOutput,
+  PreviewMessage,
+  PreviewResponse
+} from '@interfaces/embed';
 import type { IPageError } from '@interfaces/error';
 import type { IPreviewPageProps } from '@interfaces/page';
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Head from 'next/head';
 import Error from 'next/error';
 import parseEmbedParamsToConfig from '@lib/parse/config/parseEmbedParamsToConfig';
 import fetchRssFeed from '@lib/fetch/rss/fetchRssFeed';
 import parseEmbedData from '@lib/parse/data/parseEmbedData';
+import {
+  PREVIEW_MESSAGE_NAMESPACE,
+  PREVIEW_MESSAGE_VERSION
+} from '@interfaces/embed';
+import parsePreviewRequest from '@lib/parse/data/parsePreviewRequest';
+import isTrustedPreviewOrigin from '@lib/validate/isTrustedPreviewOrigin';
 import Embed from '@components/Embed/Embed';
 import generateEmbedUrl from '@lib/generate/string/generateEmbedUrl';
 import generateEmbedHtml, {
@@ -34,32 +46,122 @@ const PreviewPage = ({ config, rssData, error }: IPreviewPageProps) => {
     mode: 'preview'
   };
 
+  const configRef = useRef(newConfig);
+  const parentOriginRef = useRef<string>();
+  const replyToRef = useRef<string>();
+
+  function postPreviewMessage(response: PreviewResponse) {
+    const parentOrigin = parentOriginRef.current;
+
+    if (!parentOrigin || window.parent === window) return;
+
+    const message: PreviewMessage<PreviewResponse> = {
+      namespace: PREVIEW_MESSAGE_NAMESPACE,
+      version: PREVIEW_MESSAGE_VERSION,
+      ...response
+    };
+
+    window.parent.postMessage(message, parentOrigin);
+  }
+
+  function generateEmbedOutput(cfg: IEmbedConfig): IPreviewEmbedOutput {
+    return {
+      config: cfg,
+      embedUrl: generateEmbedUrl(cfg),
+      embedHtml: generateEmbedHtml(cfg),
+      embedElementHtml: generateEmbedHtml(cfg, { element: true }),
+      embedHeight: getEmbedHeight(cfg),
+      embedStyles: generateEmbedStyles(cfg)
+    };
+  }
+
   function handlePostMessage(e: MessageEvent) {
-    if (!/\.prx\.(org|tech|test)$/.test(e.origin)) return;
+    if (e.source !== window.parent) return;
+    if (!isTrustedPreviewOrigin(e.origin, window.location.origin)) return;
+
+    // Only answer the first verified origin that talks to us.
+    if (!parentOriginRef.current) {
+      parentOriginRef.current = e.origin;
+    }
+    if (e.origin !== parentOriginRef.current) return;
+
+    const { request, id, errors } = parsePreviewRequest(e.data);
+
+    if (errors) {
+      postPreviewMessage({
+        type: 'error',
+        ...(id && { replyTo: id }),
+        errors
+      });
+      return;
+    }
 
-    setNewConfig((prevConfig) => ({
-      ...prevConfig,
-      ...(e.data || {})
-    }));
+    switch (request.type) {
+      case 'updateConfig':
+        replyToRef.current = request.id;
+        setNewConfig((prevConfig) => {
+          const updatedConfig = { ...prevConfig };
+
+          Object.entries(request.config).forEach(([key, value]) => {
+            if (value === null || typeof value === 'undefined') {
+              delete updatedConfig[key];
+            } else {
+              updatedConfig[key] = value;
+            }
+          });
+
+          return updatedConfig;
+        });
+        break;
+
+      case 'getEmbed':
+        postPreviewMessage({
+          type: 'embed',
+          ...(request.id && { replyTo: request.id }),
+          ...generateEmbedOutput(configRef.current)
+        });
+        break;
+
+      default:
+        break;
+    }
   }
 
   useEffect(() => {
-    const postMessageData = {
-      embedUrl: generateEmbedUrl(newConfig),
-      embedHtml: generateEmbedHtml(newConfig),
-      embedHeight: getEmbedHeight(newConfig),
-      embedStyles: generateEmbedStyles(newConfig)
-    };
+    const replyTo = replyToRef.current;
+
+    configRef.current = newConfig;
+    replyToRef.current = undefined;
 
-    window.parent.postMessage(postMessageData, '*');
+    postPreviewMessage({
+      type: 'embed',
+      ...(replyTo && { replyTo }),
+      ...generateEmbedOutput(newConfig)
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [newConfig]);
 
   useEffect(() => {
+    // Trust the framing origin up front when the browser tells us what it is,
+    // so the initial embed code can be sent before any request is received.
+    const parentOrigin =
+      window.location.ancestorOrigins?.[0] ||
+      (document.referrer && new URL(document.referrer).origin);
+
+    if (isTrustedPreviewOrigin(parentOrigin, window.location.origin)) {
+      parentOriginRef.current = parentOrigin;
+      postPreviewMessage({
+        type: 'embed',
+        ...generateEmbedOutput(configRef.current)
+      });
+    }
+
     window.addEventListener('message', handlePostMessage);
 
     return () => {
       window.removeEventListener('message', handlePostMessage);
     };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   if (error) {
@@ -0,0 +1,71 @@
+/**
+ * @file prx-play-api.d.ts
+ * Types for the Play embed API client script served as `/prx-play-api.js`.
+ * Mirrors `interfaces/embed/IEmbedApi.ts` and
+ * `lib/generate/embed/generateEmbedApiClient.ts`, so keep them in sync.
+ */
+
+declare namespace PrxPlay {
+  type ErrorReason =
+    | 'network'
+    | 'decode'
+    | 'unsupported'
+    | 'autoplay'
+    | 'invalidCommand'
+    | 'unsupportedVersion'
+    | 'notFound';
+
+  interface Track {
+    guid: string;
+    title: string;
+  }
+
+  type Event =
+    | { event: 'ready'; tracks: Track[]; currentTrackIndex: number }
+    | { event: 'play' }
+    | { event: 'pause' }
+    | { event: 'timeupdate'; currentTime: number; duration: number }
+    | { event: 'ended' }
+    | { event: 'trackchange'; index: number; track: Track }
+    | { event: 'error'; reason: ErrorReason }
+    | { event: 'resize'; height: number };
+
+  type EventName = Event['event'];
+
+  type EventHandler<E extends EventName> = (
+    event: Extract<Event, { event: E }>
+  ) => void;
+
+  interface Client {
+    play(): void;
+    pause(): void;
+    seekTo(time: number): void;
+    setVolume(volume: number): void;
+    setTrack(index: number): void;
+    loadEpisode(guid: string): void;
+
+    /**
+     * Listen for embed events.
+     *
+     * @returns Function that removes the handler.
+     */
+    on<E extends EventName>(event: E, handler: EventHandler<E>): () => void;
+
+    /**
+     * Stop listening for embed events.
+     */
+    destroy(): void;
+  }
+
+  /**
+   * Create client to control a Play embed iframe. Commands sent before the
+   * embed is ready are queued until it is.
+   *
+   * @param iframe Embed iframe element.
+   * @param targetOrigin Origin of the embed. Defaults to the iframe `src` origin.
+   */
+  function createClient(
+    iframe: HTMLIFrameElement,
+    targetOrigin?: string
+  ): Client;
+}
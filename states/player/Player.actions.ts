@@ -16,13 +16,34 @@ export enum PlayerActionTypes {
   'PLAYER_UPDATE_PROGRESS_TO_SCRUB_POSITION' = '[Player] UPDATE_PROGRESS_TO_SEEKING',
   'PLAYER_UPDATE_DURATION' = '[Player] UPDATE_DURATION',
   'PLAYER_UPDATE_TRACKS' = '[Player] UPDATE_TRACKS',
+  'PLAYER_UPDATE_TRACK_CHAPTERS' = '[Player] UPDATE_TRACK_CHAPTERS',
   'PLAYER_UPDATE_CURRENT_TRACK_INDEX' = '[Player] UPDATE_CURRENT_TRACK_INDEX',
   'PLAYER_PLAY_EPISODE' = '[Player] PLAY_EPISODE',
   'PLAYER_PLAY_TRACK' = '[Player] PLAY_TRACK',
+  'PLAYER_PLAY_HIGHLIGHT' = '[Player] PLAY_HIGHLIGHT',
+  'PLAYER_CLEAR_HIGHLIGHT' = '[Player] CLEAR_HIGHLIGHT',
   'PLAYER_NEXT_TRACK' = '[Player] NEXT_TRACK',
   'PLAYER_PREVIOUS_TRACK' = '[Player] PREVIOUS_TRACK',
   'PLAYER_UPDATE_CURRENT_TIME' = '[Player] UPDATE_CURRENT_TIME',
-  'PLAYER_UPDATE_PLAYBACK_RATE' = '[Player] UPDATE_PLAYBACK_RATE'
+  'PLAYER_UPDATE_PLAYBACK_RATE' = '[Player] UPDATE_PLAYBACK_RATE',
+  'PLAYER_UPDATE_PLAYBACK_POSITIONS' = '[Player] UPDATE_PLAYBACK_POSITIONS',
+  'PLAYER_UPDATE_TRACK_PLAYBACK_POSITION' = '[Player] UPDATE_TRACK_PLAYBACK_POSITION',
+  'PLAYER_RESUME_PLAYBACK_POSITION' = '[Player] RESUME_PLAYBACK_POSITION',
+  'PLAYER_UPDATE_SLEEP_TIMER' = '[Player] UPDATE_SLEEP_TIMER',
+  'PLAYER_CLEAR_SLEEP_TIMER' = '[Player] CLEAR_SLEEP_TIMER',
+  'PLAYER_UPDATE_REPEAT_MODE' = '[Player] UPDATE_REPEAT_MODE',
+  'PLAYER_UPDATE_SHUFFLE_ORDER' = '[Player] UPDATE_SHUFFLE_ORDER',
+  'PLAYER_UPDATE_QUEUE' = '[Player] UPDATE_QUEUE',
+  'PLAYER_QUEUE_TRACK' = '[Player] QUEUE_TRACK',
+  'PLAYER_QUEUE_TRACK_NEXT' = '[Player] QUEUE_TRACK_NEXT',
+  'PLAYER_DEQUEUE_TRACK' = '[Player] DEQUEUE_TRACK',
+  'PLAYER_UPDATE_ERROR' = '[Player] UPDATE_ERROR',
+  'PLAYER_CLEAR_ERROR' = '[Player] CLEAR_ERROR',
+  'PLAYER_UPDATE_AUDIO_ENHANCEMENTS' = '[Player] UPDATE_AUDIO_ENHANCEMENTS',
+  'PLAYER_UPDATE_AUDIO_ENHANCEMENTS_UNAVAILABLE' = '[Player] UPDATE_AUDIO_ENHANCEMENTS_UNAVAILABLE',
+  'PLAYER_UPDATE_PREFERENCES' = '[Player] UPDATE_PREFERENCES',
+  'PLAYER_SHOW_HOTKEYS' = '[Player] SHOW_HOTKEYS',
+  'PLAYER_HIDE_HOTKEYS' = '[Player] HIDE_HOTKEYS'
 }
 
 export interface IPlayerAction {
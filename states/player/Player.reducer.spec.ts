@@ -233,6 +233,60 @@ describe('states/player', () => {
 
         expect(result.currentTrackIndex).toBe(0);
       });
+
+      const mockHighlightState = {
+        ...mockState,
+        tracks: mockState.tracks.map((track) => ({
+          ...track,
+          fileSize: 1000
+        }))
+      };
+
+      test('should play track bounded to highlight clip', () => {
+        const result = playerStateReducer(
+          {
+            ...mockHighlightState
+          },
+          {
+            type: PlayerActionTypes.PLAYER_PLAY_HIGHLIGHT,
+            payload: { index: 1, clipStart: 73, clipEnd: 133.5 }
+          }
+        );
+
+        expect(result.currentTrackIndex).toBe(1);
+        expect(result.currentTime).toBe(73);
+        expect(result.playing).toBe(true);
+        expect(result.tracks[0]).toBe(mockHighlightState.tracks[0]);
+        expect(result.tracks[1]).toStrictEqual({
+          ...mockHighlightState.tracks[1],
+          clipStart: 73,
+          clipEnd: 133.5,
+          highlight: true
+        });
+      });
+
+      test('should clear highlight clips', () => {
+        const highlightState = playerStateReducer(
+          {
+            ...mockHighlightState
+          },
+          {
+            type: PlayerActionTypes.PLAYER_PLAY_HIGHLIGHT,
+            payload: { index: 1, clipStart: 73, clipEnd: 133.5 }
+          }
+        );
+        const result1 = playerStateReducer(highlightState, {
+          type: PlayerActionTypes.PLAYER_CLEAR_HIGHLIGHT
+        });
+        const result2 = playerStateReducer(highlightState, {
+          type: PlayerActionTypes.PLAYER_PLAY_TRACK,
+          payload: 1
+        });
+
+        expect(result1.tracks).toStrictEqual(mockHighlightState.tracks);
+        expect(result1.currentTrackIndex).toBe(1);
+        expect(result2.tracks).toStrictEqual(mockHighlightState.tracks);
+      });
     });
 
     describe('`tracks` actions', () => {
@@ -335,6 +389,44 @@ describe('states/player', () => {
         expect(result.tracks[1]).toStrictEqual(mockTracks[2]);
         expect(result.currentTrackIndex).toBe(0);
       });
+
+      test('should set `chaptersData` of track with matching guid', () => {
+        const mockTracks = [
+          {
+            guid: '1',
+            url: '//foo.com/1.mp3',
+            link: '//foo.com/1',
+            title: 'Title 1',
+            fileSize: 1000
+          },
+          {
+            guid: '2',
+            url: '//foo.com/2.mp3',
+            link: '//foo.com/2',
+            title: 'Title 2',
+            fileSize: 1000
+          }
+        ];
+        const mockChapters = [
+          { startTime: 0, title: 'Chapter 1' },
+          { startTime: 30, title: 'Chapter 2' }
+        ];
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            tracks: [...mockTracks],
+            currentTrackIndex: 0
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_TRACK_CHAPTERS,
+            payload: { guid: '2', chapters: mockChapters }
+          }
+        );
+
+        expect(result.tracks[0]).toBe(mockTracks[0]);
+        expect(result.tracks[1].chaptersData).toStrictEqual(mockChapters);
+        expect(result.currentTrackIndex).toBe(0);
+      });
     });
 
     describe('`muted` actions', () => {
@@ -403,5 +495,547 @@ describe('states/player', () => {
         expect(result.volume).toBe(0.25);
       });
     });
+
+    describe('`playbackPositions` actions', () => {
+      const mockPosition = {
+        currentTime: 120,
+        duration: 600,
+        finished: false,
+        updated: 1000
+      };
+
+      test('should set `playbackPositions`', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_PLAYBACK_POSITIONS,
+            payload: { '1': mockPosition }
+          }
+        );
+
+        expect(result.playbackPositions).toStrictEqual({ '1': mockPosition });
+      });
+
+      test('should set playback position of track', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            playbackPositions: { '1': mockPosition }
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_TRACK_PLAYBACK_POSITION,
+            payload: { guid: '2', position: mockPosition }
+          }
+        );
+
+        expect(result.playbackPositions).toStrictEqual({
+          '1': mockPosition,
+          '2': mockPosition
+        });
+      });
+
+      test('should resume playback position', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState
+          },
+          {
+            type: PlayerActionTypes.PLAYER_RESUME_PLAYBACK_POSITION,
+            payload: 120
+          }
+        );
+
+        expect(result.currentTime).toBe(120);
+        expect(result.resumeTime).toBe(120);
+      });
+
+      test('should not offer resume when already playing', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            playing: true
+          },
+          {
+            type: PlayerActionTypes.PLAYER_RESUME_PLAYBACK_POSITION,
+            payload: 120
+          }
+        );
+
+        expect(result.currentTime).toBe(120);
+        expect(result.resumeTime).toBeNull();
+      });
+
+      test('should clear `resumeTime` when playing or seeking', () => {
+        const resumedState = {
+          ...playerInitialState,
+          resumeTime: 120
+        };
+        const result1 = playerStateReducer(resumedState, {
+          type: PlayerActionTypes.PLAYER_PLAY
+        });
+        const result2 = playerStateReducer(resumedState, {
+          type: PlayerActionTypes.PLAYER_UPDATE_CURRENT_TIME,
+          payload: 0
+        });
+
+        expect(result1.resumeTime).toBeNull();
+        expect(result2.resumeTime).toBeNull();
+      });
+    });
+
+    describe('`sleepTimer` actions', () => {
+      test('should set `sleepTimer`', () => {
+        const mockSleepTimer = { type: 'minutes', value: 15, endTime: 1000 };
+        const result = playerStateReducer(
+          {
+            ...playerInitialState
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_SLEEP_TIMER,
+            payload: mockSleepTimer
+          }
+        );
+
+        expect(result.sleepTimer).toStrictEqual(mockSleepTimer);
+      });
+
+      test('should clear `sleepTimer`', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            sleepTimer: { type: 'episode' }
+          },
+          {
+            type: PlayerActionTypes.PLAYER_CLEAR_SLEEP_TIMER
+          }
+        );
+
+        expect(result.sleepTimer).toBeNull();
+      });
+    });
+
+    describe('`repeatMode` actions', () => {
+      const mockTracks = [1, 2, 3].map((n) => ({
+        guid: `GUID:${n}`,
+        url: `//foo.com/${n}.mp3`,
+        link: `//foo.com/${n}`,
+        title: `Title ${n}`,
+        fileSize: 1000
+      }));
+
+      test('should set `repeatMode`', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_REPEAT_MODE,
+            payload: 'all'
+          }
+        );
+
+        expect(result.repeatMode).toBe('all');
+      });
+
+      test('should wrap `currentTrackIndex` when repeating all', () => {
+        const result1 = playerStateReducer(
+          {
+            ...playerInitialState,
+            tracks: mockTracks,
+            currentTrackIndex: 2,
+            repeatMode: 'all'
+          },
+          {
+            type: PlayerActionTypes.PLAYER_NEXT_TRACK
+          }
+        );
+        const result2 = playerStateReducer(
+          {
+            ...playerInitialState,
+            tracks: mockTracks,
+            currentTrackIndex: 0,
+            repeatMode: 'all'
+          },
+          {
+            type: PlayerActionTypes.PLAYER_PREVIOUS_TRACK
+          }
+        );
+
+        expect(result1.currentTrackIndex).toBe(0);
+        expect(result2.currentTrackIndex).toBe(2);
+      });
+    });
+
+    describe('`shuffleOrder` actions', () => {
+      const mockTracks = [1, 2, 3].map((n) => ({
+        guid: `GUID:${n}`,
+        url: `//foo.com/${n}.mp3`,
+        link: `//foo.com/${n}`,
+        title: `Title ${n}`,
+        fileSize: 1000
+      }));
+
+      test('should set `shuffleOrder`', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_SHUFFLE_ORDER,
+            payload: ['GUID:2', 'GUID:1']
+          }
+        );
+
+        expect(result.shuffleOrder).toStrictEqual(['GUID:2', 'GUID:1']);
+      });
+
+      test('should follow `shuffleOrder` for next and previous tracks', () => {
+        const mockState = {
+          ...playerInitialState,
+          tracks: mockTracks,
+          currentTrackIndex: 0,
+          shuffleOrder: ['GUID:2', 'GUID:1', 'GUID:3']
+        };
+        const result1 = playerStateReducer(mockState, {
+          type: PlayerActionTypes.PLAYER_NEXT_TRACK
+        });
+        const result2 = playerStateReducer(mockState, {
+          type: PlayerActionTypes.PLAYER_PREVIOUS_TRACK
+        });
+
+        expect(result1.currentTrackIndex).toBe(2);
+        expect(result2.currentTrackIndex).toBe(1);
+      });
+
+      test('should keep `shuffleOrder` stable when `tracks` update', () => {
+        const mockTrack = {
+          guid: 'GUID:4',
+          url: '//foo.com/4.mp3',
+          link: '//foo.com/4',
+          title: 'Title 4',
+          fileSize: 1000
+        };
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            tracks: mockTracks,
+            currentTrackIndex: 0,
+            shuffleOrder: ['GUID:2', 'GUID:1', 'GUID:3']
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_TRACKS,
+            payload: [mockTrack, mockTracks[0], mockTracks[2]]
+          }
+        );
+
+        expect(result.shuffleOrder).toStrictEqual([
+          'GUID:1',
+          'GUID:3',
+          'GUID:4'
+        ]);
+        expect(result.currentTrackIndex).toBe(1);
+      });
+
+      test('should not set `shuffleOrder` when `tracks` update and shuffle is off', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_TRACKS,
+            payload: mockTracks
+          }
+        );
+
+        expect(result.shuffleOrder).toBeNull();
+      });
+    });
+
+    describe('`queue` actions', () => {
+      const mockTracks = [1, 2, 3].map((n) => ({
+        guid: `GUID:${n}`,
+        url: `//foo.com/${n}.mp3`,
+        link: `//foo.com/${n}`,
+        title: `Title ${n}`,
+        fileSize: 1000
+      }));
+
+      test('should set `queue`', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_QUEUE,
+            payload: ['GUID:2', 'GUID:1']
+          }
+        );
+
+        expect(result.queue).toStrictEqual(['GUID:2', 'GUID:1']);
+      });
+
+      test('should add track to end of `queue` once', () => {
+        const result1 = playerStateReducer(
+          {
+            ...playerInitialState
+          },
+          {
+            type: PlayerActionTypes.PLAYER_QUEUE_TRACK,
+            payload: 'GUID:2'
+          }
+        );
+        const result2 = playerStateReducer(result1, {
+          type: PlayerActionTypes.PLAYER_QUEUE_TRACK,
+          payload: 'GUID:3'
+        });
+        const result3 = playerStateReducer(result2, {
+          type: PlayerActionTypes.PLAYER_QUEUE_TRACK,
+          payload: 'GUID:2'
+        });
+
+        expect(result1.queue).toStrictEqual(['GUID:2']);
+        expect(result2.queue).toStrictEqual(['GUID:2', 'GUID:3']);
+        expect(result3.queue).toStrictEqual(['GUID:2', 'GUID:3']);
+      });
+
+      test('should move track to start of `queue`', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            queue: ['GUID:2', 'GUID:3']
+          },
+          {
+            type: PlayerActionTypes.PLAYER_QUEUE_TRACK_NEXT,
+            payload: 'GUID:3'
+          }
+        );
+
+        expect(result.queue).toStrictEqual(['GUID:3', 'GUID:2']);
+      });
+
+      test('should remove track from `queue`', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            queue: ['GUID:2', 'GUID:3']
+          },
+          {
+            type: PlayerActionTypes.PLAYER_DEQUEUE_TRACK,
+            payload: 'GUID:2'
+          }
+        );
+
+        expect(result.queue).toStrictEqual(['GUID:3']);
+      });
+
+      test('should play queued tracks before next track', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            tracks: mockTracks,
+            currentTrackIndex: 0,
+            queue: ['GUID:4', 'GUID:3', 'GUID:2']
+          },
+          {
+            type: PlayerActionTypes.PLAYER_NEXT_TRACK
+          }
+        );
+
+        expect(result.currentTrackIndex).toBe(2);
+        expect(result.queue).toStrictEqual(['GUID:2']);
+      });
+
+      test('should remove played track from `queue`', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            tracks: mockTracks,
+            currentTrackIndex: 0,
+            queue: ['GUID:3', 'GUID:2']
+          },
+          {
+            type: PlayerActionTypes.PLAYER_PLAY_TRACK,
+            payload: 1
+          }
+        );
+
+        expect(result.currentTrackIndex).toBe(1);
+        expect(result.queue).toStrictEqual(['GUID:3']);
+      });
+    });
+
+    describe('`error` actions', () => {
+      const mockTracks = [
+        {
+          guid: 'GUID:1',
+          link: 'http://foo.com/1',
+          url: 'http://foo.com/1.mp3',
+          fileSize: 1000,
+          title: 'Track 1'
+        },
+        {
+          guid: 'GUID:2',
+          link: 'http://foo.com/2',
+          url: 'http://foo.com/2.mp3',
+          fileSize: 1000,
+          title: 'Track 2'
+        }
+      ];
+
+      test('should set `error` and stop playing', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            playing: true
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_ERROR,
+            payload: { reason: 'decode' }
+          }
+        );
+
+        expect(result.error).toStrictEqual({ reason: 'decode' });
+        expect(result.playing).toBe(false);
+      });
+
+      test('should keep playing while retrying', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            playing: true
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_ERROR,
+            payload: { reason: 'network', retries: 1, retrying: true }
+          }
+        );
+
+        expect(result.error).toStrictEqual({
+          reason: 'network',
+          retries: 1,
+          retrying: true
+        });
+        expect(result.playing).toBe(true);
+      });
+
+      test('should clear `error`', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            error: { reason: 'autoplay' }
+          },
+          {
+            type: PlayerActionTypes.PLAYER_CLEAR_ERROR
+          }
+        );
+
+        expect(result.error).toBeNull();
+      });
+
+      test('should clear `error` when track changes', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            tracks: mockTracks,
+            currentTrackIndex: 0,
+            error: { reason: 'unsupported' }
+          },
+          {
+            type: PlayerActionTypes.PLAYER_NEXT_TRACK
+          }
+        );
+
+        expect(result.currentTrackIndex).toBe(1);
+        expect(result.error).toBeNull();
+      });
+    });
+
+    describe('`audioEnhancements` actions', () => {
+      test('should merge `audioEnhancements`', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            audioEnhancements: {
+              voiceBoost: true,
+              leveling: false,
+              mono: false
+            }
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_AUDIO_ENHANCEMENTS,
+            payload: { mono: true }
+          }
+        );
+
+        expect(result.audioEnhancements).toStrictEqual({
+          voiceBoost: true,
+          leveling: false,
+          mono: true
+        });
+      });
+
+      test('should set `audioEnhancementsUnavailable`', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_AUDIO_ENHANCEMENTS_UNAVAILABLE,
+            payload: true
+          }
+        );
+
+        expect(result.audioEnhancementsUnavailable).toBe(true);
+      });
+    });
+
+    describe('`preferences` actions', () => {
+      test('should update preferences', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState
+          },
+          {
+            type: PlayerActionTypes.PLAYER_UPDATE_PREFERENCES,
+            payload: { volume: 0.4, playbackRate: 1.5 }
+          }
+        );
+
+        expect(result.volume).toBe(0.4);
+        expect(result.muted).toBe(false);
+        expect(result.playbackRate).toBe(1.5);
+      });
+    });
+
+    describe('`hotkeysShown` actions', () => {
+      test('should show hotkeys', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState
+          },
+          {
+            type: PlayerActionTypes.PLAYER_SHOW_HOTKEYS
+          }
+        );
+
+        expect(result.hotkeysShown).toBe(true);
+      });
+
+      test('should hide hotkeys', () => {
+        const result = playerStateReducer(
+          {
+            ...playerInitialState,
+            hotkeysShown: true
+          },
+          {
+            type: PlayerActionTypes.PLAYER_HIDE_HOTKEYS
+          }
+        );
+
+        expect(result.hotkeysShown).toBe(false);
+      });
+    });
   });
 });
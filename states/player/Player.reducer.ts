@@ -3,7 +3,10 @@
  * Defines reducer for handling player state actions.
  */
 
+import type { IAudioData } from '@interfaces/data';
 import { IPlayerState } from '@interfaces/states/player';
+import getAdjacentTrackIndex from '@lib/parse/data/getAdjacentTrackIndex';
+import getQueuedTrackIndex from '@lib/parse/data/getQueuedTrackIndex';
 import {
   PlayerActionTypes as ActionTypes,
   IPlayerAction
@@ -16,24 +19,60 @@ export const playerInitialState: IPlayerState = {
   tracks: null,
   currentTime: null,
   muted: false,
-  volume: 0.8
+  volume: 0.8,
+  playbackPositions: null,
+  resumeTime: null,
+  sleepTimer: null,
+  repeatMode: 'off',
+  shuffleOrder: null,
+  queue: null,
+  error: null,
+  audioEnhancements: {
+    voiceBoost: false,
+    leveling: false,
+    mono: false
+  },
+  audioEnhancementsUnavailable: false,
+  hotkeysShown: false
 };
 
+/**
+ * Remove highlight clips from tracks, restoring them to full length.
+ */
+const clearHighlights = (tracks: IAudioData[]) =>
+  tracks?.some(({ highlight }) => highlight)
+    ? tracks.map((track) => {
+        if (!track.highlight) return track;
+
+        const { clipStart, clipEnd, highlight, ...other } = track;
+
+        return other;
+      })
+    : tracks;
+
 export const playerStateReducer = (
   state: IPlayerState,
   action: IPlayerAction
 ): IPlayerState => {
-  const { playing, currentTrackIndex, tracks, muted } = state;
+  const {
+    playing,
+    currentTrackIndex,
+    tracks,
+    muted,
+    repeatMode,
+    shuffleOrder,
+    queue
+  } = state;
 
   switch (action.type) {
     case ActionTypes.PLAYER_PLAY:
-      return { ...state, playing: true };
+      return { ...state, playing: true, resumeTime: null };
 
     case ActionTypes.PLAYER_PAUSE:
       return { ...state, playing: false };
 
     case ActionTypes.PLAYER_TOGGLE_PLAYING:
-      return { ...state, playing: !playing };
+      return { ...state, playing: !playing, resumeTime: null };
 
     case ActionTypes.PLAYER_UPDATE_TRACKS:
       return {
@@ -44,12 +83,35 @@ export const playerStateReducer = (
           action.payload.findIndex(
             ({ guid }) => guid === (tracks || [])[currentTrackIndex]?.guid
           )
+        ),
+        // Keep shuffled order stable, dropping removed tracks and appending new ones.
+        ...(shuffleOrder && {
+          shuffleOrder: [
+            ...shuffleOrder.filter((guid) =>
+              action.payload.some((track) => track.guid === guid)
+            ),
+            ...action.payload
+              .map(({ guid }) => guid)
+              .filter((guid) => !shuffleOrder.includes(guid))
+          ]
+        })
+      };
+
+    case ActionTypes.PLAYER_UPDATE_TRACK_CHAPTERS:
+      return {
+        ...state,
+        tracks: tracks.map((track) =>
+          track.guid === action.payload.guid
+            ? { ...track, chaptersData: action.payload.chapters }
+            : track
         )
       };
 
     case ActionTypes.PLAYER_UPDATE_CURRENT_TRACK_INDEX:
       return {
         ...state,
+        resumeTime: null,
+        error: null,
         currentTrackIndex: Math.max(
           0,
           Math.min(action.payload, tracks.length - 1)
@@ -59,29 +121,107 @@ export const playerStateReducer = (
     case ActionTypes.PLAYER_PLAY_EPISODE:
       return {
         ...state,
+        tracks: clearHighlights(tracks),
+        resumeTime: null,
+        error: null,
         currentTrackIndex: Math.max(
           0,
           tracks.findIndex(({ guid }) => guid === action.payload)
-        )
+        ),
+        ...(queue && {
+          queue: queue.filter((guid) => guid !== action.payload)
+        })
       };
 
     case ActionTypes.PLAYER_PLAY_TRACK:
-      return { ...state, currentTrackIndex: action.payload, playing: true };
+      return {
+        ...state,
+        tracks: clearHighlights(tracks),
+        currentTrackIndex: action.payload,
+        playing: true,
+        resumeTime: null,
+        error: null,
+        ...(queue && {
+          queue: queue.filter((guid) => guid !== tracks[action.payload]?.guid)
+        })
+      };
+
+    case ActionTypes.PLAYER_PLAY_HIGHLIGHT: {
+      const { index, clipStart, clipEnd } = action.payload;
+
+      return {
+        ...state,
+        tracks: clearHighlights(tracks).map((track, i) =>
+          i === index
+            ? { ...track, clipStart, clipEnd, highlight: true }
+            : track
+        ),
+        currentTrackIndex: index,
+        currentTime: clipStart,
+        playing: true,
+        resumeTime: null,
+        error: null,
+        ...(queue && {
+          queue: queue.filter((guid) => guid !== tracks[index]?.guid)
+        })
+      };
+    }
+
+    case ActionTypes.PLAYER_CLEAR_HIGHLIGHT:
+      return { ...state, tracks: clearHighlights(tracks) };
+
+    case ActionTypes.PLAYER_NEXT_TRACK: {
+      // Queued tracks play before continuing in playlist order.
+      const queuedTrackIndex = getQueuedTrackIndex(tracks, queue);
+
+      if (queuedTrackIndex > -1) {
+        return {
+          ...state,
+          resumeTime: null,
+          error: null,
+          currentTrackIndex: queuedTrackIndex,
+          queue: queue.slice(queue.indexOf(tracks[queuedTrackIndex].guid) + 1)
+        };
+      }
+
+      const nextTrackIndex = getAdjacentTrackIndex(
+        tracks,
+        currentTrackIndex,
+        1,
+        repeatMode,
+        shuffleOrder
+      );
 
-    case ActionTypes.PLAYER_NEXT_TRACK:
       return {
         ...state,
-        currentTrackIndex: Math.min(currentTrackIndex + 1, tracks.length - 1)
+        resumeTime: null,
+        error: null,
+        currentTrackIndex:
+          nextTrackIndex > -1 ? nextTrackIndex : currentTrackIndex
       };
+    }
+
+    case ActionTypes.PLAYER_PREVIOUS_TRACK: {
+      const previousTrackIndex = getAdjacentTrackIndex(
+        tracks,
+        currentTrackIndex,
+        -1,
+        repeatMode,
+        shuffleOrder
+      );
 
-    case ActionTypes.PLAYER_PREVIOUS_TRACK:
       return {
         ...state,
-        currentTrackIndex: Math.max(currentTrackIndex - 1, 0)
+        resumeTime: null,
+        error: null,
+        currentTrackIndex:
+          previousTrackIndex > -1 ? previousTrackIndex : currentTrackIndex
       };
+    }
 
     case ActionTypes.PLAYER_UPDATE_CURRENT_TIME:
-      return { ...state, currentTime: action.payload };
+      return { ...state, currentTime: action.payload, resumeTime: null };
+
     case ActionTypes.PLAYER_MUTE:
       return { ...state, muted: true };
 
@@ -101,6 +241,93 @@ export const playerStateReducer = (
     case ActionTypes.PLAYER_UPDATE_PLAYBACK_RATE:
       return { ...state, playbackRate: action.payload };
 
+    case ActionTypes.PLAYER_UPDATE_PLAYBACK_POSITIONS:
+      return { ...state, playbackPositions: action.payload };
+
+    case ActionTypes.PLAYER_UPDATE_TRACK_PLAYBACK_POSITION:
+      return {
+        ...state,
+        playbackPositions: {
+          ...state.playbackPositions,
+          [action.payload.guid]: action.payload.position
+        }
+      };
+
+    case ActionTypes.PLAYER_RESUME_PLAYBACK_POSITION:
+      return {
+        ...state,
+        currentTime: action.payload,
+        // Only offer to resume when the listener hasn't already started playing.
+        resumeTime: playing ? null : action.payload
+      };
+
+    case ActionTypes.PLAYER_UPDATE_SLEEP_TIMER:
+      return { ...state, sleepTimer: action.payload };
+
+    case ActionTypes.PLAYER_CLEAR_SLEEP_TIMER:
+      return { ...state, sleepTimer: null };
+
+    case ActionTypes.PLAYER_UPDATE_REPEAT_MODE:
+      return { ...state, repeatMode: action.payload };
+
+    case ActionTypes.PLAYER_UPDATE_SHUFFLE_ORDER:
+      return { ...state, shuffleOrder: action.payload };
+
+    case ActionTypes.PLAYER_UPDATE_QUEUE:
+      return { ...state, queue: action.payload };
+
+    case ActionTypes.PLAYER_QUEUE_TRACK:
+      return {
+        ...state,
+        queue: (queue || []).includes(action.payload)
+          ? queue
+          : [...(queue || []), action.payload]
+      };
+
+    case ActionTypes.PLAYER_QUEUE_TRACK_NEXT:
+      return {
+        ...state,
+        queue: [
+          action.payload,
+          ...(queue || []).filter((guid) => guid !== action.payload)
+        ]
+      };
+
+    case ActionTypes.PLAYER_DEQUEUE_TRACK:
+      return {
+        ...state,
+        queue: (queue || []).filter((guid) => guid !== action.payload)
+      };
+
+    case ActionTypes.PLAYER_UPDATE_ERROR:
+      return {
+        ...state,
+        error: action.payload,
+        // Keep playing while playback is retried.
+        ...(!action.payload.retrying && { playing: false })
+      };
+
+    case ActionTypes.PLAYER_CLEAR_ERROR:
+      return { ...state, error: null };
+
+    case ActionTypes.PLAYER_UPDATE_AUDIO_ENHANCEMENTS:
+      return {
+        ...state,
+        audioEnhancements: { ...state.audioEnhancements, ...action.payload }
+      };
+
+    case ActionTypes.PLAYER_UPDATE_AUDIO_ENHANCEMENTS_UNAVAILABLE:
+      return { ...state, audioEnhancementsUnavailable: action.payload };
+
+    case ActionTypes.PLAYER_UPDATE_PREFERENCES:
+      return { ...state, ...action.payload };
+
+    case ActionTypes.PLAYER_SHOW_HOTKEYS:
+      return { ...state, hotkeysShown: true };
+
+    case ActionTypes.PLAYER_HIDE_HOTKEYS:
+      return { ...state, hotkeysShown: false };
+
     default:
       return state;
   }